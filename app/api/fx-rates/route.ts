@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { getRequiredCurrencies, SUPPORTED_CURRENCIES } from '@/lib/fx';
+import { getFxRates } from '@/lib/quotes/fx';
+
+const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const base = (searchParams.get('base') ?? 'USD').trim().toUpperCase();
+    const currencies = (searchParams.get('currencies') ?? '')
+      .split(',')
+      .map((currency) => currency.trim().toUpperCase())
+      .filter(Boolean);
+
+    if (!SUPPORTED_CURRENCIES.includes(base)) {
+      return NextResponse.json(
+        {
+          error: `Base currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const invalid = currencies.filter(
+      (currency) => !CURRENCY_CODE_REGEX.test(currency)
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid currency codes: ${invalid.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const rates = await getFxRates(base, getRequiredCurrencies(currencies));
+    return NextResponse.json({ rates });
+  } catch (_error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
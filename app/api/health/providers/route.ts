@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getProviderHealth } from '@/lib/quotes/health';
+import {
+  getProviderPriority,
+  getRegisteredQuoteProviders,
+} from '@/lib/quotes/registry';
+
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  const priority = getProviderPriority();
+  const rank = (id: string) => {
+    const index = priority.indexOf(id);
+    return index === -1 ? priority.length : index;
+  };
+
+  // Providers in fallback order; ones missing from the priority list last
+  const providers = getRegisteredQuoteProviders()
+    .sort((a, b) => rank(a.id) - rank(b.id))
+    .map((provider) => ({
+      ...getProviderHealth(provider),
+      inPriority: priority.includes(provider.id),
+    }));
+
+  return NextResponse.json({
+    checkedAt: new Date().toISOString(),
+    providers,
+  });
+}
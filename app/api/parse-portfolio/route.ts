@@ -1,16 +1,77 @@
 import type { NextRequest } from 'next/server';
-import { OpenAI } from 'openai';
+import { z } from 'zod';
+import { getLlmClient } from '@/lib/llm/client';
+import {
+  computePortfolioDiff,
+  parseEditsWithRules,
+} from '@/lib/portfolioEdits';
+import {
+  requestParsedPortfolio,
+  requestPortfolioEdits,
+} from '@/lib/portfolioPrompt';
+import { parsePortfolioWithRules } from '@/lib/portfolioRules';
+import { validateParsedPositions } from '@/lib/portfolioSchema';
+import type { PortfolioPosition } from '@/lib/storage';
+
+// Only what the diff needs; prices and other client fields are kept as sent
+const currentPortfolioSchema = z.array(
+  z
+    .object({
+      symbol: z.string(),
+      shares: z.number(),
+      companyName: z.string(),
+    })
+    .passthrough()
+);
+
+/**
+ * Turn an instruction into changes against the current holdings, with the
+ * same rules-then-model order as a full parse
+ */
+async function editPortfolio(
+  instruction: string,
+  current: PortfolioPosition[]
+) {
+  const ruleEdits = parseEditsWithRules(instruction);
+  const ruleResult = () => {
+    const diff = computePortfolioDiff(current, ruleEdits.edits);
+    return Response.json({
+      changes: diff.changes,
+      rejected: [...ruleEdits.rejected, ...diff.rejected],
+      transactions: diff.transactions,
+      heuristic: ruleEdits.heuristic,
+    });
+  };
+
+  if (!ruleEdits.heuristic) {
+    return ruleResult();
+  }
+
+  const llm = getLlmClient();
+  if (!llm.isConfigured()) {
+    return ruleResult();
+  }
+
+  const result = await requestPortfolioEdits(llm, instruction, current);
+
+  if (result.refusal) {
+    return Response.json({ error: result.refusal }, { status: 422 });
+  }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+  if (!result.data) {
+    return ruleResult();
+  }
 
-// Regex for validating stock symbols
-const STOCK_SYMBOL_REGEX = /^[A-Z]{1,5}$/;
+  const { changes, rejected, transactions } = computePortfolioDiff(
+    current,
+    result.data.edits
+  );
+  return Response.json({ changes, rejected, transactions });
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { portfolioText } = await request.json();
+    const { portfolioText, currentPortfolio } = await request.json();
 
     if (!portfolioText || typeof portfolioText !== 'string') {
       return Response.json(
@@ -19,90 +80,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const prompt = `
-You are a financial assistant that extracts stock portfolio information from natural language descriptions.
-
-Parse this portfolio description and extract stock positions:
-"${portfolioText}"
-
-Return a JSON array of objects with this exact format:
-[{"symbol": "AAPL", "shares": 100, "companyName": "Apple Inc."}]
-
-Rules:
-1. Recognize ANY valid publicly traded US stock symbols (1-5 uppercase letters)
-2. Use your knowledge of companies to map company names to their correct stock symbols
-3. If shares aren't specified, use 1 as default
-4. Use proper official company names (e.g., "Apple Inc." not "apple")
-5. If no valid stocks are found, return an empty array []
-6. Be comprehensive - recognize major companies like Apple (AAPL), Microsoft (MSFT), Google/Alphabet (GOOGL), Tesla (TSLA), Amazon (AMZN), Netflix (NFLX), Meta/Facebook (META), Nvidia (NVDA), Disney (DIS), Boeing (BA), Coca-Cola (KO), McDonald's (MCD), Walmart (WMT), JPMorgan Chase (JPM), Berkshire Hathaway (BRK.B), Johnson & Johnson (JNJ), Procter & Gamble (PG), Visa (V), Mastercard (MA), Home Depot (HD), and thousands of others
-7. Handle variations in company names (e.g., "Facebook" or "Meta" both map to META)
-
-Return only the JSON array, no additional text.
-    `.trim();
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 1000,
-    });
-
-    const content = response.choices[0]?.message?.content;
-
-    if (!content) {
-      return Response.json(
-        { error: 'No response from AI model' },
-        { status: 500 }
+    // With the current holdings, the text is an edit ("sold 20 AAPL")
+    // rather than a whole portfolio
+    if (currentPortfolio !== undefined) {
+      const current = currentPortfolioSchema.safeParse(currentPortfolio);
+      if (!current.success) {
+        return Response.json(
+          { error: 'Current portfolio is invalid' },
+          { status: 400 }
+        );
+      }
+      return await editPortfolio(
+        portfolioText,
+        current.data as PortfolioPosition[]
       );
     }
 
-    // Parse the JSON response
-    let positions: unknown;
-    try {
-      // Clean the response - remove any markdown code blocks
-      const cleanedContent = content.replace(/```json\n?|\n?```/g, '').trim();
-      positions = JSON.parse(cleanedContent);
-    } catch (_parseError) {
-      return Response.json(
-        {
-          error:
-            'Failed to parse AI response. Please try rephrasing your portfolio description.',
-        },
-        { status: 500 }
-      );
+    // Already structured ("100 AAPL, 50 MSFT"): no model needed
+    const ruleResult = parsePortfolioWithRules(portfolioText);
+    if (!ruleResult.heuristic) {
+      return Response.json(ruleResult);
     }
 
-    // Validate the response format
-    if (!Array.isArray(positions)) {
-      return Response.json(
-        { error: 'Invalid response format from AI model' },
-        { status: 500 }
-      );
+    // Without a model, or when it fails, the rules result is used as is
+    const llm = getLlmClient();
+    if (!llm.isConfigured()) {
+      return Response.json(ruleResult);
     }
 
-    // Validate each position
-    const validPositions = positions.filter((position) => {
-      return (
-        position &&
-        typeof position === 'object' &&
-        typeof position.symbol === 'string' &&
-        STOCK_SYMBOL_REGEX.test(position.symbol) &&
-        typeof position.shares === 'number' &&
-        position.shares > 0 &&
-        typeof position.companyName === 'string' &&
-        position.companyName.trim().length > 0
-      );
-    });
+    const result = await requestParsedPortfolio(llm, portfolioText);
 
-    return Response.json({ positions: validPositions });
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('API key')) {
-      return Response.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
-      );
+    if (result.refusal) {
+      return Response.json({ error: result.refusal }, { status: 422 });
     }
 
+    if (!result.data) {
+      return Response.json(ruleResult);
+    }
+
+    // The schema fixes the shape; values (symbols, quantities) are checked
+    // per holding so one bad line does not sink the rest
+    const { positions, rejected } = validateParsedPositions(
+      result.data.positions
+    );
+
+    return Response.json({ positions, rejected });
+  } catch (_error) {
     return Response.json(
       { error: 'Failed to parse portfolio. Please try again.' },
       { status: 500 }
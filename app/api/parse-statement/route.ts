@@ -0,0 +1,96 @@
+import type { NextRequest } from 'next/server';
+import { getLlmClient } from '@/lib/llm/client';
+import {
+  extractStatementLines,
+  findHoldingsSection,
+  locateStatementLine,
+  parseStatementLines,
+  type StatementParseResult,
+  toStatementRows,
+} from '@/lib/pdfStatement';
+import { requestParsedPortfolio } from '@/lib/portfolioPrompt';
+
+// Statements run to a few hundred kilobytes; anything far larger is not one
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const PDF_SIGNATURE = '%PDF-';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return Response.json({ error: 'PDF file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return Response.json(
+        { error: 'PDF is larger than 10 MB' },
+        { status: 413 }
+      );
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (new TextDecoder().decode(data.slice(0, 5)) !== PDF_SIGNATURE) {
+      return Response.json({ error: 'File is not a PDF' }, { status: 415 });
+    }
+
+    // Text is extracted here; only the holdings section goes to the model
+    const { lines, pageCount } = await extractStatementLines(data);
+    if (lines.length === 0) {
+      return Response.json(
+        {
+          error:
+            'No text found in this PDF. Scanned statements are not supported.',
+        },
+        { status: 422 }
+      );
+    }
+
+    const section = findHoldingsSection(lines);
+    const ruleResult: StatementParseResult = {
+      ...toStatementRows(parseStatementLines(section)),
+      heuristic: true,
+      pageCount,
+    };
+
+    // Without a model, or when it fails, the rows read by rules are used
+    const llm = getLlmClient();
+    if (!llm.isConfigured()) {
+      return Response.json(ruleResult);
+    }
+
+    const result = await requestParsedPortfolio(
+      llm,
+      section.map((line) => line.text).join('\n'),
+      'statement'
+    );
+
+    if (result.refusal) {
+      return Response.json({ error: result.refusal }, { status: 422 });
+    }
+
+    if (!result.data) {
+      return Response.json(ruleResult);
+    }
+
+    const { rows, rejected } = toStatementRows(
+      result.data.positions.map((item) => ({
+        item,
+        source: locateStatementLine(section, item),
+      }))
+    );
+
+    return Response.json({
+      rows,
+      rejected,
+      pageCount,
+    } satisfies StatementParseResult);
+  } catch (_error) {
+    return Response.json(
+      { error: 'Failed to read statement. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  authorizeServerStore,
+  getServerStoreBackend,
+  isServerStoreEnabled,
+} from '@/lib/serverStore';
+
+// Keys written by lib/storage.ts, e.g. portfolio:<id> or quarantine:...
+const KEY_REGEX = /^[\w:.-]{1,200}$/;
+
+// Room for a long ledger, while keeping a single write bounded
+const MAX_VALUE_LENGTH = 5 * 1024 * 1024;
+
+const keySchema = z.string().regex(KEY_REGEX, 'Invalid key');
+
+const setSchema = z.object({
+  key: keySchema,
+  value: z
+    .string()
+    .max(
+      MAX_VALUE_LENGTH,
+      `Value must be under ${MAX_VALUE_LENGTH} characters`
+    ),
+});
+
+const deleteSchema = z.object({ key: keySchema });
+
+/**
+ * Why a request cannot be served (the server store is off, or the request
+ * lacks the shared token), or null when it can
+ */
+const refuse = (request: NextRequest) => {
+  if (!isServerStoreEnabled()) {
+    return NextResponse.json(
+      { error: 'Server storage is not enabled' },
+      { status: 404 }
+    );
+  }
+
+  const refusal = authorizeServerStore(request.headers.get('authorization'));
+  if (refusal === 'no-token') {
+    return NextResponse.json(
+      { error: 'Set PORTFOLIO_STORE_TOKEN to use server storage' },
+      { status: 503 }
+    );
+  }
+  if (refusal === 'unauthorized') {
+    return NextResponse.json(
+      { error: 'Missing or wrong server storage token' },
+      { status: 401 }
+    );
+  }
+  return null;
+};
+
+/**
+ * Run a change against the backend, answering with the reason when the
+ * body is not valid or the backend fails
+ */
+const change = async <T>(
+  request: NextRequest,
+  schema: z.ZodType<T>,
+  apply: (body: T) => void
+) => {
+  const refusal = refuse(request);
+  if (refusal) {
+    return refusal;
+  }
+
+  const result = schema.safeParse(await request.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error.issues[0]?.message ?? 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    apply(result.data);
+    return NextResponse.json({ ok: true });
+  } catch (_error) {
+    return NextResponse.json(
+      { error: 'Failed to save to the server store' },
+      { status: 500 }
+    );
+  }
+};
+
+export function GET(request: NextRequest) {
+  const refusal = refuse(request);
+  if (refusal) {
+    return refusal;
+  }
+
+  try {
+    return NextResponse.json({ entries: getServerStoreBackend().entries() });
+  } catch (_error) {
+    return NextResponse.json(
+      { error: 'Failed to read the server store' },
+      { status: 500 }
+    );
+  }
+}
+
+export function PUT(request: NextRequest) {
+  return change(request, setSchema, ({ key, value }) =>
+    getServerStoreBackend().set(key, value)
+  );
+}
+
+export function DELETE(request: NextRequest) {
+  return change(request, deleteSchema, ({ key }) =>
+    getServerStoreBackend().delete(key)
+  );
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { HistoryInterval, HistoryRange } from '@/lib/api';
+import {
+  fetchHistoryWithFallback,
+  getActiveQuoteProviders,
+} from '@/lib/quotes/registry';
+import { HISTORY_RANGE_DAYS, INTRADAY_RANGES } from '@/lib/quotes/types';
+import { isValidSymbol } from '@/lib/symbols';
+
+const HISTORY_INTERVALS: HistoryInterval[] = ['daily', 'intraday'];
+
+const isHistoryRange = (value: string): value is HistoryRange =>
+  value in HISTORY_RANGE_DAYS;
+
+const isHistoryInterval = (value: string): value is HistoryInterval =>
+  HISTORY_INTERVALS.includes(value as HistoryInterval);
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const symbol = searchParams.get('symbol')?.trim().toUpperCase();
+    const range = searchParams.get('range') ?? '1m';
+    const interval = searchParams.get('interval') ?? 'daily';
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidSymbol(symbol)) {
+      return NextResponse.json(
+        { error: `Invalid symbol: ${symbol}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isHistoryRange(range)) {
+      return NextResponse.json(
+        {
+          error: `Range must be one of: ${Object.keys(HISTORY_RANGE_DAYS).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isHistoryInterval(interval)) {
+      return NextResponse.json(
+        { error: `Interval must be one of: ${HISTORY_INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (interval === 'intraday' && !INTRADAY_RANGES.includes(range)) {
+      return NextResponse.json(
+        {
+          error: `Intraday bars are only available for ranges: ${INTRADAY_RANGES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const providers = getActiveQuoteProviders();
+
+    if (providers.length === 0) {
+      return NextResponse.json(
+        { error: 'No stock price API keys configured' },
+        { status: 500 }
+      );
+    }
+
+    const history = await fetchHistoryWithFallback(
+      symbol,
+      { range, interval },
+      providers
+    );
+
+    return NextResponse.json({ history });
+  } catch (_error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
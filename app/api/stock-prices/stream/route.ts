@@ -0,0 +1,91 @@
+import type { NextRequest } from 'next/server';
+import { getActiveQuoteProviders } from '@/lib/quotes/registry';
+import { subscribeToQuotes } from '@/lib/quotes/stream';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const MAX_SYMBOLS = 50;
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  const symbols = Array.from(
+    new Set(
+      (request.nextUrl.searchParams.get('symbols') ?? '')
+        .split(',')
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+
+  if (symbols.length === 0 || symbols.length > MAX_SYMBOLS) {
+    return Response.json(
+      { error: `Between 1 and ${MAX_SYMBOLS} symbols are required` },
+      { status: 400 }
+    );
+  }
+
+  const providers = getActiveQuoteProviders();
+
+  if (providers.length === 0) {
+    return Response.json(
+      { error: 'No stock price API keys configured' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {
+    // Replaced once the stream starts
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToQuotes({
+        symbols,
+        providers,
+        onQuotes: (prices) => {
+          send(`event: quotes\ndata: ${JSON.stringify({ prices })}\n\n`);
+        },
+      });
+      const heartbeat = setInterval(
+        () => send(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
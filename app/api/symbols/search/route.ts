@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { searchSymbols } from '@/lib/symbolSearch';
+
+const MAX_LIMIT = 50;
+
+export function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get('q')?.trim() ?? '';
+  const limit = Number(searchParams.get('limit') ?? 10);
+
+  if (!query) {
+    return NextResponse.json(
+      { error: 'Query parameter q is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `Limit must be between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ results: searchSymbols(query, limit) });
+}
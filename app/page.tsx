@@ -1,26 +1,130 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import PortfolioInput from '@/components/PortfolioInput';
-import { PortfolioDisplay } from '@/components/PortfolioDisplay';
-import NewsDisplay from '@/components/NewsDisplay';
-import InsightsDisplay from '@/components/InsightsDisplay';
-import { type PortfolioPosition, hasPortfolio, loadPortfolio } from '@/lib/storage';
 import { Settings2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import InsightsDisplay from '@/components/InsightsDisplay';
+import NewsDisplay from '@/components/NewsDisplay';
+import { PortfolioDisplay } from '@/components/PortfolioDisplay';
+import { PortfolioEditor } from '@/components/PortfolioEditor';
+import PortfolioInput from '@/components/PortfolioInput';
+import { PortfolioSwitcher } from '@/components/PortfolioSwitcher';
+import { RealizedGainsReport } from '@/components/RealizedGainsReport';
+import { ServerStoreToken } from '@/components/ServerStoreToken';
+import { StorageRecovery } from '@/components/StorageRecovery';
+import { TransactionLedger } from '@/components/TransactionLedger';
+import {
+  initPortfolioStore,
+  isServerStoreLocked,
+  onPortfolioStoreError,
+  setServerStoreToken,
+} from '@/lib/portfolioStore';
+import {
+  ALL_PORTFOLIOS,
+  getActivePortfolioId,
+  getPortfolioNamesBySymbol,
+  hasPortfolio,
+  listPortfolios,
+  loadPortfolio,
+  mergePortfolios,
+  type NamedPortfolio,
+  type PortfolioPosition,
+  setActivePortfolio,
+} from '@/lib/storage';
+import {
+  discardQuarantinedData,
+  listQuarantinedData,
+  type QuarantinedData,
+} from '@/lib/versionedStorage';
 
 export default function Home() {
   const [showPortfolio, setShowPortfolio] = useState(false);
   const [portfolio, setPortfolio] = useState<PortfolioPosition[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedData[]>([]);
+  const [portfolios, setPortfolios] = useState<NamedPortfolio[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [portfolioNamesBySymbol, setPortfolioNamesBySymbol] =
+    useState<Record<string, string[]>>();
+  const [storeReady, setStoreReady] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [storeLocked, setStoreLocked] = useState(false);
+
+  const showAll = selectedId === ALL_PORTFOLIOS;
+  const portfolioName = showAll
+    ? 'All Accounts'
+    : portfolios.find((p) => p.id === selectedId)?.name;
+
+  // Show one portfolio, or every portfolio merged into a read-only view
+  const showSelection = useCallback((id: string) => {
+    const namedPortfolios = listPortfolios();
+    setPortfolios(namedPortfolios);
+    setSelectedId(id);
+    setEditing(false);
+
+    if (id === ALL_PORTFOLIOS) {
+      const accounts = namedPortfolios.map((p) => ({
+        name: p.name,
+        positions: loadPortfolio(p.id),
+      }));
+      setShowPortfolio(true);
+      setPortfolio(
+        mergePortfolios(accounts.map((account) => account.positions))
+      );
+      setPortfolioNamesBySymbol(getPortfolioNamesBySymbol(accounts));
+      return;
+    }
 
-  // Check if portfolio exists on mount
-  useEffect(() => {
     const hasPortfolioData = hasPortfolio();
     setShowPortfolio(hasPortfolioData);
-    if (hasPortfolioData) {
-      setPortfolio(loadPortfolio());
-    }
+    setPortfolio(hasPortfolioData ? loadPortfolio() : []);
+    setPortfolioNamesBySymbol(undefined);
   }, []);
 
+  // Show the active portfolio once the store has loaded; loading it sets
+  // aside saved data that cannot be read
+  const handleStoreLoaded = useCallback(
+    (error: string | null) => {
+      setStoreError(error);
+      setStoreLocked(isServerStoreLocked());
+      showSelection(getActivePortfolioId());
+      setQuarantined(listQuarantinedData());
+      setStoreReady(true);
+    },
+    [showSelection]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    initPortfolioStore().then((error) => {
+      if (!cancelled) {
+        handleStoreLoaded(error);
+      }
+    });
+
+    const stopListening = onPortfolioStoreError(setStoreError);
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, [handleStoreLoaded]);
+
+  const handleSelectPortfolio = (id: string) => {
+    if (id !== ALL_PORTFOLIOS) {
+      setActivePortfolio(id);
+    }
+    showSelection(id);
+  };
+
+  const handleStoreToken = (token: string) => {
+    setServerStoreToken(token);
+    initPortfolioStore().then(handleStoreLoaded);
+  };
+
+  const handleDiscard = (id: string) => {
+    discardQuarantinedData(id);
+    setQuarantined(listQuarantinedData());
+  };
+
   const handlePortfolioParsed = (positions: PortfolioPosition[]) => {
     if (positions.length > 0) {
       setShowPortfolio(true);
@@ -31,67 +135,129 @@ export default function Home() {
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
-        {!showPortfolio ? (
-          <div className="flex flex-col items-center justify-center min-h-[80vh] space-y-8">
-            <div className="text-center space-y-4 max-w-2xl">
-              <h1 className="text-4xl font-bold tracking-tight">
-                Portfolio Intelligence
-              </h1>
-              <p className="text-xl text-muted-foreground">
-                Get personalized financial news for your stock portfolio. 
-                Enter your holdings and see only the news that matters to you.
-              </p>
-            </div>
-            <PortfolioInput onPortfolioParsed={handlePortfolioParsed} />
+        {storeError && (
+          <div
+            className="mb-8 rounded-md border border-destructive/50 p-4 text-destructive text-sm"
+            role="alert"
+          >
+            {storeError}
+            {storeLocked && <ServerStoreToken onSubmit={handleStoreToken} />}
           </div>
-        ) : (
-          <div className="space-y-8">
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-              <div>
-                <h1 className="text-3xl font-bold">Your Portfolio</h1>
-                <p className="text-muted-foreground">
-                  Real-time prices and daily changes for your holdings
-                </p>
+        )}
+        <StorageRecovery entries={quarantined} onDiscard={handleDiscard} />
+        {(showPortfolio || portfolios.length > 1) && (
+          <PortfolioSwitcher
+            onChange={() => showSelection(getActivePortfolioId())}
+            onSelect={handleSelectPortfolio}
+            portfolios={portfolios}
+            selectedId={selectedId}
+          />
+        )}
+        {storeReady ? (
+          showPortfolio ? (
+            <div className="space-y-8" key={selectedId}>
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <h1 className="font-bold text-3xl">
+                    {portfolioName ?? 'Your Portfolio'}
+                  </h1>
+                  <p className="text-muted-foreground">
+                    {showAll
+                      ? 'Real-time prices and daily changes for the holdings of every portfolio'
+                      : 'Real-time prices and daily changes for your holdings'}
+                  </p>
+                </div>
+                {!showAll && (
+                  <button
+                    aria-expanded={editing}
+                    aria-label="Edit Portfolio"
+                    className="inline-flex items-center gap-2 rounded-full bg-background p-2 text-muted-foreground shadow-sm transition-colors hover:bg-muted hover:text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                    onClick={() => setEditing(!editing)}
+                    tabIndex={0}
+                    type="button"
+                  >
+                    <Settings2 aria-hidden="true" className="h-4 w-4" />
+                    <span className="sr-only">Edit Portfolio</span>
+                  </button>
+                )}
               </div>
-              <button
-                onClick={() => {
-                  setShowPortfolio(false);
-                  setPortfolio([]);
-                }}
-                className="inline-flex items-center gap-2 p-2 rounded-full bg-background hover:bg-muted transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 text-muted-foreground hover:text-foreground shadow-sm"
-                aria-label="Edit Portfolio"
-                tabIndex={0}
-                type="button"
-              >
-                <Settings2 className="h-4 w-4" aria-hidden="true" />
-                <span className="sr-only">Edit Portfolio</span>
-              </button>
-            </div>
-            <PortfolioDisplay portfolio={portfolio} />
-            
-            {/* AI Insights Section */}
-            <div className="space-y-4">
-              <div>
-                <h2 className="text-2xl font-bold">AI Portfolio Insights</h2>
-                <p className="text-muted-foreground">
-                  Personalized analysis and recommendations for your holdings
-                </p>
+              {editing && (
+                <PortfolioEditor
+                  onApply={setPortfolio}
+                  onClose={() => setEditing(false)}
+                  onStartOver={() => {
+                    setEditing(false);
+                    setShowPortfolio(false);
+                    setPortfolio([]);
+                  }}
+                  portfolio={portfolio}
+                />
+              )}
+              <PortfolioDisplay
+                onPortfolioChange={setPortfolio}
+                portfolio={portfolio}
+                readOnly={showAll}
+              />
+
+              {/* Transaction History Section; each portfolio keeps its own */}
+              {!showAll && (
+                <>
+                  <TransactionLedger
+                    onPortfolioChange={setPortfolio}
+                    portfolio={portfolio}
+                  />
+                  <RealizedGainsReport
+                    onPortfolioChange={setPortfolio}
+                    portfolio={portfolio}
+                  />
+                </>
+              )}
+
+              {/* AI Insights Section */}
+              <div className="space-y-4">
+                <div>
+                  <h2 className="font-bold text-2xl">AI Portfolio Insights</h2>
+                  <p className="text-muted-foreground">
+                    Personalized analysis and recommendations for your holdings
+                  </p>
+                </div>
+                <InsightsDisplay
+                  portfolio={portfolio}
+                  portfolioName={portfolioName}
+                  portfolioNamesBySymbol={portfolioNamesBySymbol}
+                />
+              </div>
+
+              {/* News Section */}
+              <div className="space-y-4">
+                <div>
+                  <h2 className="font-bold text-2xl">Portfolio News</h2>
+                  <p className="text-muted-foreground">
+                    Financial news filtered for your holdings
+                  </p>
+                </div>
+                <NewsDisplay
+                  portfolio={portfolio}
+                  portfolioName={portfolioName}
+                  portfolioNamesBySymbol={portfolioNamesBySymbol}
+                />
               </div>
-              <InsightsDisplay portfolio={portfolio} />
             </div>
-            
-            {/* News Section */}
-            <div className="space-y-4">
-              <div>
-                <h2 className="text-2xl font-bold">Portfolio News</h2>
-                <p className="text-muted-foreground">
-                  Financial news filtered for your holdings
+          ) : (
+            <div className="flex min-h-[80vh] flex-col items-center justify-center space-y-8">
+              <div className="max-w-2xl space-y-4 text-center">
+                <h1 className="font-bold text-4xl tracking-tight">
+                  Portfolio Intelligence
+                </h1>
+                <p className="text-muted-foreground text-xl">
+                  Get personalized financial news for your stock portfolio.
+                  Enter your holdings and see only the news that matters to you.
                 </p>
               </div>
-              <NewsDisplay portfolio={portfolio} />
+              <PortfolioInput onPortfolioParsed={handlePortfolioParsed} />
             </div>
-          </div>
-        )}
+          )
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+'use client';
+
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { SymbolCombobox } from '@/components/SymbolCombobox';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { SymbolInfo } from '@/data/symbols';
+
+interface AddPositionFormProps {
+  onAdd: (symbol: SymbolInfo, shares: number) => void;
+}
+
+/**
+ * Add a holding by picking its exact ticker instead of describing it
+ */
+export function AddPositionForm({ onAdd }: AddPositionFormProps) {
+  const [symbol, setSymbol] = useState<SymbolInfo | null>(null);
+  const [shares, setShares] = useState('');
+
+  const parsedShares = Number(shares);
+  const isValid =
+    symbol !== null && Number.isFinite(parsedShares) && parsedShares > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(isValid && symbol)) {
+      return;
+    }
+
+    onAdd(symbol, parsedShares);
+    setSymbol(null);
+    setShares('');
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-2 sm:flex-row sm:items-center"
+      onSubmit={handleSubmit}
+    >
+      <SymbolCombobox
+        className="sm:w-64"
+        onSelect={setSymbol}
+        placeholder="Search ticker or company..."
+        value={symbol?.symbol}
+      />
+      <Input
+        aria-label="Quantity"
+        className="sm:w-32"
+        min="0"
+        onChange={(e) => setShares(e.target.value)}
+        placeholder="Quantity"
+        step="any"
+        type="number"
+        value={shares}
+      />
+      <Button disabled={!isValid} type="submit">
+        <Plus className="h-4 w-4" />
+        Add Position
+      </Button>
+    </form>
+  );
+}
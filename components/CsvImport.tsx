@@ -0,0 +1,187 @@
+'use client';
+
+import { Upload } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  BROKER_LAYOUTS,
+  type BrokerId,
+  type CsvImportResult,
+  importBrokerCsv,
+} from '@/lib/csvImport';
+import { loadPortfolio, type PortfolioPosition } from '@/lib/storage';
+import { formatCurrency, formatQuantity } from '@/lib/utils';
+
+interface CsvImportProps {
+  onImport: (positions: PortfolioPosition[]) => void;
+}
+
+/**
+ * Import holdings from a brokerage CSV export, previewing them before they
+ * replace the saved portfolio
+ */
+export function CsvImport({ onImport }: CsvImportProps) {
+  const [broker, setBroker] = useState<BrokerId | 'auto'>('auto');
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+
+  const runImport = (text: string, selected: BrokerId | 'auto') => {
+    setResult(importBrokerCsv(text, selected));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const text = await file.text();
+    setFileText(text);
+    runImport(text, broker);
+  };
+
+  const handleBrokerChange = (value: BrokerId | 'auto') => {
+    setBroker(value);
+    if (fileText) {
+      runImport(fileText, value);
+    }
+  };
+
+  const handleCancel = () => {
+    setFileText(null);
+    setResult(null);
+  };
+
+  const handleConfirm = () => {
+    if (!result) {
+      return;
+    }
+    onImport(result.positions);
+    handleCancel();
+  };
+
+  const currentCount = result ? loadPortfolio().length : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          aria-label="Broker"
+          className="h-9 rounded-md border border-border bg-background px-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          onChange={(e) =>
+            handleBrokerChange(e.target.value as BrokerId | 'auto')
+          }
+          value={broker}
+        >
+          <option value="auto">Auto-detect broker</option>
+          {BROKER_LAYOUTS.map((layout) => (
+            <option key={layout.id} value={layout.id}>
+              {layout.name}
+            </option>
+          ))}
+        </select>
+        <Input
+          accept=".csv,text/csv"
+          aria-label="Brokerage CSV export"
+          className="sm:flex-1"
+          key={fileText === null ? 'empty' : 'loaded'}
+          onChange={handleFileChange}
+          type="file"
+        />
+      </div>
+
+      {result?.error && (
+        <p className="text-destructive text-sm">{result.error}</p>
+      )}
+
+      {result && !result.error && (
+        <div className="space-y-3 rounded-md border border-border p-3 text-sm">
+          <p className="font-medium">
+            {result.brokerName}: {result.positions.length}{' '}
+            {result.positions.length === 1 ? 'holding' : 'holdings'} found
+          </p>
+
+          {result.positions.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Symbol</th>
+                    <th className="py-1 pr-3 font-medium">Name</th>
+                    <th className="py-1 pr-3 text-right font-medium">
+                      Quantity
+                    </th>
+                    <th className="py-1 pr-3 text-right font-medium">
+                      Cost Basis
+                    </th>
+                    <th className="py-1 font-medium">Account</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.positions.map((position) => (
+                    <tr
+                      className="border-border border-t"
+                      key={position.symbol}
+                    >
+                      <td className="py-1 pr-3 font-medium">
+                        {position.symbol}
+                      </td>
+                      <td className="py-1 pr-3">{position.companyName}</td>
+                      <td className="py-1 pr-3 text-right">
+                        {formatQuantity(position.shares)}
+                      </td>
+                      <td className="py-1 pr-3 text-right">
+                        {position.costBasis === undefined
+                          ? '—'
+                          : formatCurrency(
+                              position.costBasis,
+                              position.currency
+                            )}
+                      </td>
+                      <td className="py-1 text-muted-foreground">
+                        {position.account ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {result.rejected.length > 0 && (
+            <ul className="space-y-1 text-muted-foreground">
+              {result.rejected.map((item) => (
+                <li key={item.input}>
+                  Skipped "{item.input}" — {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {currentCount > 0 && result.positions.length > 0 && (
+            <p className="text-muted-foreground">
+              Importing replaces your current {currentCount}{' '}
+              {currentCount === 1 ? 'holding' : 'holdings'}.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              disabled={result.positions.length === 0}
+              onClick={handleConfirm}
+              type="button"
+            >
+              <Upload className="h-4 w-4" />
+              Import {result.positions.length}{' '}
+              {result.positions.length === 1 ? 'holding' : 'holdings'}
+            </Button>
+            <Button onClick={handleCancel} type="button" variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
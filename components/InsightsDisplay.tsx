@@ -1,14 +1,38 @@
 'use client';
 
+import {
+  AlertCircle,
+  BarChart3,
+  Newspaper,
+  PieChart,
+  TrendingDown,
+  TrendingUp,
+} from 'lucide-react';
 import { useMemo } from 'react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, TrendingDown, AlertCircle, BarChart3, Newspaper, PieChart } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  filterRelevantNews,
+  generatePortfolioInsights,
+  mockNewsData,
+  type NewsItem,
+  type PortfolioInsight,
+} from '@/lib/insights';
 import type { PortfolioPosition } from '@/lib/storage';
-import { generatePortfolioInsights, filterRelevantNews, mockNewsData, type PortfolioInsight, type NewsItem } from '@/lib/insights';
+import { getSymbolKey } from '@/lib/symbols';
 
 interface InsightsDisplayProps {
   portfolio: PortfolioPosition[];
+  /** Name of the portfolio the insights are for */
+  portfolioName?: string;
+  /** Portfolios holding each symbol, to label news when several are shown together */
+  portfolioNamesBySymbol?: Record<string, string[]>;
   className?: string;
 }
 
@@ -71,18 +95,18 @@ const InsightCard = ({ insight }: { insight: PortfolioInsight }) => {
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-center gap-2">
-            <div className="p-2 rounded-lg bg-accent/10">
+            <div className="rounded-lg bg-accent/10 p-2">
               <IconComponent className="h-4 w-4 text-accent-foreground" />
             </div>
             <div className="min-w-0 flex-1">
-              <CardTitle className="text-sm font-medium line-clamp-2">
+              <CardTitle className="line-clamp-2 font-medium text-sm">
                 {insight.title}
               </CardTitle>
             </div>
           </div>
           <div className="flex items-center gap-1">
             <ImpactIcon className={`h-3 w-3 ${impactColor}`} />
-            <Badge variant={badgeVariant} className="text-xs px-2 py-0">
+            <Badge className="px-2 py-0 text-xs" variant={badgeVariant}>
               {insight.impact}
             </Badge>
           </div>
@@ -92,22 +116,24 @@ const InsightCard = ({ insight }: { insight: PortfolioInsight }) => {
         <CardDescription className="text-sm leading-relaxed">
           {insight.description}
         </CardDescription>
-        
+
         {insight.data && (
-          <div className="mt-3 flex flex-wrap gap-2 text-xs text-muted-foreground">
+          <div className="mt-3 flex flex-wrap gap-2 text-muted-foreground text-xs">
             {insight.data.symbol && (
-              <span className="px-2 py-1 bg-muted rounded-md font-mono">
+              <span className="rounded-md bg-muted px-2 py-1 font-mono">
                 {insight.data.symbol}
               </span>
             )}
             {insight.data.value !== undefined && (
-              <span className="px-2 py-1 bg-muted rounded-md">
+              <span className="rounded-md bg-muted px-2 py-1">
                 {insight.data.value > 0 ? '+' : ''}
                 {insight.data.value.toFixed(2)}
               </span>
             )}
             {insight.data.percentage !== undefined && (
-              <span className={`px-2 py-1 bg-muted rounded-md font-medium ${getImpactColor(insight.data.percentage > 0 ? 'positive' : insight.data.percentage < 0 ? 'negative' : 'neutral')}`}>
+              <span
+                className={`rounded-md bg-muted px-2 py-1 font-medium ${getImpactColor(insight.data.percentage > 0 ? 'positive' : insight.data.percentage < 0 ? 'negative' : 'neutral')}`}
+              >
                 {insight.data.percentage > 0 ? '+' : ''}
                 {insight.data.percentage.toFixed(1)}%
               </span>
@@ -119,7 +145,13 @@ const InsightCard = ({ insight }: { insight: PortfolioInsight }) => {
   );
 };
 
-const NewsCard = ({ newsItem }: { newsItem: NewsItem }) => {
+const NewsCard = ({
+  newsItem,
+  portfolioNames = [],
+}: {
+  newsItem: NewsItem;
+  portfolioNames?: string[];
+}) => {
   const impactColor = getImpactColor(newsItem.impact);
   const ImpactIcon = getImpactIcon(newsItem.impact);
 
@@ -128,28 +160,34 @@ const NewsCard = ({ newsItem }: { newsItem: NewsItem }) => {
       <CardContent className="pt-4">
         <div className="space-y-3">
           <div className="flex items-start justify-between gap-3">
-            <h3 className="font-medium text-sm leading-tight line-clamp-2 flex-1">
+            <h3 className="line-clamp-2 flex-1 font-medium text-sm leading-tight">
               {newsItem.headline}
             </h3>
-            <div className="flex items-center gap-1 flex-shrink-0">
+            <div className="flex flex-shrink-0 items-center gap-1">
               <ImpactIcon className={`h-3 w-3 ${impactColor}`} />
-              <Badge variant="outline" className="text-xs px-2 py-0">
+              <Badge className="px-2 py-0 text-xs" variant="outline">
                 {newsItem.ticker}
               </Badge>
             </div>
           </div>
-          
+
           {newsItem.description && (
-            <p className="text-xs text-muted-foreground leading-relaxed line-clamp-2">
+            <p className="line-clamp-2 text-muted-foreground text-xs leading-relaxed">
               {newsItem.description}
             </p>
           )}
-          
-          <div className="flex items-center justify-between text-xs text-muted-foreground">
+
+          {portfolioNames.length > 0 && (
+            <p className="text-muted-foreground text-xs">
+              Held in {portfolioNames.join(', ')}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between text-muted-foreground text-xs">
             <span>{newsItem.timestamp}</span>
-            <Badge 
-              variant={getBadgeVariant(newsItem.impact)} 
-              className="text-xs px-2 py-0"
+            <Badge
+              className="px-2 py-0 text-xs"
+              variant={getBadgeVariant(newsItem.impact)}
             >
               {newsItem.impact}
             </Badge>
@@ -160,7 +198,12 @@ const NewsCard = ({ newsItem }: { newsItem: NewsItem }) => {
   );
 };
 
-export default function InsightsDisplay({ portfolio, className = '' }: InsightsDisplayProps) {
+export default function InsightsDisplay({
+  portfolio,
+  portfolioName,
+  portfolioNamesBySymbol,
+  className = '',
+}: InsightsDisplayProps) {
   const { insights, relevantNews } = useMemo(() => {
     if (!portfolio || portfolio.length === 0) {
       return { insights: [], relevantNews: [] };
@@ -168,7 +211,7 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
 
     const relevantNews = filterRelevantNews(mockNewsData, portfolio);
     const insights = generatePortfolioInsights(portfolio, relevantNews);
-    
+
     return { insights, relevantNews };
   }, [portfolio]);
 
@@ -177,8 +220,11 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
       <Card className={className}>
         <CardContent className="pt-6">
           <div className="text-center text-muted-foreground">
-            <AlertCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">Add stocks to your portfolio to see personalized insights</p>
+            <AlertCircle className="mx-auto mb-2 h-8 w-8 opacity-50" />
+            <p className="text-sm">
+              Add stocks to {portfolioName ?? 'your portfolio'} to see
+              personalized insights
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -191,23 +237,23 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <BarChart3 className="h-5 w-5 text-accent-foreground" />
-          <h2 className="text-lg font-semibold">AI Portfolio Insights</h2>
-          <Badge variant="secondary" className="text-xs">
+          <h2 className="font-semibold text-lg">AI Portfolio Insights</h2>
+          <Badge className="text-xs" variant="secondary">
             {insights.length}
           </Badge>
         </div>
-        
+
         {insights.length > 0 ? (
           <div className="grid gap-4 md:grid-cols-2">
             {insights.map((insight) => (
-              <InsightCard key={insight.id} insight={insight} />
+              <InsightCard insight={insight} key={insight.id} />
             ))}
           </div>
         ) : (
           <Card>
             <CardContent className="pt-6">
               <div className="text-center text-muted-foreground">
-                <AlertCircle className="h-6 w-6 mx-auto mb-2 opacity-50" />
+                <AlertCircle className="mx-auto mb-2 h-6 w-6 opacity-50" />
                 <p className="text-sm">
                   Waiting for stock price data to generate insights
                 </p>
@@ -221,27 +267,33 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <Newspaper className="h-5 w-5 text-accent-foreground" />
-          <h2 className="text-lg font-semibold">News for Your Stocks</h2>
-          <Badge variant="secondary" className="text-xs">
+          <h2 className="font-semibold text-lg">News for Your Stocks</h2>
+          <Badge className="text-xs" variant="secondary">
             {relevantNews.length}
           </Badge>
         </div>
-        
+
         {relevantNews.length > 0 ? (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {relevantNews.slice(0, 6).map((newsItem) => (
-              <NewsCard key={newsItem.id} newsItem={newsItem} />
+              <NewsCard
+                key={newsItem.id}
+                newsItem={newsItem}
+                portfolioNames={
+                  portfolioNamesBySymbol?.[getSymbolKey(newsItem.ticker)]
+                }
+              />
             ))}
           </div>
         ) : (
           <Card>
             <CardContent className="pt-6">
               <div className="text-center text-muted-foreground">
-                <Newspaper className="h-6 w-6 mx-auto mb-2 opacity-50" />
+                <Newspaper className="mx-auto mb-2 h-6 w-6 opacity-50" />
                 <p className="text-sm">
                   No recent news found for your current holdings
                 </p>
-                <p className="text-xs mt-1">
+                <p className="mt-1 text-xs">
                   Try adding more stocks to see relevant news updates
                 </p>
               </div>
@@ -252,32 +304,35 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
 
       {/* Portfolio Summary */}
       {portfolio.length > 0 && (
-        <Card className="bg-accent/5 border-accent/20">
+        <Card className="border-accent/20 bg-accent/5">
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <CardTitle className="flex items-center gap-2 font-medium text-sm">
               <PieChart className="h-4 w-4" />
-              Portfolio Summary
+              {portfolioName ?? 'Portfolio'} Summary
             </CardTitle>
           </CardHeader>
           <CardContent className="pt-0">
             <div className="flex flex-wrap gap-3 text-xs">
               <div className="flex items-center gap-1">
                 <span className="text-muted-foreground">Holdings:</span>
-                <Badge variant="outline" className="text-xs">
+                <Badge className="text-xs" variant="outline">
                   {portfolio.length} stock{portfolio.length !== 1 ? 's' : ''}
                 </Badge>
               </div>
               <div className="flex items-center gap-1">
                 <span className="text-muted-foreground">Symbols:</span>
                 <span className="font-mono text-accent-foreground">
-                  {portfolio.map(p => p.symbol).join(', ')}
+                  {portfolio.map((p) => p.symbol).join(', ')}
                 </span>
               </div>
-              {portfolio.some(p => p.totalValue) && (
+              {portfolio.some((p) => p.totalValue) && (
                 <div className="flex items-center gap-1">
                   <span className="text-muted-foreground">Total Value:</span>
                   <span className="font-medium text-accent-foreground">
-                    ${portfolio.reduce((sum, p) => sum + (p.totalValue || 0), 0).toFixed(2)}
+                    $
+                    {portfolio
+                      .reduce((sum, p) => sum + (p.totalValue || 0), 0)
+                      .toFixed(2)}
                   </span>
                 </div>
               )}
@@ -287,4 +342,4 @@ export default function InsightsDisplay({ portfolio, className = '' }: InsightsD
       )}
     </div>
   );
-}
\ No newline at end of file
+}
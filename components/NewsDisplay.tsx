@@ -1,35 +1,49 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
-import { NewsItem, mockNewsData } from '@/data/mockNews';
-import { 
-  filterNewsForPortfolio, 
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { mockNewsData, type NewsItem } from '@/data/mockNews';
+import {
   convertPortfolioForNews,
-  FilterOptions, 
+  type FilterOptions,
+  filterNewsForPortfolio,
   getNewsStats,
-  groupNewsByImpact 
+  groupNewsByImpact,
 } from '@/lib/newsFilter';
-import { PortfolioPosition } from '@/lib/storage';
-import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import type { PortfolioPosition } from '@/lib/storage';
+import { getSymbolKey } from '@/lib/symbols';
 
 interface NewsDisplayProps {
   portfolio: PortfolioPosition[];
+  /** Name of the portfolio the news is for */
+  portfolioName?: string;
+  /** Portfolios holding each symbol, to label news when several are shown together */
+  portfolioNamesBySymbol?: Record<string, string[]>;
   className?: string;
 }
 
-export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayProps) {
+export default function NewsDisplay({
+  portfolio,
+  portfolioName,
+  portfolioNamesBySymbol,
+  className = '',
+}: NewsDisplayProps) {
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     impact: 'all',
     timeframe: 'all',
     sortBy: 'timestamp',
-    sortOrder: 'desc'
+    sortOrder: 'desc',
   });
 
   // Filter and sort news based on portfolio and options
   const filteredNews = useMemo(() => {
     const portfolioHoldings = convertPortfolioForNews(portfolio);
-    return filterNewsForPortfolio(mockNewsData, portfolioHoldings, filterOptions);
+    return filterNewsForPortfolio(
+      mockNewsData,
+      portfolioHoldings,
+      filterOptions
+    );
   }, [portfolio, filterOptions]);
 
   // Get news statistics
@@ -45,16 +59,30 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
-    const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60));
-    
+    const diffInHours = Math.floor(
+      (now.getTime() - date.getTime()) / (1000 * 60 * 60)
+    );
+
     if (diffInHours < 1) {
       return 'Just now';
-    } else if (diffInHours < 24) {
+    }
+    if (diffInHours < 24) {
       return `${diffInHours}h ago`;
-    } else {
-      const diffInDays = Math.floor(diffInHours / 24);
-      return `${diffInDays}d ago`;
     }
+    const diffInDays = Math.floor(diffInHours / 24);
+    return `${diffInDays}d ago`;
+  };
+
+  // Which of the portfolios shown hold the symbols a story is about
+  const getPortfolioNames = (newsItem: NewsItem) => {
+    if (!portfolioNamesBySymbol) return [];
+    return Array.from(
+      new Set(
+        newsItem.relatedSymbols.flatMap(
+          (symbol) => portfolioNamesBySymbol[getSymbolKey(symbol)] ?? []
+        )
+      )
+    );
   };
 
   const getImpactColor = (impact: string) => {
@@ -86,9 +114,11 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
   if (!portfolio || portfolio.length === 0) {
     return (
       <div className={`${className}`}>
-        <Card className="bg-card border-border">
+        <Card className="border-border bg-card">
           <div className="p-6 text-center">
-            <h3 className="text-lg font-semibold text-foreground mb-2">No Portfolio Found</h3>
+            <h3 className="mb-2 font-semibold text-foreground text-lg">
+              No Portfolio Found
+            </h3>
             <p className="text-muted-foreground">
               Add stocks to your portfolio to see relevant financial news.
             </p>
@@ -101,11 +131,14 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
   if (filteredNews.length === 0) {
     return (
       <div className={`${className}`}>
-        <Card className="bg-card border-border">
+        <Card className="border-border bg-card">
           <div className="p-6 text-center">
-            <h3 className="text-lg font-semibold text-foreground mb-2">No News Available</h3>
+            <h3 className="mb-2 font-semibold text-foreground text-lg">
+              No News Available
+            </h3>
             <p className="text-muted-foreground">
-              No recent news found for your portfolio holdings.
+              No recent news found for {portfolioName ?? 'your portfolio'}{' '}
+              holdings.
             </p>
           </div>
         </Card>
@@ -116,42 +149,61 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
   return (
     <div className={`space-y-6 ${className}`}>
       {/* News Statistics */}
-      <Card className="bg-card border-border">
+      <Card className="border-border bg-card">
         <div className="p-4">
-          <h3 className="text-lg font-semibold text-foreground mb-3">Portfolio News Summary</h3>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <h3 className="mb-3 font-semibold text-foreground text-lg">
+            {portfolioName ?? 'Portfolio'} News Summary
+          </h3>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
             <div className="text-center">
-              <div className="text-2xl font-bold text-foreground">{newsStats.total}</div>
-              <div className="text-sm text-muted-foreground">Total News</div>
+              <div className="font-bold text-2xl text-foreground">
+                {newsStats.total}
+              </div>
+              <div className="text-muted-foreground text-sm">Total News</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold price-positive">{newsStats.positive}</div>
-              <div className="text-sm text-muted-foreground">Positive</div>
+              <div className="price-positive font-bold text-2xl">
+                {newsStats.positive}
+              </div>
+              <div className="text-muted-foreground text-sm">Positive</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold price-negative">{newsStats.negative}</div>
-              <div className="text-sm text-muted-foreground">Negative</div>
+              <div className="price-negative font-bold text-2xl">
+                {newsStats.negative}
+              </div>
+              <div className="text-muted-foreground text-sm">Negative</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-muted-foreground">{newsStats.neutral}</div>
-              <div className="text-sm text-muted-foreground">Neutral</div>
+              <div className="font-bold text-2xl text-muted-foreground">
+                {newsStats.neutral}
+              </div>
+              <div className="text-muted-foreground text-sm">Neutral</div>
             </div>
           </div>
         </div>
       </Card>
 
       {/* Filter Controls */}
-      <Card className="bg-card border-border">
+      <Card className="border-border bg-card">
         <div className="p-4">
-          <h4 className="text-md font-medium text-foreground mb-3">Filter Options</h4>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <h4 className="mb-3 font-medium text-foreground text-md">
+            Filter Options
+          </h4>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
             {/* Impact Filter */}
             <div>
-              <label className="block text-sm font-medium text-foreground mb-1">Impact</label>
+              <label className="mb-1 block font-medium text-foreground text-sm">
+                Impact
+              </label>
               <select
+                className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                onChange={(e) =>
+                  setFilterOptions((prev) => ({
+                    ...prev,
+                    impact: e.target.value as any,
+                  }))
+                }
                 value={filterOptions.impact}
-                onChange={(e) => setFilterOptions(prev => ({ ...prev, impact: e.target.value as any }))}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
               >
                 <option value="all">All Impact</option>
                 <option value="positive">Positive</option>
@@ -162,11 +214,18 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
 
             {/* Timeframe Filter */}
             <div>
-              <label className="block text-sm font-medium text-foreground mb-1">Timeframe</label>
+              <label className="mb-1 block font-medium text-foreground text-sm">
+                Timeframe
+              </label>
               <select
+                className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                onChange={(e) =>
+                  setFilterOptions((prev) => ({
+                    ...prev,
+                    timeframe: e.target.value as any,
+                  }))
+                }
                 value={filterOptions.timeframe}
-                onChange={(e) => setFilterOptions(prev => ({ ...prev, timeframe: e.target.value as any }))}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
               >
                 <option value="all">All Time</option>
                 <option value="today">Today</option>
@@ -177,11 +236,18 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
 
             {/* Sort By */}
             <div>
-              <label className="block text-sm font-medium text-foreground mb-1">Sort By</label>
+              <label className="mb-1 block font-medium text-foreground text-sm">
+                Sort By
+              </label>
               <select
+                className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                onChange={(e) =>
+                  setFilterOptions((prev) => ({
+                    ...prev,
+                    sortBy: e.target.value as any,
+                  }))
+                }
                 value={filterOptions.sortBy}
-                onChange={(e) => setFilterOptions(prev => ({ ...prev, sortBy: e.target.value as any }))}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
               >
                 <option value="timestamp">Time</option>
                 <option value="relevance">Relevance</option>
@@ -191,11 +257,18 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
 
             {/* Sort Order */}
             <div>
-              <label className="block text-sm font-medium text-foreground mb-1">Order</label>
+              <label className="mb-1 block font-medium text-foreground text-sm">
+                Order
+              </label>
               <select
+                className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                onChange={(e) =>
+                  setFilterOptions((prev) => ({
+                    ...prev,
+                    sortOrder: e.target.value as any,
+                  }))
+                }
                 value={filterOptions.sortOrder}
-                onChange={(e) => setFilterOptions(prev => ({ ...prev, sortOrder: e.target.value as any }))}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
               >
                 <option value="desc">Newest First</option>
                 <option value="asc">Oldest First</option>
@@ -208,46 +281,61 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
       {/* News Items */}
       <div className="space-y-4">
         {filteredNews.map((newsItem) => (
-          <Card key={newsItem.id} className="bg-card border-border hover:shadow-md transition-shadow">
+          <Card
+            className="border-border bg-card transition-shadow hover:shadow-md"
+            key={newsItem.id}
+          >
             <div className="p-4">
               {/* Header with impact and timestamp */}
-              <div className="flex items-center justify-between mb-3">
+              <div className="mb-3 flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <Badge className={getImpactColor(newsItem.impact)}>
-                    <span className="mr-1">{getImpactIcon(newsItem.impact)}</span>
-                    {newsItem.impact.charAt(0).toUpperCase() + newsItem.impact.slice(1)}
+                    <span className="mr-1">
+                      {getImpactIcon(newsItem.impact)}
+                    </span>
+                    {newsItem.impact.charAt(0).toUpperCase() +
+                      newsItem.impact.slice(1)}
                   </Badge>
                   <div className="flex gap-1">
                     {newsItem.relatedSymbols.map((symbol) => (
-                      <Badge key={symbol} variant="outline" className="text-xs border-border">
+                      <Badge
+                        className="border-border text-xs"
+                        key={symbol}
+                        variant="outline"
+                      >
                         {symbol}
                       </Badge>
                     ))}
                   </div>
                 </div>
-                <div className="text-xs text-muted-foreground">
+                <div className="text-muted-foreground text-xs">
                   {formatTimestamp(newsItem.timestamp)}
                 </div>
               </div>
 
               {/* Headline */}
-              <h4 className="text-lg font-semibold text-foreground mb-2 leading-tight">
+              <h4 className="mb-2 font-semibold text-foreground text-lg leading-tight">
                 {newsItem.headline}
               </h4>
 
               {/* Summary */}
-              <p className="text-muted-foreground text-sm mb-3 leading-relaxed">
+              <p className="mb-3 text-muted-foreground text-sm leading-relaxed">
                 {newsItem.summary}
               </p>
 
               {/* Footer with source */}
-              <div className="flex items-center justify-between text-xs text-muted-foreground">
-                <span>Source: {newsItem.source}</span>
+              <div className="flex items-center justify-between text-muted-foreground text-xs">
+                <span>
+                  Source: {newsItem.source}
+                  {getPortfolioNames(newsItem).length > 0 && (
+                    <> · Held in {getPortfolioNames(newsItem).join(', ')}</>
+                  )}
+                </span>
                 <a
+                  className="text-primary hover:underline"
                   href={newsItem.url}
-                  target="_blank"
                   rel="noopener noreferrer"
-                  className="text-primary hover:underline"
+                  target="_blank"
                 >
                   Read more →
                 </a>
@@ -259,12 +347,14 @@ export default function NewsDisplay({ portfolio, className = '' }: NewsDisplayPr
 
       {/* Load More or Pagination could go here in a real implementation */}
       {filteredNews.length > 0 && (
-        <div className="text-center py-4">
-          <p className="text-sm text-muted-foreground">
-            Showing {filteredNews.length} news item{filteredNews.length !== 1 ? 's' : ''} for your portfolio
+        <div className="py-4 text-center">
+          <p className="text-muted-foreground text-sm">
+            Showing {filteredNews.length} news item
+            {filteredNews.length !== 1 ? 's' : ''} for{' '}
+            {portfolioName ?? 'your portfolio'}
           </p>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,17 +1,293 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DollarSign,
+  Pencil,
+  Radio,
+  RefreshCw,
+  TrendingDown,
+  TrendingUp,
+  Wallet,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AddPositionForm } from '@/components/AddPositionForm';
+import { SymbolCombobox } from '@/components/SymbolCombobox';
 import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MarketStatus } from '@/components/ui/financial';
+import { Input } from '@/components/ui/input';
+import type { SymbolInfo } from '@/data/symbols';
+import { useMarketSession } from '@/hooks/use-market-session';
+import { useQuoteStream } from '@/hooks/use-quote-stream';
 import {
-  type PortfolioPosition,
+  applyQuotesToPortfolio,
+  clearStockPriceCache,
+  enrichPortfolioWithPrices,
+  fetchFxRates,
+  type StockPrice,
+} from '@/lib/api';
+import {
+  ASSET_TYPE_LABELS,
+  getPositionAssetType,
+  getSecurityAssetType,
+  isAlwaysTrading,
+  isCashPosition,
+  QUANTITY_LABELS,
+} from '@/lib/assets';
+import { isCashSymbol, setCashYield, valueCashPosition } from '@/lib/cash';
+import {
+  convertAmount,
+  DEFAULT_BASE_CURRENCY,
+  type FxRates,
+  getFxRate,
+  getPositionCurrency,
+  SUPPORTED_CURRENCIES,
+} from '@/lib/fx';
+import {
+  createTransaction,
+  interestTransactions,
+  recordTransactions,
+  renameLedgerSymbol,
+} from '@/lib/ledger';
+import {
+  calculatePortfolioDailyChange,
+  calculatePortfolioUnrealizedGain,
+  calculatePortfolioValue,
+  calculateUnrealizedGain,
+  getActivePortfolioId,
+  loadBaseCurrency,
   loadPortfolio,
+  type PortfolioPosition,
+  replacePositionSymbol,
+  saveBaseCurrency,
   savePortfolio,
-  calculatePortfolioValue,
-  calculatePortfolioDailyChange,
 } from '@/lib/storage';
-import { enrichPortfolioWithPrices, clearStockPriceCache } from '@/lib/api';
-import { TrendingUp, TrendingDown, RefreshCw, DollarSign } from 'lucide-react';
+import type { MarketSession, QuoteBasis } from '@/lib/tradingCalendar';
+import {
+  formatCurrency,
+  formatPrice,
+  formatQuantity,
+  getToday,
+} from '@/lib/utils';
+
+const priceLabels: Record<QuoteBasis, string> = {
+  live: 'Current Price',
+  close: 'Closing Price',
+  previousClose: 'Previous Close',
+};
+
+const formatPercent = (percentString: string) => {
+  // Remove the % sign and convert to number for formatting
+  const percent = Number.parseFloat(percentString.replace('%', ''));
+  return formatSignedPercent(percent);
+};
+
+const formatSignedPercent = (percent: number) => {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+};
+
+// Purchase dates are calendar dates, not instants
+const formatAcquiredAt = (date: string) => {
+  return new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+};
+
+// Crypto always trades; other prices follow the exchange session
+const getPriceLabel = (
+  position: PortfolioPosition,
+  session: MarketSession | null
+): string => {
+  if (isAlwaysTrading(position)) {
+    return priceLabels.live;
+  }
+  return session ? priceLabels[session.quoteBasis] : 'Price';
+};
+
+// "Cost $1,200.00 • Held since 3/1/2024 • +8.00%/yr", leaving out what is
+// not known
+const describeCostBasis = (
+  position: PortfolioPosition,
+  currency: string,
+  annualizedPercent: number | undefined
+): string | null => {
+  const parts: string[] = [];
+  if (position.costBasis !== undefined) {
+    parts.push(`Cost ${formatCurrency(position.costBasis, currency)}`);
+  }
+  if (position.acquiredAt) {
+    parts.push(`Held since ${formatAcquiredAt(position.acquiredAt)}`);
+  }
+  if (parts.length === 0) {
+    return null;
+  }
+  if (annualizedPercent !== undefined) {
+    parts.push(`${formatSignedPercent(annualizedPercent)}/yr`);
+  }
+  return parts.join(' • ');
+};
+
+interface GainRowProps {
+  label: string;
+  amount: number;
+  currency: string;
+  /** Shown in brackets after the amount */
+  detail?: string;
+}
+
+function GainRow({ label, amount, currency, detail }: GainRowProps) {
+  return (
+    <div className="mt-1 flex items-center justify-between">
+      <p className="text-muted-foreground text-xs">{label}</p>
+      <p
+        className={`font-semibold text-sm ${
+          amount >= 0 ? 'text-accent' : 'text-destructive'
+        }`}
+      >
+        {amount >= 0 ? '+' : ''}
+        {formatCurrency(amount, currency)}
+        {detail && ` (${detail})`}
+      </p>
+    </div>
+  );
+}
+
+interface PositionCardProps {
+  position: PortfolioPosition;
+  baseCurrency: string;
+  rates: FxRates;
+  marketSession: MarketSession | null;
+  readOnly: boolean;
+  onCorrectSymbol: (symbol: SymbolInfo) => void;
+}
+
+function PositionCard({
+  position,
+  baseCurrency,
+  rates,
+  marketSession,
+  readOnly,
+  onCorrectSymbol,
+}: PositionCardProps) {
+  const currency = getPositionCurrency(position);
+  const assetType = getPositionAssetType(position);
+  const baseValue =
+    position.totalValue && currency !== baseCurrency
+      ? convertAmount(position.totalValue, currency, rates)
+      : null;
+  const unrealizedGain = calculateUnrealizedGain(position);
+  const costSummary = describeCostBasis(
+    position,
+    currency,
+    unrealizedGain?.annualizedPercent
+  );
+
+  return (
+    <Card className="relative">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-1">
+              <CardTitle className="font-bold text-lg">
+                {position.symbol}
+              </CardTitle>
+              {!readOnly && (
+                <SymbolCombobox
+                  onSelect={(symbol) => onCorrectSymbol(symbol)}
+                  value={position.symbol}
+                >
+                  <button
+                    className="rounded p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                    title="Correct symbol"
+                    type="button"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                </SymbolCombobox>
+              )}
+            </div>
+            <p className="line-clamp-2 text-muted-foreground text-sm">
+              {position.companyName}
+            </p>
+            <Badge className="mt-1 text-xs" variant="outline">
+              {ASSET_TYPE_LABELS[assetType]}
+            </Badge>
+          </div>
+          {position.currentPrice && position.dailyChange !== undefined && (
+            <Badge
+              className="flex items-center gap-1"
+              variant={position.dailyChange >= 0 ? 'default' : 'destructive'}
+            >
+              {position.dailyChange >= 0 ? (
+                <TrendingUp className="h-3 w-3" />
+              ) : (
+                <TrendingDown className="h-3 w-3" />
+              )}
+              {position.dailyChangePercent &&
+                formatPercent(position.dailyChangePercent)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-muted-foreground text-xs">
+              {QUANTITY_LABELS[assetType]}
+            </p>
+            <p className="font-semibold">{formatQuantity(position.shares)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-xs">
+              {getPriceLabel(position, marketSession)}
+            </p>
+            <p className="font-semibold">
+              {position.currentPrice ? (
+                formatPrice(position.currentPrice, currency)
+              ) : (
+                <span className="text-muted-foreground">Loading...</span>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="border-t pt-2">
+          <div className="flex items-center justify-between">
+            <p className="text-muted-foreground text-xs">Total Value</p>
+            <p className="font-bold text-lg">
+              {position.totalValue ? (
+                formatCurrency(position.totalValue, currency)
+              ) : (
+                <span className="text-muted-foreground">--</span>
+              )}
+            </p>
+          </div>
+          {baseValue !== null && (
+            <p className="text-right text-muted-foreground text-xs">
+              ≈ {formatCurrency(baseValue, baseCurrency)}
+            </p>
+          )}
+          {position.currentPrice && position.dailyChange !== undefined && (
+            <GainRow
+              amount={position.dailyChange * position.shares}
+              currency={currency}
+              label="Daily P&L"
+            />
+          )}
+          {unrealizedGain && (
+            <GainRow
+              amount={unrealizedGain.gain}
+              currency={currency}
+              detail={formatSignedPercent(unrealizedGain.returnPercent)}
+              label="Unrealized P&L"
+            />
+          )}
+          {costSummary && (
+            <p className="mt-1 text-muted-foreground text-xs">{costSummary}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 /**
  * PortfolioDisplay component shows the user's portfolio with real-time stock prices
@@ -19,53 +295,288 @@ import { TrendingUp, TrendingDown, RefreshCw, DollarSign } from 'lucide-react';
  * - Real-time stock prices from Alpha Vantage API
  * - Daily change indicators with color coding
  * - Portfolio summary with total value and daily P&L
+ * - Unrealized gain/loss and holding-period return from each cost basis
+ * - Multi-currency positions converted into a selectable base currency
+ * - Stocks, ETFs, mutual funds and crypto with fractional quantities
+ * - Cash and money-market lines with an optional yield
  * - Responsive card layout for position details
  * - Manual refresh capability
+ * - Add or correct positions by exact ticker
+ * - Read-only view of several portfolios merged together
  * - Loading states and error handling
  */
 interface PortfolioDisplayProps {
   portfolio?: PortfolioPosition[];
+  onPortfolioChange?: (positions: PortfolioPosition[]) => void;
+  /** Show the positions without saving them or offering edits */
+  readOnly?: boolean;
 }
 
-export function PortfolioDisplay({ portfolio: initialPortfolio }: PortfolioDisplayProps) {
-  const [portfolio, setPortfolio] = useState<PortfolioPosition[]>(initialPortfolio || []);
+export function PortfolioDisplay({
+  portfolio: initialPortfolio,
+  onPortfolioChange,
+  readOnly = false,
+}: PortfolioDisplayProps) {
+  const [portfolio, setPortfolio] = useState<PortfolioPosition[]>(
+    initialPortfolio || []
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [retryAfter, setRetryAfter] = useState(0);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRates | null>(null);
+  const [isLoadingFx, setIsLoadingFx] = useState(false);
+  // Quotes can arrive after the user has switched to another portfolio
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const fetchStockPrices = useCallback(
+    async (positions: PortfolioPosition[]) => {
+      if (positions.length === 0) {
+        return;
+      }
+
+      // Save to the portfolio the prices were fetched for, even if another
+      // one is active by the time they arrive
+      const portfolioId = getActivePortfolioId();
+      setIsLoading(true);
+      setError(null);
+      // Cleared so a repeat of the same wait still schedules another retry
+      setRetryAfter(0);
+
+      try {
+        const updatedPortfolio = await enrichPortfolioWithPrices(positions);
+        if (!mounted.current) {
+          return;
+        }
+        setPortfolio(updatedPortfolio);
+        if (!readOnly) {
+          savePortfolio(updatedPortfolio, portfolioId);
+        }
+        setLastUpdated(new Date());
+        setRetryAfter(
+          Math.max(
+            0,
+            ...updatedPortfolio.map((position) => position.retryAfter ?? 0)
+          )
+        );
+      } catch (err) {
+        console.error('Error fetching stock prices:', err);
+        if (mounted.current) {
+          setError('Failed to update stock prices. Please try again.');
+        }
+      } finally {
+        if (mounted.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [readOnly]
+  );
 
   // Load portfolio from storage or props
   useEffect(() => {
-    const portfolioToUse = initialPortfolio && initialPortfolio.length > 0 
-      ? initialPortfolio 
-      : loadPortfolio();
-    
+    const portfolioToUse =
+      initialPortfolio && (initialPortfolio.length > 0 || readOnly)
+        ? initialPortfolio
+        : loadPortfolio();
+
     setPortfolio(portfolioToUse);
-    
+
     // If we have positions, fetch prices immediately
     if (portfolioToUse.length > 0) {
       fetchStockPrices(portfolioToUse);
     }
-  }, [initialPortfolio]);
-
-  const fetchStockPrices = useCallback(async (positions: PortfolioPosition[]) => {
-    if (positions.length === 0) return;
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const updatedPortfolio = await enrichPortfolioWithPrices(positions);
-      setPortfolio(updatedPortfolio);
-      savePortfolio(updatedPortfolio);
-      setLastUpdated(new Date());
-    } catch (err) {
-      console.error('Error fetching stock prices:', err);
-      setError('Failed to update stock prices. Please try again.');
-    } finally {
-      setIsLoading(false);
+  }, [initialPortfolio, readOnly, fetchStockPrices]);
+
+  useEffect(() => {
+    setBaseCurrency(loadBaseCurrency());
+  }, []);
+
+  // Refetch rates only when the base or the set of currencies held changes
+  const currencyKey = Array.from(new Set(portfolio.map(getPositionCurrency)))
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    const currencies = currencyKey
+      .split(',')
+      .filter((currency) => currency && currency !== baseCurrency);
+    if (currencies.length === 0) {
+      setFxRates({ base: baseCurrency, rates: {} });
+      return;
     }
+
+    let cancelled = false;
+    setIsLoadingFx(true);
+    fetchFxRates(baseCurrency, currencies)
+      .then((fetched) => {
+        if (!cancelled) {
+          setFxRates(fetched);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setFxRates({ base: baseCurrency, rates: {}, error: err.message });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingFx(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseCurrency, currencyKey]);
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    saveBaseCurrency(currency);
+    setBaseCurrency(currency);
+  };
+
+  // Live ticks replace the portfolio, so the retry reads the latest positions
+  // from a ref instead of restarting its timer on every tick
+  const latestPortfolio = useRef(portfolio);
+  latestPortfolio.current = portfolio;
+
+  // Retry rate-limited symbols once the provider's quota allows
+  useEffect(() => {
+    if (retryAfter <= 0) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => fetchStockPrices(latestPortfolio.current),
+      retryAfter * 1000
+    );
+    return () => clearTimeout(timer);
+  }, [retryAfter, fetchStockPrices]);
+
+  // Merge live ticks so totals update without a manual refresh
+  const handleLiveQuotes = useCallback((prices: StockPrice[]) => {
+    setPortfolio((current) =>
+      applyQuotesToPortfolio(
+        current,
+        prices.filter((price) => !price.error)
+      )
+    );
+    setLastUpdated(new Date());
   }, []);
 
+  // Cash is valued locally and shown in its own section
+  const holdings = portfolio.filter((position) => !isCashPosition(position));
+  const cashPositions = portfolio.filter(isCashPosition);
+
+  // No point streaming overnight, on weekends or on holidays unless some
+  // holding (crypto) trades around the clock
+  const marketSession = useMarketSession();
+  const isLive = useQuoteStream(
+    holdings.map((position) => position.symbol),
+    handleLiveQuotes,
+    (marketSession !== null && marketSession.status !== 'closed') ||
+      portfolio.some(isAlwaysTrading)
+  );
+
+  // Persist edited positions; a parent that passes them back in triggers the
+  // price refresh through the effect above
+  const updatePositions = (positions: PortfolioPosition[]) => {
+    savePortfolio(positions);
+    setPortfolio(positions);
+    if (onPortfolioChange) {
+      onPortfolioChange(positions);
+    } else {
+      fetchStockPrices(positions);
+    }
+  };
+
+  // Recorded as a purchase today at an unknown price
+  const handleAddPosition = (symbol: SymbolInfo, shares: number) => {
+    const { positions } = recordTransactions(portfolio, [
+      createTransaction({
+        type: 'buy',
+        date: getToday(),
+        symbol: symbol.symbol,
+        companyName: symbol.name,
+        assetType: getSecurityAssetType(symbol.type),
+        quantity: shares,
+      }),
+    ]);
+    updatePositions(positions);
+  };
+
+  const handleCorrectSymbol = (
+    position: PortfolioPosition,
+    symbol: SymbolInfo
+  ) => {
+    renameLedgerSymbol(portfolio, position.symbol, {
+      symbol: symbol.symbol,
+      companyName: symbol.name,
+      assetType: getSecurityAssetType(symbol.type),
+    });
+    updatePositions(
+      replacePositionSymbol(portfolio, position.symbol, {
+        ...symbol,
+        assetType: getSecurityAssetType(symbol.type),
+      })
+    );
+  };
+
+  // Blank clears the yield; out-of-range input is ignored
+  const handleYieldChange = (position: PortfolioPosition, value: string) => {
+    const yieldPercent = value.trim() === '' ? undefined : Number(value);
+    if (
+      yieldPercent !== undefined &&
+      !(
+        Number.isFinite(yieldPercent) &&
+        yieldPercent >= 0 &&
+        yieldPercent < 100
+      )
+    ) {
+      return;
+    }
+    if (yieldPercent === position.yieldPercent) {
+      return;
+    }
+
+    // Interest accrued at the old rate goes in the ledger, so replaying it
+    // keeps the balance
+    const updated = setCashYield(position, yieldPercent || undefined);
+    const interest = Number((updated.shares - position.shares).toFixed(2));
+    let positions = portfolio;
+    if (interest > 0) {
+      const result = recordTransactions(
+        portfolio,
+        interestTransactions(position, interest)
+      );
+      if (result.rejected.length > 0) {
+        setError(`Could not record interest: ${result.rejected[0].reason}`);
+        return;
+      }
+      positions = result.positions;
+    }
+
+    updatePositions(
+      positions.map((p) =>
+        p.symbol === position.symbol
+          ? valueCashPosition({
+              ...p,
+              yieldPercent: updated.yieldPercent,
+              yieldSince: updated.yieldSince,
+            })
+          : p
+      )
+    );
+  };
+
   const refreshPrices = (skipCache = false) => {
     if (skipCache) {
       clearStockPriceCache();
@@ -73,35 +584,66 @@ export function PortfolioDisplay({ portfolio: initialPortfolio }: PortfolioDispl
     fetchStockPrices(portfolio);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
-
-  const formatPercent = (percentString: string) => {
-    // Remove the % sign and convert to number for formatting
-    const percent = parseFloat(percentString.replace('%', ''));
-    return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+  const formatSource = (source: PortfolioPosition['source']) => {
+    switch (source) {
+      case 'alphavantage':
+        return 'Alpha Vantage';
+      case 'finnhub':
+        return 'Finnhub';
+      case 'coingecko':
+        return 'CoinGecko';
+      case 'demo':
+        return 'Demo';
+      default:
+        return 'Cache';
+    }
   };
 
   if (portfolio.length === 0) {
     return (
       <Card className="w-full">
         <CardContent className="flex flex-col items-center justify-center py-12">
-          <DollarSign className="h-12 w-12 text-muted-foreground mb-4" />
-          <h3 className="text-lg font-semibold mb-2">No Portfolio Found</h3>
-          <p className="text-muted-foreground text-center">
-            Add some stocks to your portfolio to see them displayed here with real-time prices.
+          <DollarSign className="mb-4 h-12 w-12 text-muted-foreground" />
+          <h3 className="mb-2 font-semibold text-lg">No Portfolio Found</h3>
+          <p className="text-center text-muted-foreground">
+            Add some stocks to your portfolio to see them displayed here with
+            real-time prices.
           </p>
+          {!readOnly && (
+            <div className="mt-6">
+              <AddPositionForm onAdd={handleAddPosition} />
+            </div>
+          )}
         </CardContent>
       </Card>
     );
   }
 
-  const totalValue = calculatePortfolioValue(portfolio);
-  const { totalChange, totalChangePercent } = calculatePortfolioDailyChange(portfolio);
+  // The stalest quote determines how fresh the totals really are
+  const oldestQuoteTime = portfolio
+    .map((position) => position.asOf)
+    .filter((asOf): asOf is string => Boolean(asOf))
+    .sort()[0];
+  const quoteSources = new Set(
+    portfolio.map((position) => position.source).filter(Boolean)
+  );
+
+  // Until rates for the current base arrive, only base-currency positions count
+  const rates: FxRates =
+    fxRates && fxRates.base === baseCurrency
+      ? fxRates
+      : { base: baseCurrency, rates: {} };
+  const totalValue = calculatePortfolioValue(portfolio, rates);
+  const { totalChange, totalChangePercent, fxChange } =
+    calculatePortfolioDailyChange(portfolio, rates);
+  const unrealized = calculatePortfolioUnrealizedGain(portfolio, rates);
+  const unconvertedCurrencies = Array.from(
+    new Set(
+      portfolio
+        .map(getPositionCurrency)
+        .filter((currency) => !getFxRate(rates, currency))
+    )
+  );
 
   return (
     <div className="space-y-6">
@@ -109,72 +651,182 @@ export function PortfolioDisplay({ portfolio: initialPortfolio }: PortfolioDispl
       <Card>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
-            <CardTitle className="text-2xl font-bold">Portfolio Summary</CardTitle>
+            <div className="flex items-center gap-2">
+              <CardTitle className="font-bold text-2xl">
+                Portfolio Summary
+              </CardTitle>
+              {marketSession && <MarketStatus session={marketSession} />}
+              {isLive && (
+                <Badge className="flex items-center gap-1" variant="outline">
+                  <Radio className="h-3 w-3" />
+                  Live
+                </Badge>
+              )}
+            </div>
             <div className="flex gap-2">
               <button
-                onClick={() => refreshPrices(false)}
+                className="rounded-lg bg-primary p-2 text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
                 disabled={isLoading}
-                className="p-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                onClick={() => refreshPrices(false)}
                 title="Refresh (use cache if available)"
+                type="button"
               >
-                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                <RefreshCw
+                  className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`}
+                />
               </button>
               <button
-                onClick={() => refreshPrices(true)}
+                className="rounded-lg bg-secondary px-3 py-2 text-secondary-foreground text-xs transition-colors hover:bg-secondary/90 disabled:opacity-50"
                 disabled={isLoading}
-                className="px-3 py-2 text-xs rounded-lg bg-secondary text-secondary-foreground hover:bg-secondary/90 disabled:opacity-50 transition-colors"
+                onClick={() => refreshPrices(true)}
                 title="Force refresh (skip cache)"
+                type="button"
               >
                 Force
               </button>
             </div>
           </div>
           {lastUpdated && (
-            <p className="text-sm text-muted-foreground">
+            <p className="text-muted-foreground text-sm">
               Last updated: {lastUpdated.toLocaleTimeString()}
-              {portfolio.length > 0 && portfolio[0].source && (
+              {oldestQuoteTime && (
                 <span className="ml-2">
-                  • Source: {portfolio[0].source === 'alphavantage' ? 'Alpha Vantage' : 
-                           portfolio[0].source === 'finnhub' ? 'Finnhub' :
-                           portfolio[0].source === 'demo' ? 'Demo' : 'Cache'}
+                  • Prices as of{' '}
+                  {new Date(oldestQuoteTime).toLocaleTimeString()}
+                </span>
+              )}
+              {quoteSources.size > 0 && (
+                <span className="ml-2">
+                  • Source:{' '}
+                  {Array.from(quoteSources).map(formatSource).join(', ')}
                 </span>
               )}
             </p>
           )}
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div
+            className={`grid grid-cols-1 gap-4 ${
+              unrealized.positionCount > 0 ? 'md:grid-cols-3' : 'md:grid-cols-2'
+            }`}
+          >
             <div>
-              <p className="text-sm text-muted-foreground">Total Value</p>
-              <p className="text-3xl font-bold">{formatCurrency(totalValue)}</p>
+              <div className="flex items-center gap-2">
+                <p className="text-muted-foreground text-sm">Total Value</p>
+                <select
+                  className="rounded-md border border-border bg-background px-2 py-0.5 text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                  onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                  title="Base currency"
+                  value={baseCurrency}
+                >
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="font-bold text-3xl">
+                {formatCurrency(totalValue, baseCurrency)}
+              </p>
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Daily Change</p>
+              <p className="text-muted-foreground text-sm">Daily Change</p>
               <div className="flex items-center gap-2">
                 <span
-                  className={`text-2xl font-bold ${
+                  className={`font-bold text-2xl ${
                     totalChange >= 0 ? 'text-accent' : 'text-destructive'
                   }`}
                 >
-                  {formatCurrency(totalChange)}
+                  {formatCurrency(totalChange, baseCurrency)}
                 </span>
                 <Badge
-                  variant={totalChange >= 0 ? 'default' : 'destructive'}
                   className="flex items-center gap-1"
+                  variant={totalChange >= 0 ? 'default' : 'destructive'}
                 >
                   {totalChange >= 0 ? (
                     <TrendingUp className="h-3 w-3" />
                   ) : (
                     <TrendingDown className="h-3 w-3" />
                   )}
-                  {totalChangePercent >= 0 ? '+' : ''}{totalChangePercent.toFixed(2)}%
+                  {totalChangePercent >= 0 ? '+' : ''}
+                  {totalChangePercent.toFixed(2)}%
                 </Badge>
               </div>
+              {fxChange !== 0 && (
+                <p className="mt-1 text-muted-foreground text-xs">
+                  incl. {fxChange >= 0 ? '+' : ''}
+                  {formatCurrency(fxChange, baseCurrency)} from exchange rates
+                </p>
+              )}
             </div>
+            {unrealized.positionCount > 0 && (
+              <div>
+                <p className="text-muted-foreground text-sm">Unrealized Gain</p>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`font-bold text-2xl ${
+                      unrealized.gain >= 0 ? 'text-accent' : 'text-destructive'
+                    }`}
+                  >
+                    {formatCurrency(unrealized.gain, baseCurrency)}
+                  </span>
+                  <Badge
+                    className="flex items-center gap-1"
+                    variant={unrealized.gain >= 0 ? 'default' : 'destructive'}
+                  >
+                    {unrealized.gain >= 0 ? (
+                      <TrendingUp className="h-3 w-3" />
+                    ) : (
+                      <TrendingDown className="h-3 w-3" />
+                    )}
+                    {formatSignedPercent(unrealized.returnPercent)}
+                  </Badge>
+                </div>
+                <p className="mt-1 text-muted-foreground text-xs">
+                  On {formatCurrency(unrealized.costBasis, baseCurrency)}{' '}
+                  invested
+                  {unrealized.positionCount < holdings.length &&
+                    ` • ${unrealized.positionCount} of ${holdings.length} holdings have a cost basis`}
+                </p>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Rate Limit Notice */}
+      {retryAfter > 0 && (
+        <Card className="border-border bg-muted/50">
+          <CardContent className="py-4">
+            <p className="text-muted-foreground text-sm">
+              Price provider rate limit reached for{' '}
+              {portfolio
+                .filter((position) => position.retryAfter)
+                .map((position) => position.symbol)
+                .join(', ')}
+              . Retrying in {retryAfter}s.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Missing Exchange Rates */}
+      {!isLoadingFx && unconvertedCurrencies.length > 0 && (
+        <Card className="border-border bg-muted/50">
+          <CardContent className="py-4">
+            <p className="text-muted-foreground text-sm">
+              No exchange rate for {unconvertedCurrencies.join(', ')} to{' '}
+              {baseCurrency}. Positions in{' '}
+              {unconvertedCurrencies.length === 1
+                ? 'this currency'
+                : 'these currencies'}{' '}
+              are left out of the totals.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Error Message */}
       {error && (
         <Card className="border-destructive/50 bg-destructive/5">
@@ -184,80 +836,118 @@ export function PortfolioDisplay({ portfolio: initialPortfolio }: PortfolioDispl
         </Card>
       )}
 
+      {/* Add Position */}
+      {!readOnly && (
+        <Card>
+          <CardContent className="py-4">
+            <AddPositionForm onAdd={handleAddPosition} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Position Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {portfolio.map((position) => (
-          <Card key={position.symbol} className="relative">
-            <CardHeader className="pb-3">
-              <div className="flex items-start justify-between">
-                <div>
-                  <CardTitle className="text-lg font-bold">{position.symbol}</CardTitle>
-                  <p className="text-sm text-muted-foreground line-clamp-2">
-                    {position.companyName}
-                  </p>
-                </div>
-                {position.currentPrice && position.dailyChange !== undefined && (
-                  <Badge
-                    variant={position.dailyChange >= 0 ? 'default' : 'destructive'}
-                    className="flex items-center gap-1"
-                  >
-                    {position.dailyChange >= 0 ? (
-                      <TrendingUp className="h-3 w-3" />
-                    ) : (
-                      <TrendingDown className="h-3 w-3" />
-                    )}
-                    {position.dailyChangePercent && formatPercent(position.dailyChangePercent)}
-                  </Badge>
-                )}
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <p className="text-xs text-muted-foreground">Shares</p>
-                  <p className="font-semibold">{position.shares.toLocaleString()}</p>
-                </div>
-                <div>
-                  <p className="text-xs text-muted-foreground">Current Price</p>
-                  <p className="font-semibold">
-                    {position.currentPrice ? formatCurrency(position.currentPrice) : (
-                      <span className="text-muted-foreground">Loading...</span>
-                    )}
-                  </p>
-                </div>
-              </div>
-              
-              <div className="pt-2 border-t">
-                <div className="flex items-center justify-between">
-                  <p className="text-xs text-muted-foreground">Total Value</p>
-                  <p className="font-bold text-lg">
-                    {position.totalValue ? formatCurrency(position.totalValue) : (
-                      <span className="text-muted-foreground">--</span>
-                    )}
-                  </p>
-                </div>
-                {position.currentPrice && position.dailyChange !== undefined && (
-                  <div className="flex items-center justify-between mt-1">
-                    <p className="text-xs text-muted-foreground">Daily P&L</p>
-                    <p
-                      className={`font-semibold text-sm ${
-                        position.dailyChange >= 0 ? 'text-accent' : 'text-destructive'
-                      }`}
-                    >
-                      {position.dailyChange >= 0 ? '+' : ''}
-                      {formatCurrency(position.dailyChange * position.shares)}
-                    </p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {holdings.map((position) => (
+          <PositionCard
+            baseCurrency={baseCurrency}
+            key={position.symbol}
+            marketSession={marketSession}
+            onCorrectSymbol={(symbol) => handleCorrectSymbol(position, symbol)}
+            position={position}
+            rates={rates}
+            readOnly={readOnly}
+          />
         ))}
       </div>
 
+      {/* Cash & Money Market */}
+      {cashPositions.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+              <CardTitle className="font-bold text-lg">
+                Cash & Money Market
+              </CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {cashPositions.map((position) => {
+              const currency = getPositionCurrency(position);
+              const value = position.totalValue ?? position.shares;
+              const baseValue =
+                currency !== baseCurrency
+                  ? convertAmount(value, currency, rates)
+                  : null;
+
+              return (
+                <div
+                  className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+                  key={position.symbol}
+                >
+                  <div>
+                    <p className="font-semibold">{position.companyName}</p>
+                    <p className="text-muted-foreground text-xs">
+                      {isCashSymbol(position.symbol)
+                        ? currency
+                        : position.symbol}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <label
+                      className="flex items-center gap-1 text-muted-foreground text-xs"
+                      htmlFor={`yield-${position.symbol}`}
+                    >
+                      APY
+                      <Input
+                        aria-label={`Yield for ${position.companyName}`}
+                        className="h-8 w-20"
+                        defaultValue={position.yieldPercent ?? ''}
+                        disabled={readOnly}
+                        id={`yield-${position.symbol}`}
+                        key={position.yieldPercent ?? 'none'}
+                        min="0"
+                        onBlur={(e) =>
+                          handleYieldChange(position, e.target.value)
+                        }
+                        placeholder="0"
+                        step="any"
+                        type="number"
+                      />
+                      %
+                    </label>
+                    <div className="text-right">
+                      <p className="font-bold">
+                        {formatCurrency(value, currency)}
+                      </p>
+                      {baseValue !== null && (
+                        <p className="text-muted-foreground text-xs">
+                          ≈ {formatCurrency(baseValue, baseCurrency)}
+                        </p>
+                      )}
+                      {position.dailyChange !== undefined &&
+                        position.dailyChange > 0 && (
+                          <p className="text-accent text-xs">
+                            +
+                            {formatCurrency(
+                              position.dailyChange * position.shares,
+                              currency
+                            )}{' '}
+                            today
+                          </p>
+                        )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Loading Overlay */}
       {isLoading && (
-        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-50">
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
           <Card>
             <CardContent className="flex items-center gap-3 py-6">
               <RefreshCw className="h-5 w-5 animate-spin" />
@@ -268,4 +958,4 @@ export function PortfolioDisplay({ portfolio: initialPortfolio }: PortfolioDispl
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { editPortfolioText } from '@/lib/api';
+import { recordTransactions } from '@/lib/ledger';
+import type {
+  PortfolioChange,
+  PortfolioEditResult,
+} from '@/lib/portfolioEdits';
+import { type PortfolioPosition, savePortfolio } from '@/lib/storage';
+import { formatCurrency, formatQuantity } from '@/lib/utils';
+
+interface PortfolioEditorProps {
+  portfolio: PortfolioPosition[];
+  onApply: (positions: PortfolioPosition[]) => void;
+  onClose: () => void;
+  /** Discard the portfolio and describe it again from scratch */
+  onStartOver: () => void;
+}
+
+const CHANGE_STYLES: Record<PortfolioChange['type'], string> = {
+  add: 'text-green-600 dark:text-green-400',
+  update: 'text-foreground',
+  remove: 'text-destructive',
+};
+
+const describeCost = ({ costBasis, currency }: PortfolioPosition): string => {
+  return costBasis === undefined
+    ? ''
+    : `, cost ${formatCurrency(costBasis, currency)}`;
+};
+
+const describeChange = ({
+  type,
+  position,
+  previousShares,
+}: PortfolioChange): string => {
+  if (type === 'add') {
+    return `Add ${formatQuantity(position.shares)} × ${position.symbol}${describeCost(position)}`;
+  }
+  if (type === 'remove') {
+    return `Remove ${position.symbol} (${formatQuantity(previousShares)})`;
+  }
+  return `${position.symbol}: ${formatQuantity(previousShares)} → ${formatQuantity(position.shares)}${describeCost(position)}`;
+};
+
+/**
+ * Edit the saved portfolio with an instruction ("sold 20 AAPL, add 10
+ * NVDA"), previewing the changes before they are applied
+ */
+export function PortfolioEditor({
+  portfolio,
+  onApply,
+  onClose,
+  onStartOver,
+}: PortfolioEditorProps) {
+  const [instruction, setInstruction] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PortfolioEditResult | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!instruction.trim()) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      setResult(await editPortfolioText(instruction, portfolio));
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to update portfolio. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!result) {
+      return;
+    }
+
+    // The ledger can refuse a backdated sale of shares recorded later on
+    const { positions, rejected } = recordTransactions(
+      portfolio,
+      result.transactions
+    );
+    if (rejected.length > 0) {
+      setError(
+        `Could not apply: ${rejected
+          .map(
+            ({ transaction, reason }) =>
+              `${transaction.symbol} on ${transaction.date}, ${reason}`
+          )
+          .join('; ')}`
+      );
+      return;
+    }
+
+    savePortfolio(positions);
+    onApply(positions);
+    setInstruction('');
+    setResult(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Edit Portfolio</CardTitle>
+        <CardDescription>
+          Describe what changed and review the result before applying it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <Textarea
+            disabled={loading}
+            onChange={(e) => {
+              setInstruction(e.target.value);
+              setResult(null);
+            }}
+            placeholder="sold 20 AAPL, add 10 NVDA"
+            value={instruction}
+          />
+          {error && <p className="text-destructive text-sm">{error}</p>}
+          <Button disabled={loading || !instruction.trim()} type="submit">
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Working out changes...
+              </>
+            ) : (
+              'Preview Changes'
+            )}
+          </Button>
+        </form>
+
+        {result && (
+          <div className="space-y-3 rounded-md border border-border p-3 text-sm">
+            <p className="font-medium">
+              {result.changes.length === 0
+                ? 'No changes to apply'
+                : `${result.changes.length} ${result.changes.length === 1 ? 'change' : 'changes'}`}
+              {result.heuristic && ' (matched without AI)'}
+            </p>
+
+            {result.changes.length > 0 && (
+              <ul className="space-y-1">
+                {result.changes.map((change) => (
+                  <li
+                    className={CHANGE_STYLES[change.type]}
+                    key={change.position.symbol}
+                  >
+                    {describeChange(change)}
+                    <span className="text-muted-foreground">
+                      {' '}
+                      — "{change.sourceText}"
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {result.rejected.length > 0 && (
+              <ul className="space-y-1 text-muted-foreground">
+                {result.rejected.map((item) => (
+                  <li key={`${item.input}-${item.reason}`}>
+                    Skipped "{item.input}" — {item.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                disabled={result.changes.length === 0}
+                onClick={handleApply}
+                type="button"
+              >
+                Apply
+              </Button>
+              <Button
+                onClick={() => setResult(null)}
+                type="button"
+                variant="outline"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between border-t pt-4">
+          <Button onClick={onClose} type="button" variant="ghost">
+            Done
+          </Button>
+          <Button onClick={onStartOver} type="button" variant="ghost">
+            Start over
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
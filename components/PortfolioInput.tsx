@@ -2,6 +2,9 @@
 
 import { Loader2 } from 'lucide-react';
 import { useState } from 'react';
+import { AddPositionForm } from '@/components/AddPositionForm';
+import { CsvImport } from '@/components/CsvImport';
+import { StatementUpload } from '@/components/StatementUpload';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -11,8 +14,16 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
+import type { SymbolInfo } from '@/data/symbols';
 import { parsePortfolioText } from '@/lib/api';
+import { getSecurityAssetType } from '@/lib/assets';
+import { startLedger } from '@/lib/ledger';
+import type {
+  PortfolioParseResult,
+  RejectedPosition,
+} from '@/lib/portfolioSchema';
 import { type PortfolioPosition, savePortfolio } from '@/lib/storage';
+import { formatQuantity } from '@/lib/utils';
 
 interface PortfolioInputProps {
   onPortfolioParsed: (positions: PortfolioPosition[]) => void;
@@ -24,6 +35,47 @@ export default function PortfolioInput({
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<RejectedPosition[]>([]);
+  // Parsed holdings held back until the user has seen what was dropped, or
+  // confirmed holdings matched by rules rather than the AI model
+  const [pending, setPending] = useState<PortfolioPosition[] | null>(null);
+  const [heuristic, setHeuristic] = useState(false);
+
+  const acceptPositions = (positions: PortfolioPosition[]) => {
+    // Save to localStorage, starting their history from today
+    savePortfolio(positions);
+    startLedger(positions);
+
+    // Notify parent component
+    onPortfolioParsed(positions);
+
+    // Clear input
+    setInput('');
+    setPending(null);
+    setRejected([]);
+  };
+
+  // Hold back results with dropped or rule-matched holdings for review
+  const handleResult = (result: PortfolioParseResult) => {
+    setRejected(result.rejected);
+    setHeuristic(Boolean(result.heuristic));
+
+    if (result.positions.length === 0) {
+      setError(
+        result.rejected.length > 0
+          ? 'None of the holdings could be used. Please fix them and try again.'
+          : 'No valid positions found. Please try rephrasing your portfolio description.'
+      );
+      return;
+    }
+
+    if (result.rejected.length > 0 || result.heuristic) {
+      setPending(result.positions);
+      return;
+    }
+
+    acceptPositions(result.positions);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,25 +87,11 @@ export default function PortfolioInput({
 
     setLoading(true);
     setError(null);
+    setPending(null);
+    setRejected([]);
 
     try {
-      const positions = await parsePortfolioText(input.trim());
-
-      if (positions.length === 0) {
-        setError(
-          'No valid stock positions found. Please try rephrasing your portfolio description.'
-        );
-        return;
-      }
-
-      // Save to localStorage
-      savePortfolio(positions);
-
-      // Notify parent component
-      onPortfolioParsed(positions);
-
-      // Clear input
-      setInput('');
+      handleResult(await parsePortfolioText(input.trim()));
     } catch (err) {
       setError(
         err instanceof Error
@@ -65,6 +103,21 @@ export default function PortfolioInput({
     }
   };
 
+  // Skip parsing entirely when the user picks an exact ticker
+  const handleAddPosition = (symbol: SymbolInfo, shares: number) => {
+    const positions: PortfolioPosition[] = [
+      {
+        symbol: symbol.symbol,
+        shares,
+        companyName: symbol.name,
+        assetType: getSecurityAssetType(symbol.type),
+      },
+    ];
+    savePortfolio(positions);
+    startLedger(positions);
+    onPortfolioParsed(positions);
+  };
+
   return (
     <Card className="mx-auto w-full max-w-2xl">
       <CardHeader>
@@ -85,8 +138,52 @@ export default function PortfolioInput({
               value={input}
             />
             {error && <p className="text-destructive text-sm">{error}</p>}
+            {rejected.length > 0 && (
+              <div className="space-y-1 rounded-md border border-border bg-muted/50 p-3 text-sm">
+                <p className="font-medium">
+                  {rejected.length === 1
+                    ? '1 holding was dropped:'
+                    : `${rejected.length} holdings were dropped:`}
+                </p>
+                <ul className="space-y-1 text-muted-foreground">
+                  {rejected.map((item) => (
+                    <li key={`${item.input}-${item.reason}`}>
+                      "{item.input}" — {item.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
+          {pending && heuristic && (
+            <div className="space-y-1 rounded-md border border-border p-3 text-sm">
+              <p className="font-medium">
+                Matched without AI. Please check these before continuing:
+              </p>
+              <ul className="space-y-1 text-muted-foreground">
+                {pending.map((position) => (
+                  <li key={`${position.symbol}-${position.shares}`}>
+                    {formatQuantity(position.shares)} × {position.symbol} —{' '}
+                    {position.companyName}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {pending && (
+            <Button
+              className="w-full"
+              onClick={() => acceptPositions(pending)}
+              type="button"
+              variant="outline"
+            >
+              Continue with {pending.length}{' '}
+              {pending.length === 1 ? 'holding' : 'holdings'}
+            </Button>
+          )}
+
           <Button
             className="w-full"
             disabled={loading || !input.trim()}
@@ -103,10 +200,32 @@ export default function PortfolioInput({
           </Button>
         </form>
 
+        <div className="mt-6 space-y-2 border-t pt-6">
+          <p className="text-muted-foreground text-sm">
+            Or add a holding by ticker:
+          </p>
+          <AddPositionForm onAdd={handleAddPosition} />
+        </div>
+
+        <div className="mt-6 space-y-2 border-t pt-6">
+          <p className="text-muted-foreground text-sm">
+            Or import a CSV export from Fidelity, Schwab, Vanguard or
+            Interactive Brokers:
+          </p>
+          <CsvImport onImport={acceptPositions} />
+        </div>
+
+        <div className="mt-6 space-y-2 border-t pt-6">
+          <p className="text-muted-foreground text-sm">
+            Or upload a brokerage statement PDF:
+          </p>
+          <StatementUpload onImport={acceptPositions} />
+        </div>
+
         <div className="mt-6 text-center">
           <p className="text-muted-foreground text-sm">
-            ✨ <strong>Example:</strong> "I have 100 Apple shares, 50 Microsoft,
-            and 25 Tesla stocks"
+            ✨ <strong>Example:</strong> "I have 100 Apple shares, 12.5 shares
+            of VTI, some FXAIX and 0.5 BTC"
           </p>
         </div>
       </CardContent>
@@ -0,0 +1,189 @@
+'use client';
+
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ALL_PORTFOLIOS,
+  createPortfolio,
+  deletePortfolio,
+  type NamedPortfolio,
+  renamePortfolio,
+} from '@/lib/storage';
+
+interface PortfolioSwitcherProps {
+  portfolios: NamedPortfolio[];
+  /** Active portfolio, or ALL_PORTFOLIOS for every portfolio merged */
+  selectedId: string;
+  onSelect: (id: string) => void;
+  /** Called once a portfolio is created, renamed or deleted */
+  onChange: () => void;
+}
+
+type Mode = 'create' | 'rename' | 'delete';
+
+const SELECT_CLASS =
+  'h-9 rounded-md border border-border bg-background px-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Pick which portfolio is shown and edited (a taxable account, an IRA, an
+ * idea list), or all of them together, and create, rename or delete them
+ */
+export function PortfolioSwitcher({
+  portfolios,
+  selectedId,
+  onSelect,
+  onChange,
+}: PortfolioSwitcherProps) {
+  const [mode, setMode] = useState<Mode | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = portfolios.find((portfolio) => portfolio.id === selectedId);
+
+  const open = (next: Mode) => {
+    setMode(next);
+    setName(next === 'rename' && selected ? selected.name : '');
+    setError(null);
+  };
+
+  const close = () => {
+    setMode(null);
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result =
+      mode === 'rename' && selected
+        ? renamePortfolio(selected.id, name)
+        : createPortfolio(name);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+
+    close();
+    onChange();
+  };
+
+  const handleDelete = () => {
+    if (!selected) {
+      return;
+    }
+
+    const result = deletePortfolio(selected.id);
+    if (result) {
+      setError(result);
+      return;
+    }
+
+    close();
+    onChange();
+  };
+
+  return (
+    <div className="mb-8 space-y-2 text-sm">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          aria-label="Portfolio"
+          className={SELECT_CLASS}
+          onChange={(e) => {
+            close();
+            onSelect(e.target.value);
+          }}
+          value={selectedId}
+        >
+          {portfolios.map((portfolio) => (
+            <option key={portfolio.id} value={portfolio.id}>
+              {portfolio.name}
+            </option>
+          ))}
+          {portfolios.length > 1 && (
+            <option value={ALL_PORTFOLIOS}>All accounts</option>
+          )}
+        </select>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => open('create')}
+            size="sm"
+            type="button"
+            variant="outline"
+          >
+            <Plus className="h-4 w-4" />
+            New
+          </Button>
+          <Button
+            disabled={!selected}
+            onClick={() => open('rename')}
+            size="sm"
+            type="button"
+            variant="ghost"
+          >
+            <Pencil className="h-4 w-4" />
+            Rename
+          </Button>
+          <Button
+            disabled={!selected || portfolios.length === 1}
+            onClick={() => open('delete')}
+            size="sm"
+            type="button"
+            variant="ghost"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {(mode === 'create' || mode === 'rename') && (
+        <form
+          className="flex flex-col gap-2 sm:flex-row sm:items-center"
+          onSubmit={handleSubmit}
+        >
+          <Input
+            aria-label="Portfolio name"
+            autoFocus
+            className="sm:w-64"
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Taxable, IRA, Ideas..."
+            value={name}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" type="submit">
+              {mode === 'create' ? 'Create' : 'Save'}
+            </Button>
+            <Button onClick={close} size="sm" type="button" variant="ghost">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'delete' && selected && (
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <p>
+            Delete <span className="font-medium">{selected.name}</span> with its
+            holdings and transactions?
+          </p>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleDelete}
+              size="sm"
+              type="button"
+              variant="destructive"
+            >
+              Delete
+            </Button>
+            <Button onClick={close} size="sm" type="button" variant="ghost">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  changeLotMethod,
+  getLedger,
+  replayLedger,
+  type Transaction,
+} from '@/lib/ledger';
+import {
+  loadLotMethod,
+  type PortfolioPosition,
+  savePortfolio,
+} from '@/lib/storage';
+import {
+  HOLDING_TERM_LABELS,
+  type HoldingTerm,
+  isLotMethod,
+  LOT_METHOD_LABELS,
+  LOT_METHODS,
+  type LotMethod,
+  type RealizedGainsYear,
+  realizedGainsToCsv,
+  summarizeRealizedGains,
+  type TermTotals,
+} from '@/lib/taxLots';
+import { cn, formatCurrency, formatQuantity } from '@/lib/utils';
+
+interface RealizedGainsReportProps {
+  portfolio: PortfolioPosition[];
+  onPortfolioChange: (positions: PortfolioPosition[]) => void;
+}
+
+const SELECT_CLASS =
+  'h-9 rounded-md border border-border bg-background px-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+const yearKey = ({ year, currency }: RealizedGainsYear): string => {
+  return `${year}-${currency}`;
+};
+
+const gainClass = (value: number | undefined): string => {
+  if (value === undefined) {
+    return 'text-muted-foreground';
+  }
+  return value < 0 ? 'text-destructive' : 'text-green-600 dark:text-green-400';
+};
+
+const formatAmount = (value: number | undefined, currency: string): string => {
+  return value === undefined ? '—' : formatCurrency(value, currency);
+};
+
+/**
+ * Realized gains per tax year, split into short- and long-term with wash
+ * sales adjusted, and the lot method that decides which shares were sold.
+ * Each year downloads as a CSV laid out like Form 8949.
+ */
+export function RealizedGainsReport({
+  portfolio,
+  onPortfolioChange,
+}: RealizedGainsReportProps) {
+  const [ledger, setLedger] = useState<Transaction[]>([]);
+  const [method, setMethod] = useState<LotMethod>('fifo');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The ledger is saved with the portfolio, so reload it when that changes
+  useEffect(() => {
+    setLedger(getLedger(portfolio));
+    setMethod(loadLotMethod());
+  }, [portfolio]);
+
+  const years = useMemo(
+    () =>
+      summarizeRealizedGains(replayLedger(ledger, undefined, method).realized),
+    [ledger, method]
+  );
+  const summary =
+    years.find((candidate) => yearKey(candidate) === selected) ?? years[0];
+
+  // The method changes the cost of what is left as well as what was sold
+  const handleMethodChange = (value: string) => {
+    if (!isLotMethod(value)) {
+      return;
+    }
+
+    const { positions, rejected } = changeLotMethod(portfolio, value);
+    if (rejected.length > 0) {
+      setError(
+        `Could not use ${LOT_METHOD_LABELS[value]}: ${rejected
+          .map(
+            ({ transaction, reason }) =>
+              `${transaction.symbol} on ${transaction.date}, ${reason}`
+          )
+          .join('; ')}`
+      );
+      return;
+    }
+
+    setError(null);
+    setMethod(value);
+    savePortfolio(positions);
+    onPortfolioChange(positions);
+  };
+
+  const handleDownload = () => {
+    if (!summary) {
+      return;
+    }
+
+    const blob = new Blob([realizedGainsToCsv(summary)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `realized-gains-${summary.year}-${summary.currency}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const termRows = (
+    [
+      ['short', summary?.shortTerm],
+      ['long', summary?.longTerm],
+      ['unknown', summary?.unknownTerm],
+    ] as const
+  ).filter(
+    (row): row is [HoldingTerm, TermTotals] =>
+      row[1] !== undefined &&
+      (row[0] !== 'unknown' ||
+        Boolean(summary?.lots.some((lot) => lot.term === 'unknown')))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Realized Gains</CardTitle>
+        <CardDescription>
+          Gains and losses on sales by tax year, matched to the lots sold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <select
+            aria-label="Lot method"
+            className={SELECT_CLASS}
+            onChange={(e) => handleMethodChange(e.target.value)}
+            value={method}
+          >
+            {LOT_METHODS.map((value) => (
+              <option key={value} value={value}>
+                {LOT_METHOD_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          {summary && (
+            <>
+              <select
+                aria-label="Tax year"
+                className={SELECT_CLASS}
+                onChange={(e) => setSelected(e.target.value)}
+                value={yearKey(summary)}
+              >
+                {years.map((candidate) => (
+                  <option key={yearKey(candidate)} value={yearKey(candidate)}>
+                    {candidate.year}
+                    {years.some(
+                      (other) =>
+                        other.year === candidate.year &&
+                        other.currency !== candidate.currency
+                    ) && ` (${candidate.currency})`}
+                  </option>
+                ))}
+              </select>
+              <Button onClick={handleDownload} type="button" variant="outline">
+                <Download className="h-4 w-4" />
+                Download CSV
+              </Button>
+            </>
+          )}
+        </div>
+        {error && <p className="text-destructive">{error}</p>}
+
+        {!summary && (
+          <p className="text-muted-foreground">No sales recorded yet.</p>
+        )}
+
+        {summary && (
+          <>
+            <table className="w-full text-left">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Term</th>
+                  <th className="py-1 pr-3 text-right font-medium">Proceeds</th>
+                  <th className="py-1 pr-3 text-right font-medium">
+                    Cost Basis
+                  </th>
+                  <th className="py-1 text-right font-medium">Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {termRows.map(([term, totals]) => (
+                  <tr className="border-border border-t" key={term}>
+                    <td className="py-1 pr-3">{HOLDING_TERM_LABELS[term]}</td>
+                    <td className="py-1 pr-3 text-right">
+                      {formatCurrency(totals.proceeds, summary.currency)}
+                    </td>
+                    <td className="py-1 pr-3 text-right">
+                      {formatCurrency(totals.costBasis, summary.currency)}
+                    </td>
+                    <td
+                      className={cn('py-1 text-right', gainClass(totals.gain))}
+                    >
+                      {formatCurrency(totals.gain, summary.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {summary.washSaleDisallowed > 0 && (
+              <p>
+                {formatCurrency(summary.washSaleDisallowed, summary.currency)}{' '}
+                of losses disallowed as wash sales and added to the cost of the
+                shares bought back.
+              </p>
+            )}
+            {summary.washSaleUncarried > 0 && (
+              <p className="text-destructive">
+                {formatCurrency(summary.washSaleUncarried, summary.currency)} of
+                that could not be added to any shares, since the shares bought
+                back were sold before the loss; adjust that earlier sale by
+                hand.
+              </p>
+            )}
+            {summary.incompleteCount > 0 && (
+              <p className="text-destructive">
+                {summary.incompleteCount}{' '}
+                {summary.incompleteCount === 1 ? 'sale is' : 'sales are'}{' '}
+                missing a price or cost basis and left out of the totals.
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Symbol</th>
+                    <th className="py-1 pr-3 text-right font-medium">
+                      Quantity
+                    </th>
+                    <th className="py-1 pr-3 font-medium">Acquired</th>
+                    <th className="py-1 pr-3 font-medium">Sold</th>
+                    <th className="py-1 pr-3 text-right font-medium">Gain</th>
+                    <th className="py-1 font-medium">Term</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.lots.map((lot) => (
+                    <tr
+                      className="border-border border-t"
+                      key={`${lot.saleId}-${lot.lotId}`}
+                    >
+                      <td className="py-1 pr-3 font-medium">{lot.symbol}</td>
+                      <td className="py-1 pr-3 text-right">
+                        {formatQuantity(lot.quantity)}
+                      </td>
+                      <td className="whitespace-nowrap py-1 pr-3">
+                        {lot.acquiredAt ?? '—'}
+                      </td>
+                      <td className="whitespace-nowrap py-1 pr-3">
+                        {lot.soldAt}
+                      </td>
+                      <td
+                        className={cn(
+                          'py-1 pr-3 text-right',
+                          gainClass(lot.gain)
+                        )}
+                      >
+                        {formatAmount(lot.gain, summary.currency)}
+                        {lot.washSaleDisallowed !== undefined && ' (W)'}
+                      </td>
+                      <td className="py-1">{HOLDING_TERM_LABELS[lot.term]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface ServerStoreTokenProps {
+  /** Called with the token entered, to try loading the server store again */
+  onSubmit: (token: string) => void;
+}
+
+/**
+ * Ask for the token the server store is protected with (its
+ * PORTFOLIO_STORE_TOKEN), when it turned this browser away
+ */
+export function ServerStoreToken({ onSubmit }: ServerStoreTokenProps) {
+  const [token, setToken] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (token.trim()) {
+      onSubmit(token);
+    }
+  };
+
+  return (
+    <form
+      className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center"
+      onSubmit={handleSubmit}
+    >
+      <Input
+        aria-label="Server storage token"
+        className="sm:w-64"
+        onChange={(e) => setToken(e.target.value)}
+        placeholder="Server storage token"
+        type="password"
+        value={token}
+      />
+      <Button size="sm" type="submit">
+        Unlock
+      </Button>
+    </form>
+  );
+}
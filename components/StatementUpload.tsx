@@ -0,0 +1,172 @@
+'use client';
+
+import { Loader2, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { parseStatementPdf } from '@/lib/api';
+import type { StatementParseResult } from '@/lib/pdfStatement';
+import type { PortfolioPosition } from '@/lib/storage';
+import { formatQuantity } from '@/lib/utils';
+
+interface StatementUploadProps {
+  onImport: (positions: PortfolioPosition[]) => void;
+}
+
+/**
+ * Read holdings from a brokerage statement PDF and show where each one was
+ * found, so the user can check them against the statement before saving
+ */
+export function StatementUpload({ onImport }: StatementUploadProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<StatementParseResult | null>(null);
+  const [fileKey, setFileKey] = useState(0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      setResult(await parseStatementPdf(file));
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to read statement. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setResult(null);
+    setFileKey((key) => key + 1);
+  };
+
+  const handleConfirm = () => {
+    if (!result) {
+      return;
+    }
+    onImport(result.rows.map((row) => row.position));
+    handleCancel();
+  };
+
+  const untraced = result?.rows.filter((row) => !row.source).length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          accept="application/pdf,.pdf"
+          aria-label="Brokerage statement PDF"
+          disabled={loading}
+          key={fileKey}
+          onChange={handleFileChange}
+          type="file"
+        />
+        {loading && (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {result && (
+        <div className="space-y-3 rounded-md border border-border p-3 text-sm">
+          <p className="font-medium">
+            {result.rows.length}{' '}
+            {result.rows.length === 1 ? 'holding' : 'holdings'} found in{' '}
+            {result.pageCount} {result.pageCount === 1 ? 'page' : 'pages'}
+            {result.heuristic && ' (matched without AI)'}
+          </p>
+
+          {result.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Symbol</th>
+                    <th className="py-1 pr-3 text-right font-medium">
+                      Quantity
+                    </th>
+                    <th className="py-1 pr-3 font-medium">Page / Line</th>
+                    <th className="py-1 font-medium">Statement text</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(({ position, source }) => (
+                    <tr
+                      className="border-border border-t align-top"
+                      key={`${position.symbol}-${source?.page}-${source?.line}`}
+                    >
+                      <td className="py-1 pr-3 font-medium">
+                        {position.symbol}
+                      </td>
+                      <td className="py-1 pr-3 text-right">
+                        {formatQuantity(position.shares)}
+                      </td>
+                      <td className="whitespace-nowrap py-1 pr-3">
+                        {source ? `p. ${source.page}, l. ${source.line}` : '—'}
+                      </td>
+                      <td
+                        className={
+                          source
+                            ? 'py-1 font-mono text-muted-foreground text-xs'
+                            : 'py-1 text-destructive text-xs'
+                        }
+                      >
+                        {source ? source.text : 'Not found in the statement'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {untraced > 0 && (
+            <p className="text-destructive">
+              {untraced === 1
+                ? '1 holding could not be traced'
+                : `${untraced} holdings could not be traced`}{' '}
+              to a line in the statement. Check it before importing.
+            </p>
+          )}
+
+          {result.rejected.length > 0 && (
+            <ul className="space-y-1 text-muted-foreground">
+              {result.rejected.map((item) => (
+                <li key={`${item.input}-${item.reason}`}>
+                  Skipped "{item.input}" — {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              disabled={result.rows.length === 0}
+              onClick={handleConfirm}
+              type="button"
+            >
+              <Upload className="h-4 w-4" />
+              Import {result.rows.length}{' '}
+              {result.rows.length === 1 ? 'holding' : 'holdings'}
+            </Button>
+            <Button onClick={handleCancel} type="button" variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { QuarantinedData } from '@/lib/versionedStorage';
+
+interface StorageRecoveryProps {
+  entries: QuarantinedData[];
+  onDiscard: (id: string) => void;
+}
+
+const downloadEntry = (entry: QuarantinedData) => {
+  const blob = new Blob([entry.raw], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${entry.key}-${entry.quarantinedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Saved data that could not be read was set aside rather than deleted;
+ * let the user download it before discarding it
+ */
+export function StorageRecovery({ entries, onDiscard }: StorageRecoveryProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mb-8 space-y-3 rounded-md border border-destructive/50 p-4 text-sm"
+      role="alert"
+    >
+      <p className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4 text-destructive" />
+        Some saved data could not be read and was set aside
+      </p>
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <li
+            className="flex flex-col gap-2 sm:flex-row sm:items-center"
+            key={entry.id}
+          >
+            <span className="flex-1">
+              <span className="font-medium">{entry.key}</span>{' '}
+              <span className="text-muted-foreground">
+                ({entry.reason},{' '}
+                {new Date(entry.quarantinedAt).toLocaleString()})
+              </span>
+            </span>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => downloadEntry(entry)}
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                <Download className="h-4 w-4" />
+                Download
+              </Button>
+              <Button
+                onClick={() => onDiscard(entry.id)}
+                size="sm"
+                type="button"
+                variant="ghost"
+              >
+                Discard
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { Check, ChevronsUpDown, Loader2 } from 'lucide-react';
+import { type ReactNode, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import type { SymbolInfo } from '@/data/symbols';
+import { searchSymbolMaster } from '@/lib/api';
+import type { SymbolMatch } from '@/lib/symbolSearch';
+import { cn } from '@/lib/utils';
+
+// Wait for a pause in typing before hitting the search API
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface SymbolComboboxProps {
+  value?: string;
+  onSelect: (symbol: SymbolInfo) => void;
+  placeholder?: string;
+  className?: string;
+  // Custom trigger; defaults to a button showing the selected ticker
+  children?: ReactNode;
+}
+
+/**
+ * Searchable ticker picker backed by the offline symbol master
+ */
+export function SymbolCombobox({
+  value,
+  onSelect,
+  placeholder = 'Search ticker or company...',
+  className,
+  children,
+}: SymbolComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SymbolMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    // Ignore responses for queries the user has already typed past
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      searchSymbolMaster(trimmed)
+        .then((matches) => {
+          if (!cancelled) {
+            setResults(matches);
+            setError(null);
+          }
+        })
+        .catch((err: Error) => {
+          if (!cancelled) {
+            setResults([]);
+            setError(err.message);
+          }
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setLoading(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleSelect = (match: SymbolMatch) => {
+    const { score: _score, ...symbol } = match;
+    onSelect(symbol);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover onOpenChange={setOpen} open={open}>
+      <PopoverTrigger asChild>
+        {children ?? (
+          // The trigger stays a plain button; Radix marks it as opening a
+          // dialog and tracks aria-expanded
+          <Button
+            className={cn('justify-between font-normal', className)}
+            variant="outline"
+          >
+            {value ?? (
+              <span className="text-muted-foreground">{placeholder}</span>
+            )}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        {/* Results are ranked server-side, so cmdk must not re-filter them */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            onValueChange={setQuery}
+            placeholder={placeholder}
+            value={query}
+          />
+          <CommandList>
+            {loading && (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!loading && query.trim() && (
+              <CommandEmpty>{error ?? 'No matching symbols.'}</CommandEmpty>
+            )}
+            {results.length > 0 && (
+              <CommandGroup>
+                {results.map((match) => (
+                  <CommandItem
+                    key={match.symbol}
+                    onSelect={() => handleSelect(match)}
+                    value={match.symbol}
+                  >
+                    <Check
+                      className={cn(
+                        'h-4 w-4',
+                        value === match.symbol ? 'opacity-100' : 'opacity-0'
+                      )}
+                    />
+                    <div className="flex min-w-0 flex-1 flex-col">
+                      <span className="font-semibold">{match.symbol}</span>
+                      <span className="truncate text-muted-foreground text-xs">
+                        {match.name}
+                      </span>
+                    </div>
+                    <Badge className="uppercase" variant="outline">
+                      {match.type}
+                    </Badge>
+                    <span className="text-muted-foreground text-xs">
+                      {match.exchange}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
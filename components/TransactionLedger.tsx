@@ -0,0 +1,640 @@
+'use client';
+
+import { Trash2 } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { inferAssetType } from '@/lib/assets';
+import {
+  createTransaction,
+  deleteTransaction,
+  getLedger,
+  type RejectedTransaction,
+  recordTransactions,
+  replayLedger,
+  type SymbolActivity,
+  sortTransactions,
+  TRANSACTION_TYPE_LABELS,
+  TRANSACTION_TYPES,
+  type Transaction,
+  type TransactionInput,
+  type TransactionType,
+  transactionSchema,
+} from '@/lib/ledger';
+import {
+  loadLotMethod,
+  type PortfolioPosition,
+  savePortfolio,
+} from '@/lib/storage';
+import { getSymbolInfo } from '@/lib/symbolSearch';
+import {
+  LOT_METHOD_LABELS,
+  type LotSelection,
+  type TaxLot,
+} from '@/lib/taxLots';
+import {
+  cn,
+  formatCurrency,
+  formatPrice,
+  formatQuantity,
+  getToday,
+} from '@/lib/utils';
+
+interface TransactionLedgerProps {
+  portfolio: PortfolioPosition[];
+  onPortfolioChange: (positions: PortfolioPosition[]) => void;
+}
+
+// Every field as typed; the ones a type does not use are ignored
+interface TransactionForm {
+  type: TransactionType;
+  date: string;
+  symbol: string;
+  quantity: string;
+  price: string;
+  fee: string;
+  amount: string;
+  ratio: string;
+  direction: 'in' | 'out';
+  costBasis: string;
+  /** When shares moved in were bought, if not the transfer date */
+  acquiredAt: string;
+  /** Shares to sell from each lot, by lot id */
+  lots: Record<string, string>;
+}
+
+const EMPTY_FIELDS = {
+  symbol: '',
+  quantity: '',
+  price: '',
+  fee: '',
+  amount: '',
+  ratio: '',
+  costBasis: '',
+  acquiredAt: '',
+  lots: {},
+};
+
+const SELECT_CLASS =
+  'h-9 rounded-md border border-border bg-background px-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+// Blank optional fields stay unset; anything else must be a number
+const toNumber = (value: string): number | undefined => {
+  return value.trim() === '' ? undefined : Number(value);
+};
+
+// Lots left blank are not sold from; with none filled in, the lot method
+// picks them
+const toLotSelection = (
+  lots: Record<string, string>
+): LotSelection[] | undefined => {
+  const selection = Object.entries(lots)
+    .filter(([, quantity]) => quantity.trim() !== '')
+    .map(([lotId, quantity]) => ({ lotId, quantity: Number(quantity) }));
+  return selection.length > 0 ? selection : undefined;
+};
+
+/**
+ * The transaction a form describes, naming the holding as it is held or,
+ * for a new one, as the symbol master knows it
+ */
+const toTransactionInput = (
+  form: TransactionForm,
+  portfolio: PortfolioPosition[]
+): TransactionInput => {
+  const symbol = form.symbol.trim().toUpperCase();
+  const held = portfolio.find((position) => position.symbol === symbol);
+  const base = {
+    date: form.date,
+    symbol,
+    companyName: held?.companyName ?? getSymbolInfo(symbol)?.name ?? symbol,
+    assetType: held?.assetType ?? inferAssetType(symbol),
+    currency: held?.currency,
+  };
+  const quantity = Number(form.quantity);
+
+  switch (form.type) {
+    case 'buy':
+      return {
+        ...base,
+        type: 'buy',
+        quantity,
+        price: toNumber(form.price),
+        fee: toNumber(form.fee),
+      };
+    case 'sell':
+      return {
+        ...base,
+        type: 'sell',
+        quantity,
+        price: toNumber(form.price),
+        fee: toNumber(form.fee),
+        lots: toLotSelection(form.lots),
+      };
+    case 'split':
+      return { ...base, type: 'split', ratio: Number(form.ratio) };
+    case 'transfer':
+      return {
+        ...base,
+        type: 'transfer',
+        direction: form.direction,
+        quantity,
+        costBasis: toNumber(form.costBasis),
+        acquiredAt: form.acquiredAt || undefined,
+      };
+    default:
+      return { ...base, type: form.type, amount: Number(form.amount) };
+  }
+};
+
+const formatRatio = (ratio: number): string => {
+  return ratio >= 1
+    ? `${formatQuantity(ratio)}-for-1`
+    : `1-for-${formatQuantity(1 / ratio)}`;
+};
+
+const describeTransfer = (
+  transaction: Extract<Transaction, { type: 'transfer' }>
+): string => {
+  return [
+    `${transaction.direction === 'in' ? 'In' : 'Out'} ${formatQuantity(transaction.quantity)}`,
+    transaction.costBasis === undefined
+      ? ''
+      : `cost ${formatCurrency(transaction.costBasis, transaction.currency)}`,
+    transaction.acquiredAt ? `acquired ${transaction.acquiredAt}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+};
+
+const describeTransaction = (transaction: Transaction): string => {
+  const { currency } = transaction;
+  switch (transaction.type) {
+    case 'buy':
+    case 'sell':
+      return [
+        formatQuantity(transaction.quantity),
+        transaction.price === undefined
+          ? ''
+          : `@ ${formatPrice(transaction.price, currency)}`,
+        transaction.fee
+          ? `+ ${formatCurrency(transaction.fee, currency)} fee`
+          : '',
+        transaction.type === 'sell' && transaction.lots
+          ? `from ${transaction.lots.length} chosen ${transaction.lots.length === 1 ? 'lot' : 'lots'}`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(' ');
+    case 'split':
+      return formatRatio(transaction.ratio);
+    case 'transfer':
+      return describeTransfer(transaction);
+    default:
+      return formatCurrency(transaction.amount, currency);
+  }
+};
+
+const describeLot = (lot: TaxLot, currency?: string): string => {
+  const date = lot.acquiredAt ?? `recorded ${lot.openedAt}`;
+  const price =
+    lot.costBasis === undefined
+      ? ''
+      : ` @ ${formatPrice(lot.costBasis / lot.quantity, currency)}`;
+  return `${date}: ${formatQuantity(lot.quantity)}${price}`;
+};
+
+const describeRejection = ({ transaction, reason }: RejectedTransaction) => {
+  return `${TRANSACTION_TYPE_LABELS[transaction.type]} of ${transaction.symbol} on ${transaction.date}: ${reason}`;
+};
+
+const gainClass = (value: number): string => {
+  return value < 0 ? 'text-destructive' : 'text-green-600 dark:text-green-400';
+};
+
+/**
+ * Shares to sell from each open lot of the symbol being sold, for sales
+ * that name their lots
+ */
+function LotPicker({
+  lots,
+  portfolio,
+  symbol,
+  values,
+  onChange,
+}: {
+  lots: TaxLot[];
+  portfolio: PortfolioPosition[];
+  symbol: string;
+  values: Record<string, string>;
+  onChange: (next: Record<string, string>) => void;
+}) {
+  const held = symbol.trim().toUpperCase();
+  const currency = portfolio.find((p) => p.symbol === held)?.currency;
+  const heldLots = lots.filter((lot) => lot.symbol === held);
+  // With one lot there is nothing to choose
+  if (heldLots.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-muted-foreground">
+        Shares to sell from each lot, or leave blank to use{' '}
+        {LOT_METHOD_LABELS[loadLotMethod()]}
+      </p>
+      {heldLots.map((lot) => (
+        <div className="flex items-center gap-2" key={lot.id}>
+          <span className="flex-1">{describeLot(lot, currency)}</span>
+          <Input
+            aria-label={`Shares from the lot of ${lot.acquiredAt ?? lot.openedAt}`}
+            className="w-32"
+            max={lot.quantity}
+            min="0"
+            onChange={(e) => onChange({ ...values, [lot.id]: e.target.value })}
+            step="any"
+            type="number"
+            value={values[lot.id] ?? ''}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Realized gains, dividends and fees of each symbol that has any
+ */
+function ActivityTable({ activity }: { activity: SymbolActivity[] }) {
+  return (
+    <table className="w-full text-left text-sm">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="py-1 pr-3 font-medium">Symbol</th>
+          <th className="py-1 pr-3 text-right font-medium">Realized Gain</th>
+          <th className="py-1 pr-3 text-right font-medium">Dividends</th>
+          <th className="py-1 text-right font-medium">Fees</th>
+        </tr>
+      </thead>
+      <tbody>
+        {activity.map((item) => (
+          <tr className="border-border border-t" key={item.symbol}>
+            <td className="py-1 pr-3 font-medium">{item.symbol}</td>
+            <td
+              className={cn(
+                'py-1 pr-3 text-right',
+                gainClass(item.realizedGain)
+              )}
+            >
+              {formatCurrency(item.realizedGain, item.currency)}
+            </td>
+            <td className="py-1 pr-3 text-right">
+              {formatCurrency(item.dividends, item.currency)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(item.fees, item.currency)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * What the ledger says was held on a past date
+ */
+function HeldPositions({ positions }: { positions: PortfolioPosition[] }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {positions.length === 0 && (
+        <li className="text-muted-foreground">Nothing held</li>
+      )}
+      {positions.map((position) => (
+        <li key={position.symbol}>
+          <span className="font-medium">{position.symbol}</span>{' '}
+          {formatQuantity(position.shares)}
+          {position.costBasis !== undefined && (
+            <span className="text-muted-foreground">
+              , cost {formatCurrency(position.costBasis, position.currency)}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Record buys, sells, dividends, splits, transfers and fees. Holdings are
+ * replayed from these entries, so they also answer what was held on a past
+ * date and what each holding has earned.
+ */
+export function TransactionLedger({
+  portfolio,
+  onPortfolioChange,
+}: TransactionLedgerProps) {
+  const [ledger, setLedger] = useState<Transaction[]>([]);
+  const [form, setForm] = useState<TransactionForm>({
+    ...EMPTY_FIELDS,
+    type: 'buy',
+    date: getToday(),
+    direction: 'in',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [asOf, setAsOf] = useState('');
+
+  // The ledger is saved with the portfolio, so reload it when that changes
+  useEffect(() => {
+    setLedger(getLedger(portfolio));
+  }, [portfolio]);
+
+  const replay = useMemo(
+    () => replayLedger(ledger, asOf || undefined, loadLotMethod()),
+    [ledger, asOf]
+  );
+  const openLots = useMemo(
+    () => replayLedger(ledger, undefined, loadLotMethod()).lots,
+    [ledger]
+  );
+  const newestFirst = useMemo(
+    () => sortTransactions(ledger).reverse(),
+    [ledger]
+  );
+
+  const applyResult = (result: {
+    positions: PortfolioPosition[];
+    rejected: RejectedTransaction[];
+  }): boolean => {
+    if (result.rejected.length > 0) {
+      setError(result.rejected.map(describeRejection).join('; '));
+      return false;
+    }
+
+    setError(null);
+    savePortfolio(result.positions);
+    onPortfolioChange(result.positions);
+    return true;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = transactionSchema.safeParse(
+      createTransaction(toTransactionInput(form, portfolio))
+    );
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Invalid transaction');
+      return;
+    }
+
+    if (applyResult(recordTransactions(portfolio, [parsed.data]))) {
+      setForm({ ...form, ...EMPTY_FIELDS });
+    }
+  };
+
+  const updateField = (
+    field: Exclude<keyof TransactionForm, 'lots'>,
+    value: string
+  ) => {
+    setForm({ ...form, [field]: value });
+  };
+
+  const isTrade = form.type === 'buy' || form.type === 'sell';
+  const hasQuantity = isTrade || form.type === 'transfer';
+  const hasAmount = form.type === 'dividend' || form.type === 'fee';
+  const activity = replay.activity.filter(
+    (item) => item.realizedGain !== 0 || item.dividends !== 0 || item.fees !== 0
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transactions</CardTitle>
+        <CardDescription>
+          Your holdings and cost basis are worked out from this history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            <select
+              aria-label="Transaction type"
+              className={SELECT_CLASS}
+              onChange={(e) => updateField('type', e.target.value)}
+              value={form.type}
+            >
+              {TRANSACTION_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {TRANSACTION_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <Input
+              aria-label="Date"
+              max={getToday()}
+              onChange={(e) => updateField('date', e.target.value)}
+              type="date"
+              value={form.date}
+            />
+            <Input
+              aria-label="Symbol"
+              onChange={(e) => updateField('symbol', e.target.value)}
+              placeholder="Symbol"
+              value={form.symbol}
+            />
+            {form.type === 'transfer' && (
+              <select
+                aria-label="Direction"
+                className={SELECT_CLASS}
+                onChange={(e) => updateField('direction', e.target.value)}
+                value={form.direction}
+              >
+                <option value="in">In</option>
+                <option value="out">Out</option>
+              </select>
+            )}
+            {hasQuantity && (
+              <Input
+                aria-label="Quantity"
+                min="0"
+                onChange={(e) => updateField('quantity', e.target.value)}
+                placeholder="Quantity"
+                step="any"
+                type="number"
+                value={form.quantity}
+              />
+            )}
+            {isTrade && (
+              <>
+                <Input
+                  aria-label="Price per share"
+                  min="0"
+                  onChange={(e) => updateField('price', e.target.value)}
+                  placeholder="Price (optional)"
+                  step="any"
+                  type="number"
+                  value={form.price}
+                />
+                <Input
+                  aria-label="Fee"
+                  min="0"
+                  onChange={(e) => updateField('fee', e.target.value)}
+                  placeholder="Fee (optional)"
+                  step="any"
+                  type="number"
+                  value={form.fee}
+                />
+              </>
+            )}
+            {form.type === 'transfer' && form.direction === 'in' && (
+              <>
+                <Input
+                  aria-label="Cost basis"
+                  min="0"
+                  onChange={(e) => updateField('costBasis', e.target.value)}
+                  placeholder="Cost basis (optional)"
+                  step="any"
+                  type="number"
+                  value={form.costBasis}
+                />
+                <Input
+                  aria-label="Date acquired (optional)"
+                  max={form.date}
+                  onChange={(e) => updateField('acquiredAt', e.target.value)}
+                  title="Date acquired (optional)"
+                  type="date"
+                  value={form.acquiredAt}
+                />
+              </>
+            )}
+            {hasAmount && (
+              <Input
+                aria-label="Amount"
+                min="0"
+                onChange={(e) => updateField('amount', e.target.value)}
+                placeholder="Amount"
+                step="any"
+                type="number"
+                value={form.amount}
+              />
+            )}
+            {form.type === 'split' && (
+              <Input
+                aria-label="New shares per old share"
+                min="0"
+                onChange={(e) => updateField('ratio', e.target.value)}
+                placeholder="Ratio (2 for 2-for-1)"
+                step="any"
+                type="number"
+                value={form.ratio}
+              />
+            )}
+          </div>
+          {form.type === 'sell' && (
+            <LotPicker
+              lots={openLots}
+              onChange={(lots) => setForm({ ...form, lots })}
+              portfolio={portfolio}
+              symbol={form.symbol}
+              values={form.lots}
+            />
+          )}
+          {error && <p className="text-destructive text-sm">{error}</p>}
+          <Button disabled={!form.symbol.trim()} type="submit">
+            Record {TRANSACTION_TYPE_LABELS[form.type]}
+          </Button>
+        </form>
+
+        {newestFirst.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Date</th>
+                  <th className="py-1 pr-3 font-medium">Type</th>
+                  <th className="py-1 pr-3 font-medium">Symbol</th>
+                  <th className="py-1 pr-3 font-medium">Details</th>
+                  <th className="py-1 font-medium">
+                    <span className="sr-only">Delete</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {newestFirst.map((transaction) => (
+                  <tr className="border-border border-t" key={transaction.id}>
+                    <td className="whitespace-nowrap py-1 pr-3">
+                      {transaction.date}
+                    </td>
+                    <td className="py-1 pr-3">
+                      {TRANSACTION_TYPE_LABELS[transaction.type]}
+                    </td>
+                    <td className="py-1 pr-3 font-medium">
+                      {transaction.symbol}
+                    </td>
+                    <td className="py-1 pr-3">
+                      {describeTransaction(transaction)}
+                      {transaction.note && (
+                        <span className="text-muted-foreground">
+                          {' '}
+                          — {transaction.note}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right">
+                      <Button
+                        aria-label={`Delete ${TRANSACTION_TYPE_LABELS[transaction.type]} of ${transaction.symbol} on ${transaction.date}`}
+                        onClick={() =>
+                          applyResult(
+                            deleteTransaction(portfolio, transaction.id)
+                          )
+                        }
+                        size="icon"
+                        type="button"
+                        variant="ghost"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center gap-2">
+            <label className="font-medium text-sm" htmlFor="ledger-as-of">
+              Holdings on
+            </label>
+            <Input
+              className="w-auto"
+              id="ledger-as-of"
+              max={getToday()}
+              onChange={(e) => setAsOf(e.target.value)}
+              type="date"
+              value={asOf}
+            />
+            {asOf && (
+              <Button onClick={() => setAsOf('')} type="button" variant="ghost">
+                Today
+              </Button>
+            )}
+          </div>
+
+          {asOf && <HeldPositions positions={replay.positions} />}
+
+          {activity.length > 0 && <ActivityTable activity={activity} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
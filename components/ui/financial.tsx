@@ -1,5 +1,6 @@
 import type * as React from 'react';
 import { cva, type VariantProps } from 'class-variance-authority';
+import type { MarketSession, MarketSessionStatus } from '@/lib/tradingCalendar';
 import { cn } from '@/lib/utils';
 import { Badge } from './badge';
 
@@ -154,22 +155,41 @@ function StockSymbol({ symbol, size, className, ...props }: StockSymbolProps) {
 
 // Market status badge
 interface MarketStatusProps {
-  isOpen: boolean;
+  isOpen?: boolean;
+  session?: MarketSession;
   className?: string;
 }
 
-function MarketStatus({ isOpen, className }: MarketStatusProps) {
+const marketStatusLabels: Record<MarketSessionStatus, string> = {
+  pre: 'Pre-Market',
+  open: 'Market Open',
+  post: 'After Hours',
+  closed: 'Market Closed',
+};
+
+// Extended hours are amber, between the open and closed colours
+const marketStatusClasses: Record<MarketSessionStatus, string> = {
+  pre: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  open: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  post: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  closed: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+};
+
+function MarketStatus({ isOpen, session, className }: MarketStatusProps) {
+  const status = session?.status ?? (isOpen ? 'open' : 'closed');
+  const isActive = status !== 'closed';
+  const label =
+    status === 'closed' && session?.holiday
+      ? `Closed for ${session.holiday}`
+      : marketStatusLabels[status];
+
   return (
     <Badge
-      variant={isOpen ? 'default' : 'secondary'}
-      className={cn(
-        isOpen
-          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-          : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-        className
-      )}
+      variant={isActive ? 'default' : 'secondary'}
+      className={cn(marketStatusClasses[status], className)}
     >
-      {isOpen ? 'Market Open' : 'Market Closed'}
+      {label}
+      {status === 'open' && session?.isEarlyClose && ' (Early Close)'}
     </Badge>
   );
 }
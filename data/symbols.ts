@@ -0,0 +1,1372 @@
+// Offline symbol master for symbol search and autocomplete
+// Covers large-cap US stocks, major non-US listings, widely held ETFs,
+// mutual funds and money-market funds, and the largest crypto assets
+
+export type SecurityType =
+  | 'stock'
+  | 'etf'
+  | 'mutualFund'
+  | 'moneyMarket'
+  | 'crypto';
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: SecurityType;
+  // GICS sector; omitted for broad-market and asset-class ETFs
+  sector?: string;
+}
+
+export const symbolMaster: SymbolInfo[] = [
+  {
+    symbol: 'AAPL',
+    name: 'Apple Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'MSFT',
+    name: 'Microsoft Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'NVDA',
+    name: 'NVIDIA Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'AVGO',
+    name: 'Broadcom Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'ORCL',
+    name: 'Oracle Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'CRM',
+    name: 'Salesforce, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'ADBE',
+    name: 'Adobe Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'AMD',
+    name: 'Advanced Micro Devices, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'INTC',
+    name: 'Intel Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'CSCO',
+    name: 'Cisco Systems, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'IBM',
+    name: 'International Business Machines Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'QCOM',
+    name: 'QUALCOMM Incorporated',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'TXN',
+    name: 'Texas Instruments Incorporated',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'MU',
+    name: 'Micron Technology, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'AMAT',
+    name: 'Applied Materials, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'NOW',
+    name: 'ServiceNow, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'INTU',
+    name: 'Intuit Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'PLTR',
+    name: 'Palantir Technologies Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'SNOW',
+    name: 'Snowflake Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'PANW',
+    name: 'Palo Alto Networks, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'CRWD',
+    name: 'CrowdStrike Holdings, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'SHOP',
+    name: 'Shopify Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'TSM',
+    name: 'Taiwan Semiconductor Manufacturing Company Limited',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'ASML',
+    name: 'ASML Holding N.V.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'SAP',
+    name: 'SAP SE',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'DELL',
+    name: 'Dell Technologies Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'HPQ',
+    name: 'HP Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'GOOGL',
+    name: 'Alphabet Inc. Class A',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'GOOG',
+    name: 'Alphabet Inc. Class C',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'META',
+    name: 'Meta Platforms, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'NFLX',
+    name: 'Netflix, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'DIS',
+    name: 'The Walt Disney Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'CMCSA',
+    name: 'Comcast Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'T',
+    name: 'AT&T Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'VZ',
+    name: 'Verizon Communications Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'TMUS',
+    name: 'T-Mobile US, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'SPOT',
+    name: 'Spotify Technology S.A.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'SNAP',
+    name: 'Snap Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'PINS',
+    name: 'Pinterest, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'RBLX',
+    name: 'Roblox Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'EA',
+    name: 'Electronic Arts Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'AMZN',
+    name: 'Amazon.com, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'TSLA',
+    name: 'Tesla, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'HD',
+    name: 'The Home Depot, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'MCD',
+    name: "McDonald's Corporation",
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'NKE',
+    name: 'NIKE, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'SBUX',
+    name: 'Starbucks Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'LOW',
+    name: "Lowe's Companies, Inc.",
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'BKNG',
+    name: 'Booking Holdings Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'TJX',
+    name: 'The TJX Companies, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'GM',
+    name: 'General Motors Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'F',
+    name: 'Ford Motor Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'RIVN',
+    name: 'Rivian Automotive, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'ABNB',
+    name: 'Airbnb, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'UBER',
+    name: 'Uber Technologies, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'LULU',
+    name: 'lululemon athletica inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'BABA',
+    name: 'Alibaba Group Holding Limited',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'TM',
+    name: 'Toyota Motor Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'WMT',
+    name: 'Walmart Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'COST',
+    name: 'Costco Wholesale Corporation',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'PG',
+    name: 'The Procter & Gamble Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'KO',
+    name: 'The Coca-Cola Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'PEP',
+    name: 'PepsiCo, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'PM',
+    name: 'Philip Morris International Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'MO',
+    name: 'Altria Group, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'MDLZ',
+    name: 'Mondelez International, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'CL',
+    name: 'Colgate-Palmolive Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'TGT',
+    name: 'Target Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'KHC',
+    name: 'The Kraft Heinz Company',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: 'JPM',
+    name: 'JPMorgan Chase & Co.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'BAC',
+    name: 'Bank of America Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'WFC',
+    name: 'Wells Fargo & Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'C',
+    name: 'Citigroup Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'GS',
+    name: 'The Goldman Sachs Group, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'MS',
+    name: 'Morgan Stanley',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'SCHW',
+    name: 'The Charles Schwab Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'BLK',
+    name: 'BlackRock, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'AXP',
+    name: 'American Express Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'V',
+    name: 'Visa Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'MA',
+    name: 'Mastercard Incorporated',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'PYPL',
+    name: 'PayPal Holdings, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'COIN',
+    name: 'Coinbase Global, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'HOOD',
+    name: 'Robinhood Markets, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'SQ',
+    name: 'Block, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'BRK.A',
+    name: 'Berkshire Hathaway Inc. Class A',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'BRK.B',
+    name: 'Berkshire Hathaway Inc. Class B',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'UNH',
+    name: 'UnitedHealth Group Incorporated',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'JNJ',
+    name: 'Johnson & Johnson',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'LLY',
+    name: 'Eli Lilly and Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'PFE',
+    name: 'Pfizer Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'MRK',
+    name: 'Merck & Co., Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'ABBV',
+    name: 'AbbVie Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'TMO',
+    name: 'Thermo Fisher Scientific Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'ABT',
+    name: 'Abbott Laboratories',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'AMGN',
+    name: 'Amgen Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'GILD',
+    name: 'Gilead Sciences, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'BMY',
+    name: 'Bristol-Myers Squibb Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'CVS',
+    name: 'CVS Health Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'MRNA',
+    name: 'Moderna, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'ISRG',
+    name: 'Intuitive Surgical, Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'NVO',
+    name: 'Novo Nordisk A/S',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'XOM',
+    name: 'Exxon Mobil Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'CVX',
+    name: 'Chevron Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'COP',
+    name: 'ConocoPhillips',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'SLB',
+    name: 'Schlumberger Limited',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'OXY',
+    name: 'Occidental Petroleum Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'BA',
+    name: 'The Boeing Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'CAT',
+    name: 'Caterpillar Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'GE',
+    name: 'GE Aerospace',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'HON',
+    name: 'Honeywell International Inc.',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'UPS',
+    name: 'United Parcel Service, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'FDX',
+    name: 'FedEx Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'LMT',
+    name: 'Lockheed Martin Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'RTX',
+    name: 'RTX Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'DE',
+    name: 'Deere & Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'MMM',
+    name: '3M Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'DAL',
+    name: 'Delta Air Lines, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'NEE',
+    name: 'NextEra Energy, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Utilities',
+  },
+  {
+    symbol: 'DUK',
+    name: 'Duke Energy Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Utilities',
+  },
+  {
+    symbol: 'SO',
+    name: 'The Southern Company',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Utilities',
+  },
+  {
+    symbol: 'LIN',
+    name: 'Linde plc',
+    exchange: 'NASDAQ',
+    type: 'stock',
+    sector: 'Materials',
+  },
+  {
+    symbol: 'FCX',
+    name: 'Freeport-McMoRan Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Materials',
+  },
+  {
+    symbol: 'NEM',
+    name: 'Newmont Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Materials',
+  },
+  {
+    symbol: 'AMT',
+    name: 'American Tower Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Real Estate',
+  },
+  {
+    symbol: 'PLD',
+    name: 'Prologis, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Real Estate',
+  },
+  {
+    symbol: 'O',
+    name: 'Realty Income Corporation',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Real Estate',
+  },
+  {
+    symbol: 'SPG',
+    name: 'Simon Property Group, Inc.',
+    exchange: 'NYSE',
+    type: 'stock',
+    sector: 'Real Estate',
+  },
+  {
+    symbol: 'SHOP.TO',
+    name: 'Shopify Inc.',
+    exchange: 'TSX',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'RY.TO',
+    name: 'Royal Bank of Canada',
+    exchange: 'TSX',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'TD.TO',
+    name: 'The Toronto-Dominion Bank',
+    exchange: 'TSX',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'ENB.TO',
+    name: 'Enbridge Inc.',
+    exchange: 'TSX',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'RCI-B.TO',
+    name: 'Rogers Communications Inc. Class B',
+    exchange: 'TSX',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: 'HSBA.L',
+    name: 'HSBC Holdings plc',
+    exchange: 'LSE',
+    type: 'stock',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'SHEL.L',
+    name: 'Shell plc',
+    exchange: 'LSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'BP.L',
+    name: 'BP p.l.c.',
+    exchange: 'LSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'SAP.DE',
+    name: 'SAP SE',
+    exchange: 'Xetra',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'SIE.DE',
+    name: 'Siemens AG',
+    exchange: 'Xetra',
+    type: 'stock',
+    sector: 'Industrials',
+  },
+  {
+    symbol: 'MC.PA',
+    name: 'LVMH Moet Hennessy Louis Vuitton SE',
+    exchange: 'Euronext Paris',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: 'ASML.AS',
+    name: 'ASML Holding N.V.',
+    exchange: 'Euronext Amsterdam',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'NESN.SW',
+    name: 'Nestle S.A.',
+    exchange: 'SIX',
+    type: 'stock',
+    sector: 'Consumer Staples',
+  },
+  {
+    symbol: '7203.T',
+    name: 'Toyota Motor Corporation',
+    exchange: 'TSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: '6758.T',
+    name: 'Sony Group Corporation',
+    exchange: 'TSE',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: '0700.HK',
+    name: 'Tencent Holdings Limited',
+    exchange: 'HKEX',
+    type: 'stock',
+    sector: 'Communication Services',
+  },
+  {
+    symbol: '9988.HK',
+    name: 'Alibaba Group Holding Limited',
+    exchange: 'HKEX',
+    type: 'stock',
+    sector: 'Consumer Discretionary',
+  },
+  {
+    symbol: '005930.KS',
+    name: 'Samsung Electronics Co., Ltd.',
+    exchange: 'KRX',
+    type: 'stock',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'BHP.AX',
+    name: 'BHP Group Limited',
+    exchange: 'ASX',
+    type: 'stock',
+    sector: 'Materials',
+  },
+  {
+    symbol: 'RELIANCE.NS',
+    name: 'Reliance Industries Limited',
+    exchange: 'NSE',
+    type: 'stock',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'SPY',
+    name: 'SPDR S&P 500 ETF Trust',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VOO',
+    name: 'Vanguard S&P 500 ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'IVV',
+    name: 'iShares Core S&P 500 ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VTI',
+    name: 'Vanguard Total Stock Market ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  { symbol: 'QQQ', name: 'Invesco QQQ Trust', exchange: 'NASDAQ', type: 'etf' },
+  {
+    symbol: 'DIA',
+    name: 'SPDR Dow Jones Industrial Average ETF Trust',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'IWM',
+    name: 'iShares Russell 2000 ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VXUS',
+    name: 'Vanguard Total International Stock ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+  },
+  {
+    symbol: 'VEA',
+    name: 'Vanguard FTSE Developed Markets ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VWO',
+    name: 'Vanguard FTSE Emerging Markets ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'EFA',
+    name: 'iShares MSCI EAFE ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VT',
+    name: 'Vanguard Total World Stock ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'SCHD',
+    name: 'Schwab U.S. Dividend Equity ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VIG',
+    name: 'Vanguard Dividend Appreciation ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VUG',
+    name: 'Vanguard Growth ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'VTV',
+    name: 'Vanguard Value ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'BND',
+    name: 'Vanguard Total Bond Market ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+  },
+  {
+    symbol: 'AGG',
+    name: 'iShares Core U.S. Aggregate Bond ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'TLT',
+    name: 'iShares 20+ Year Treasury Bond ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+  },
+  {
+    symbol: 'SHY',
+    name: 'iShares 1-3 Year Treasury Bond ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+  },
+  {
+    symbol: 'GLD',
+    name: 'SPDR Gold Shares',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'SLV',
+    name: 'iShares Silver Trust',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'XLK',
+    name: 'Technology Select Sector SPDR Fund',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'XLF',
+    name: 'Financial Select Sector SPDR Fund',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+    sector: 'Financials',
+  },
+  {
+    symbol: 'XLE',
+    name: 'Energy Select Sector SPDR Fund',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+    sector: 'Energy',
+  },
+  {
+    symbol: 'XLV',
+    name: 'Health Care Select Sector SPDR Fund',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+    sector: 'Health Care',
+  },
+  {
+    symbol: 'VNQ',
+    name: 'Vanguard Real Estate ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+    sector: 'Real Estate',
+  },
+  {
+    symbol: 'ARKK',
+    name: 'ARK Innovation ETF',
+    exchange: 'NYSE Arca',
+    type: 'etf',
+  },
+  {
+    symbol: 'SMH',
+    name: 'VanEck Semiconductor ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+    sector: 'Information Technology',
+  },
+  {
+    symbol: 'SOXX',
+    name: 'iShares Semiconductor ETF',
+    exchange: 'NASDAQ',
+    type: 'etf',
+    sector: 'Information Technology',
+  },
+
+  // Mutual funds
+  {
+    symbol: 'VFIAX',
+    name: 'Vanguard 500 Index Fund Admiral Shares',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'VTSAX',
+    name: 'Vanguard Total Stock Market Index Fund Admiral Shares',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'VTIAX',
+    name: 'Vanguard Total International Stock Index Fund Admiral Shares',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'VBTLX',
+    name: 'Vanguard Total Bond Market Index Fund Admiral Shares',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'FXAIX',
+    name: 'Fidelity 500 Index Fund',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'FSKAX',
+    name: 'Fidelity Total Market Index Fund',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'FCNTX',
+    name: 'Fidelity Contrafund',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'SWPPX',
+    name: 'Schwab S&P 500 Index Fund',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+  {
+    symbol: 'AGTHX',
+    name: 'American Funds Growth Fund of America',
+    exchange: 'Mutual Fund',
+    type: 'mutualFund',
+  },
+
+  // Money-market funds (stable $1 NAV, valued as cash)
+  {
+    symbol: 'SPAXX',
+    name: 'Fidelity Government Money Market Fund',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+  {
+    symbol: 'FDRXX',
+    name: 'Fidelity Government Cash Reserves',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+  {
+    symbol: 'VMFXX',
+    name: 'Vanguard Federal Money Market Fund',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+  {
+    symbol: 'VUSXX',
+    name: 'Vanguard Treasury Money Market Fund',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+  {
+    symbol: 'SWVXX',
+    name: 'Schwab Value Advantage Money Fund',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+  {
+    symbol: 'SNVXX',
+    name: 'Schwab Government Money Fund',
+    exchange: 'Mutual Fund',
+    type: 'moneyMarket',
+  },
+
+  // Crypto, quoted against USD
+  { symbol: 'BTC-USD', name: 'Bitcoin', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'ETH-USD', name: 'Ethereum', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'SOL-USD', name: 'Solana', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'XRP-USD', name: 'XRP', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'BNB-USD', name: 'BNB', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'ADA-USD', name: 'Cardano', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'DOGE-USD', name: 'Dogecoin', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'AVAX-USD', name: 'Avalanche', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'DOT-USD', name: 'Polkadot', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'LINK-USD', name: 'Chainlink', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'LTC-USD', name: 'Litecoin', exchange: 'Crypto', type: 'crypto' },
+  {
+    symbol: 'BCH-USD',
+    name: 'Bitcoin Cash',
+    exchange: 'Crypto',
+    type: 'crypto',
+  },
+  { symbol: 'XLM-USD', name: 'Stellar', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'USDC-USD', name: 'USD Coin', exchange: 'Crypto', type: 'crypto' },
+  { symbol: 'USDT-USD', name: 'Tether', exchange: 'Crypto', type: 'crypto' },
+];
+
+// Everyday names for holdings whose official names do not contain them,
+// keyed by lower-case words ("Facebook", "Coke", "J&J")
+export const symbolAliases: Record<string, string> = {
+  google: 'GOOGL',
+  facebook: 'META',
+  'berkshire hathaway': 'BRK.B',
+  berkshire: 'BRK.B',
+  coke: 'KO',
+  'coca cola': 'KO',
+  mcdonalds: 'MCD',
+  'jp morgan': 'JPM',
+  chase: 'JPM',
+  'johnson and johnson': 'JNJ',
+  'johnson johnson': 'JNJ',
+  'j j': 'JNJ',
+  'procter and gamble': 'PG',
+  'p g': 'PG',
+  'walt disney': 'DIS',
+  'wal mart': 'WMT',
+  's p 500': 'VOO',
+  ether: 'ETH-USD',
+};
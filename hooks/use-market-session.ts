@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { getMarketSession, type MarketSession } from '@/lib/tradingCalendar';
+
+// Session boundaries fall on whole minutes
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The current market session, refreshed every minute. Null until mounted,
+ * so the server render and the first client render agree.
+ */
+export function useMarketSession() {
+  const [session, setSession] = useState<MarketSession | null>(null);
+
+  useEffect(() => {
+    setSession(getMarketSession());
+    const timer = setInterval(
+      () => setSession(getMarketSession()),
+      REFRESH_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  return session;
+}
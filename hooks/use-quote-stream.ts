@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from 'react';
+import type { StockPrice } from '@/lib/api';
+
+/**
+ * Subscribe to live quote updates for a set of symbols over Server-Sent
+ * Events. `onQuotes` receives only the symbols whose quote changed.
+ */
+export function useQuoteStream(
+  symbols: string[],
+  onQuotes: (prices: StockPrice[]) => void,
+  enabled = true
+) {
+  const [isConnected, setIsConnected] = useState(false);
+  const onQuotesRef = useRef(onQuotes);
+  onQuotesRef.current = onQuotes;
+
+  // Reconnect only when the symbol set changes, not on every re-render
+  const symbolKey = Array.from(new Set(symbols)).sort().join(',');
+
+  useEffect(() => {
+    if (!(enabled && symbolKey)) {
+      setIsConnected(false);
+      return;
+    }
+
+    const source = new EventSource(
+      `/api/stock-prices/stream?symbols=${encodeURIComponent(symbolKey)}`
+    );
+
+    const onMessage = (event: MessageEvent<string>) => {
+      const { prices } = JSON.parse(event.data) as { prices: StockPrice[] };
+      onQuotesRef.current(prices);
+    };
+
+    source.addEventListener('open', () => setIsConnected(true));
+    source.addEventListener('error', () => setIsConnected(false));
+    source.addEventListener('quotes', onMessage);
+
+    return () => {
+      source.removeEventListener('quotes', onMessage);
+      source.close();
+      setIsConnected(false);
+    };
+  }, [symbolKey, enabled]);
+
+  return isConnected;
+}
@@ -1,11 +1,22 @@
+import { isCashPosition } from './assets';
+import { valueCashPosition } from './cash';
+import type { FxRates } from './fx';
+import type { StatementParseResult } from './pdfStatement';
+import type { PortfolioEditResult } from './portfolioEdits';
+import type { PortfolioParseResult } from './portfolioSchema';
+import { loadPriceHistory, savePriceHistory } from './portfolioStore';
 import type { PortfolioPosition } from './storage';
+import type { SymbolMatch } from './symbolSearch';
+import { isCryptoSymbol } from './symbols';
+import { getMarketSession } from './tradingCalendar';
 
 /**
- * Parse portfolio text using OpenAI API
+ * Parse portfolio text using OpenAI API. Holdings that failed validation
+ * come back in `rejected` with the reason they were dropped.
  */
 export const parsePortfolioText = async (
   portfolioText: string
-): Promise<PortfolioPosition[]> => {
+): Promise<PortfolioParseResult> => {
   try {
     const response = await fetch('/api/parse-portfolio', {
       method: 'POST',
@@ -20,12 +31,106 @@ export const parsePortfolioText = async (
     }
 
     const data = await response.json();
-    return data.positions || [];
+    return {
+      positions: data.positions || [],
+      rejected: data.rejected || [],
+      heuristic: data.heuristic,
+    };
   } catch (_error) {
     throw new Error('Failed to parse portfolio. Please try again.');
   }
 };
 
+/**
+ * Turn an instruction such as "sold 20 AAPL, add 10 NVDA" into changes to
+ * the given portfolio, for the user to preview before applying
+ */
+export const editPortfolioText = async (
+  instruction: string,
+  portfolio: PortfolioPosition[]
+): Promise<PortfolioEditResult> => {
+  // Prices are not needed to work out the changes
+  const currentPortfolio = portfolio.map(
+    ({
+      symbol,
+      shares,
+      companyName,
+      assetType,
+      currency,
+      costBasis,
+      acquiredAt,
+    }) => ({
+      symbol,
+      shares,
+      companyName,
+      assetType,
+      currency,
+      costBasis,
+      acquiredAt,
+    })
+  );
+
+  let response: Response;
+  try {
+    response = await fetch('/api/parse-portfolio', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ portfolioText: instruction, currentPortfolio }),
+    });
+  } catch (_error) {
+    throw new Error('Failed to update portfolio. Please try again.');
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      data.error || 'Failed to update portfolio. Please try again.'
+    );
+  }
+
+  return {
+    changes: data.changes || [],
+    rejected: data.rejected || [],
+    transactions: data.transactions || [],
+    heuristic: data.heuristic,
+  };
+};
+
+/**
+ * Upload a brokerage statement PDF and read its holdings, each with the
+ * page and line it came from. Server messages (not a PDF, scanned
+ * statement) are passed on.
+ */
+export const parseStatementPdf = async (
+  file: File
+): Promise<StatementParseResult> => {
+  const body = new FormData();
+  body.append('file', file);
+
+  let response: Response;
+  try {
+    response = await fetch('/api/parse-statement', { method: 'POST', body });
+  } catch (_error) {
+    throw new Error('Failed to upload statement. Please try again.');
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      data.error || 'Failed to read statement. Please try again.'
+    );
+  }
+
+  return {
+    rows: data.rows || [],
+    rejected: data.rejected || [],
+    heuristic: data.heuristic,
+    pageCount: data.pageCount || 0,
+  };
+};
+
 /**
  * Stock price data from APIs
  */
@@ -35,7 +140,48 @@ export interface StockPrice {
   change: number;
   changePercent: string;
   error?: string;
-  source?: 'alphavantage' | 'finnhub' | 'demo';
+  source?: 'alphavantage' | 'finnhub' | 'coingecko' | 'demo' | 'cache';
+  /** ISO timestamp of when the quote was fetched from its upstream provider */
+  asOf?: string;
+  /** Seconds until a rate-limited quote can be requested again */
+  retryAfter?: number;
+  /** ISO 4217 code the price is quoted in (GBX for London pence) */
+  currency?: string;
+}
+
+/**
+ * Lookback window for historical prices
+ */
+export type HistoryRange = '1d' | '5d' | '1m' | '3m' | '6m' | '1y' | '5y';
+
+/**
+ * Bar size for historical prices: one bar per trading day, or 5-minute bars
+ */
+export type HistoryInterval = 'daily' | 'intraday';
+
+/**
+ * One OHLCV bar. `date` is YYYY-MM-DD for daily bars and an ISO timestamp
+ * for intraday bars.
+ */
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Historical price series for a single symbol, oldest bar first
+ */
+export interface PriceHistory {
+  symbol: string;
+  range: HistoryRange;
+  interval: HistoryInterval;
+  bars: PriceBar[];
+  error?: string;
+  source?: StockPrice['source'];
 }
 
 interface CachedStockPrice extends StockPrice {
@@ -43,9 +189,22 @@ interface CachedStockPrice extends StockPrice {
   expiresAt: number;
 }
 
-// Cache duration: 5 minutes for stock prices
+// Cache duration: 5 minutes for stock prices during the regular session
 const CACHE_DURATION = 5 * 60 * 1000;
 
+/**
+ * Cache lifetime for a quote fetched now. Outside the regular session the
+ * price cannot change before the next open, so cache until then; crypto
+ * trades around the clock and never waits for the open.
+ */
+function getCacheDuration(symbol: string, now = new Date()): number {
+  const session = getMarketSession(now);
+  if (session.status === 'open' || isCryptoSymbol(symbol)) {
+    return CACHE_DURATION;
+  }
+  return Math.max(CACHE_DURATION, session.nextOpen.getTime() - now.getTime());
+}
+
 /**
  * Get cached stock price from localStorage
  */
@@ -53,19 +212,21 @@ function getCachedPrice(symbol: string): StockPrice | null {
   try {
     const cached = localStorage.getItem(`stock_price_${symbol}`);
     if (!cached) return null;
-    
+
     const data: CachedStockPrice = JSON.parse(cached);
     if (Date.now() > data.expiresAt) {
       localStorage.removeItem(`stock_price_${symbol}`);
       return null;
     }
-    
+
     return {
       symbol: data.symbol,
       price: data.price,
       change: data.change,
       changePercent: data.changePercent,
-      source: data.source
+      source: data.source,
+      asOf: data.asOf,
+      currency: data.currency,
     };
   } catch {
     return null;
@@ -80,9 +241,12 @@ function setCachedPrice(stockPrice: StockPrice): void {
     const cached: CachedStockPrice = {
       ...stockPrice,
       timestamp: Date.now(),
-      expiresAt: Date.now() + CACHE_DURATION
+      expiresAt: Date.now() + getCacheDuration(stockPrice.symbol),
     };
-    localStorage.setItem(`stock_price_${stockPrice.symbol}`, JSON.stringify(cached));
+    localStorage.setItem(
+      `stock_price_${stockPrice.symbol}`,
+      JSON.stringify(cached)
+    );
   } catch {
     // Silently fail if localStorage is not available
   }
@@ -93,7 +257,7 @@ function setCachedPrice(stockPrice: StockPrice): void {
  */
 export function clearStockPriceCache(): void {
   try {
-    Object.keys(localStorage).forEach(key => {
+    Object.keys(localStorage).forEach((key) => {
       if (key.startsWith('stock_price_')) {
         localStorage.removeItem(key);
       }
@@ -111,13 +275,13 @@ export const fetchStockPrices = async (
   options: { skipCache?: boolean } = {}
 ): Promise<StockPrice[]> => {
   const { skipCache = false } = options;
-  
+
   try {
     // Check cache first (unless skipCache is true)
     if (!skipCache) {
       const cachedPrices: StockPrice[] = [];
       const uncachedSymbols: string[] = [];
-      
+
       for (const symbol of symbols) {
         const cached = getCachedPrice(symbol);
         if (cached) {
@@ -127,41 +291,48 @@ export const fetchStockPrices = async (
           uncachedSymbols.push(symbol);
         }
       }
-      
+
       // If all symbols are cached, return cached data
       if (uncachedSymbols.length === 0) {
         console.log('All prices found in cache');
         return cachedPrices;
       }
-      
+
       // If some are cached, fetch only uncached ones
       if (uncachedSymbols.length < symbols.length) {
-        console.log(`Fetching ${uncachedSymbols.length} uncached symbols:`, uncachedSymbols);
-        const freshPrices = await fetchStockPrices(uncachedSymbols, { skipCache: true });
-        
+        console.log(
+          `Fetching ${uncachedSymbols.length} uncached symbols:`,
+          uncachedSymbols
+        );
+        const freshPrices = await fetchStockPrices(uncachedSymbols, {
+          skipCache: true,
+        });
+
         // Cache the fresh prices
-        freshPrices.forEach(price => {
+        freshPrices.forEach((price) => {
           if (!price.error) {
             setCachedPrice(price);
           }
         });
-        
+
         // Return combined cached + fresh data in original order
-        return symbols.map(symbol => {
-          const cached = cachedPrices.find(p => p.symbol === symbol);
+        return symbols.map((symbol) => {
+          const cached = cachedPrices.find((p) => p.symbol === symbol);
           if (cached) return cached;
-          
-          const fresh = freshPrices.find(p => p.symbol === symbol);
-          return fresh || {
-            symbol,
-            price: 0,
-            change: 0,
-            changePercent: '0.00%',
-            error: 'Failed to fetch price'
-          };
+
+          const fresh = freshPrices.find((p) => p.symbol === symbol);
+          return (
+            fresh || {
+              symbol,
+              price: 0,
+              change: 0,
+              changePercent: '0.00%',
+              error: 'Failed to fetch price',
+            }
+          );
         });
       }
-      
+
       // All symbols need to be fetched
       symbols.splice(0, symbols.length, ...uncachedSymbols);
     }
@@ -180,7 +351,7 @@ export const fetchStockPrices = async (
 
     const data = await response.json();
     const prices = data.prices || [];
-    
+
     // Cache successful responses
     if (!skipCache) {
       prices.forEach((price: StockPrice) => {
@@ -189,7 +360,7 @@ export const fetchStockPrices = async (
         }
       });
     }
-    
+
     return prices;
   } catch (_error) {
     throw new Error('Failed to fetch stock prices. Please try again.');
@@ -197,7 +368,132 @@ export const fetchStockPrices = async (
 };
 
 /**
- * Enrich portfolio positions with current prices
+ * Fetch historical OHLCV bars for a symbol, kept in IndexedDB for as long
+ * as a quote would be cached
+ */
+export const fetchPriceHistory = async (
+  symbol: string,
+  options: { range?: HistoryRange; interval?: HistoryInterval } = {}
+): Promise<PriceHistory> => {
+  const { range = '1m', interval = 'daily' } = options;
+  const params = new URLSearchParams({ symbol, range, interval });
+  const cacheKey = `${symbol.toUpperCase()}:${range}:${interval}`;
+
+  // A saved copy that cannot be read is fetched again
+  const cached = await loadPriceHistory(cacheKey).catch(() => null);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.history;
+  }
+
+  try {
+    const response = await fetch(`/api/price-history?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const history: PriceHistory = data.history;
+    if (!history.error) {
+      savePriceHistory(
+        cacheKey,
+        history,
+        Date.now() + getCacheDuration(symbol)
+      ).catch(() => {
+        // The history is still shown when it cannot be cached
+      });
+    }
+    return history;
+  } catch (_error) {
+    throw new Error('Failed to fetch price history. Please try again.');
+  }
+};
+
+/**
+ * Search the symbol master by ticker or company name
+ */
+export const searchSymbolMaster = async (
+  query: string,
+  limit = 10
+): Promise<SymbolMatch[]> => {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+
+  try {
+    const response = await fetch(`/api/symbols/search?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.results;
+  } catch (_error) {
+    throw new Error('Failed to search symbols. Please try again.');
+  }
+};
+
+/**
+ * Fetch rates for converting the given currencies into a base currency
+ */
+export const fetchFxRates = async (
+  base: string,
+  currencies: string[]
+): Promise<FxRates> => {
+  const params = new URLSearchParams({
+    base,
+    currencies: currencies.join(','),
+  });
+
+  try {
+    const response = await fetch(`/api/fx-rates?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.rates;
+  } catch (_error) {
+    throw new Error('Failed to fetch exchange rates. Please try again.');
+  }
+};
+
+/**
+ * Merge quotes into portfolio positions. Positions without a quote are left
+ * unchanged; failed quotes keep the last known price but record `retryAfter`.
+ */
+export const applyQuotesToPortfolio = (
+  portfolio: PortfolioPosition[],
+  prices: StockPrice[]
+): PortfolioPosition[] => {
+  return portfolio.map((position) => {
+    const priceData = prices.find((p) => p.symbol === position.symbol);
+
+    if (!priceData) {
+      return position;
+    }
+
+    if (!priceData.error) {
+      return {
+        ...position,
+        currentPrice: priceData.price,
+        dailyChange: priceData.change,
+        dailyChangePercent: priceData.changePercent,
+        totalValue: priceData.price * position.shares,
+        source: priceData.source,
+        asOf: priceData.asOf,
+        currency: priceData.currency ?? position.currency,
+        retryAfter: undefined,
+      };
+    }
+
+    return { ...position, retryAfter: priceData.retryAfter };
+  });
+};
+
+/**
+ * Enrich portfolio positions with current prices. Cash and money-market
+ * lines are valued locally and never quoted.
  */
 export const enrichPortfolioWithPrices = async (
   portfolio: PortfolioPosition[]
@@ -206,28 +502,23 @@ export const enrichPortfolioWithPrices = async (
     return portfolio;
   }
 
+  const valued = portfolio.map((pos) =>
+    isCashPosition(pos) ? valueCashPosition(pos) : pos
+  );
+  const symbols = valued
+    .filter((pos) => !isCashPosition(pos))
+    .map((pos) => pos.symbol);
+  if (symbols.length === 0) {
+    return valued;
+  }
+
   try {
-    const symbols = portfolio.map((pos) => pos.symbol);
     const prices = await fetchStockPrices(symbols);
 
-    return portfolio.map((position) => {
-      const priceData = prices.find((p) => p.symbol === position.symbol);
-
-      if (priceData && !priceData.error) {
-        return {
-          ...position,
-          currentPrice: priceData.price,
-          dailyChange: priceData.change,
-          dailyChangePercent: priceData.changePercent,
-          totalValue: priceData.price * position.shares,
-        };
-      }
-
-      return position;
-    });
+    return applyQuotesToPortfolio(valued, prices);
   } catch (_error) {
-    // Return original portfolio if price fetching fails
-    return portfolio;
+    // Keep the last known prices if price fetching fails
+    return valued;
   }
 };
 
@@ -0,0 +1,120 @@
+import type { SecurityType } from '@/data/symbols';
+import { getCashSymbol, isCashSymbol } from './cash';
+import type { PortfolioPosition } from './storage';
+import { getSymbolInfo } from './symbolSearch';
+import { isCryptoSymbol, normalizeSymbol, parseCryptoSymbol } from './symbols';
+
+export const ASSET_TYPES = [
+  'equity',
+  'etf',
+  'crypto',
+  'cash',
+  'mutualFund',
+] as const;
+
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  equity: 'Stock',
+  etf: 'ETF',
+  crypto: 'Crypto',
+  cash: 'Cash',
+  mutualFund: 'Mutual Fund',
+};
+
+// What one unit of each asset type is called
+export const QUANTITY_LABELS: Record<AssetType, string> = {
+  equity: 'Shares',
+  etf: 'Shares',
+  crypto: 'Quantity',
+  cash: 'Balance',
+  mutualFund: 'Units',
+};
+
+const SECURITY_ASSET_TYPES: Record<SecurityType, AssetType> = {
+  stock: 'equity',
+  etf: 'etf',
+  mutualFund: 'mutualFund',
+  moneyMarket: 'cash',
+  crypto: 'crypto',
+};
+
+// US mutual fund tickers are five letters ending in X (VFIAX, FXAIX)
+const MUTUAL_FUND_TICKER = /^[A-Z]{4}X$/;
+
+export const isAssetType = (value: unknown): value is AssetType => {
+  return ASSET_TYPES.includes(value as AssetType);
+};
+
+/**
+ * Asset type of a security picked from the symbol master
+ */
+export const getSecurityAssetType = (type: SecurityType): AssetType => {
+  return SECURITY_ASSET_TYPES[type];
+};
+
+/**
+ * Best guess at the asset type of a symbol with no stated type: crypto
+ * pairs, then the symbol master, then the mutual fund ticker pattern
+ */
+export const inferAssetType = (symbol: string): AssetType => {
+  if (isCryptoSymbol(symbol)) {
+    return 'crypto';
+  }
+  if (isCashSymbol(symbol)) {
+    return 'cash';
+  }
+
+  const info = getSymbolInfo(symbol);
+  if (info) {
+    return getSecurityAssetType(info.type);
+  }
+
+  return MUTUAL_FUND_TICKER.test(symbol) ? 'mutualFund' : 'equity';
+};
+
+/**
+ * Asset type of a position, inferred for positions saved before it was stored
+ */
+export const getPositionAssetType = (
+  position: PortfolioPosition
+): AssetType => {
+  return position.assetType ?? inferAssetType(position.symbol);
+};
+
+/**
+ * Canonical symbol for an asset of a known type. A bare coin such as BTC
+ * becomes the BTC-USD pair and plain cash becomes CASH:<currency>; money
+ * market funds and everything else are normalized as tickers.
+ */
+export const normalizeAssetSymbol = (
+  symbol: string,
+  assetType: AssetType,
+  currency = 'USD'
+): string | null => {
+  if (assetType === 'crypto') {
+    return parseCryptoSymbol(symbol)?.symbol ?? null;
+  }
+
+  const upper = symbol.trim().toUpperCase();
+  if (assetType === 'cash' && (upper === 'CASH' || isCashSymbol(upper))) {
+    return isCashSymbol(upper) ? upper : getCashSymbol(currency);
+  }
+  return normalizeSymbol(symbol);
+};
+
+/**
+ * Whether a position is cash or a money-market fund, valued locally rather
+ * than quoted
+ */
+export const isCashPosition = (position: PortfolioPosition): boolean => {
+  return getPositionAssetType(position) === 'cash';
+};
+
+/**
+ * Whether a position trades around the clock, so its price keeps moving
+ * outside exchange hours
+ */
+export const isAlwaysTrading = (position: PortfolioPosition): boolean => {
+  return getPositionAssetType(position) === 'crypto';
+};
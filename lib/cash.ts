@@ -0,0 +1,112 @@
+import type { PortfolioPosition } from './storage';
+import { getSymbolCurrency } from './symbols';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+// Cash lines have no ticker, so they are keyed by currency: CASH:USD
+const CASH_SYMBOL = /^CASH:([A-Z]{3})$/;
+
+/**
+ * Symbol for a plain cash balance in a currency
+ */
+export const getCashSymbol = (currency: string): string => {
+  return `CASH:${currency.toUpperCase()}`;
+};
+
+/**
+ * Whether a symbol is a plain cash balance (as opposed to a money-market fund)
+ */
+export const isCashSymbol = (symbol: string): boolean => {
+  return CASH_SYMBOL.test(symbol);
+};
+
+/**
+ * Currency of a cash or money-market line
+ */
+export const getCashCurrency = (position: PortfolioPosition): string => {
+  return (
+    position.currency ??
+    CASH_SYMBOL.exec(position.symbol)?.[1] ??
+    getSymbolCurrency(position.symbol) ??
+    'USD'
+  );
+};
+
+/**
+ * Growth of one unit of principal at an annual percentage yield, compounded
+ * daily from `since` to `now`
+ */
+const getAccrualFactor = (
+  yieldPercent: number | undefined,
+  since: string | undefined,
+  now: Date
+): number => {
+  if (!(yieldPercent && since)) {
+    return 1;
+  }
+
+  const days = Math.max(
+    0,
+    (now.getTime() - new Date(since).getTime()) / DAY_MS
+  );
+  return (1 + yieldPercent / 100) ** (days / DAYS_PER_YEAR);
+};
+
+/**
+ * Price a cash or money-market line locally: a stable NAV of 1 that grows
+ * with any configured yield. `shares` is the principal, so value and daily
+ * change flow through the same totals as quoted holdings.
+ */
+export const valueCashPosition = (
+  position: PortfolioPosition,
+  now = new Date()
+): PortfolioPosition => {
+  const factor = getAccrualFactor(
+    position.yieldPercent,
+    position.yieldSince,
+    now
+  );
+  const previousFactor = getAccrualFactor(
+    position.yieldPercent,
+    position.yieldSince,
+    new Date(now.getTime() - DAY_MS)
+  );
+  const dailyChange = factor - previousFactor;
+
+  return {
+    ...position,
+    currency: getCashCurrency(position),
+    currentPrice: factor,
+    dailyChange,
+    dailyChangePercent: `${((dailyChange / previousFactor) * 100).toFixed(4)}%`,
+    totalValue: position.shares * factor,
+    retryAfter: undefined,
+  };
+};
+
+/**
+ * Change the yield on a cash line. Interest accrued so far is added to the
+ * principal, and the new rate accrues from `now`.
+ */
+export const setCashYield = (
+  position: PortfolioPosition,
+  yieldPercent: number | undefined,
+  now = new Date()
+): PortfolioPosition => {
+  const factor = getAccrualFactor(
+    position.yieldPercent,
+    position.yieldSince,
+    now
+  );
+
+  return valueCashPosition(
+    {
+      ...position,
+      shares: Number((position.shares * factor).toFixed(2)),
+      yieldPercent,
+      yieldSince: yieldPercent ? now.toISOString() : undefined,
+    },
+    now
+  );
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { importBrokerCsv } from './csvImport';
+
+const FIDELITY = [
+  'Account Number,Account Name,Symbol,Description,Quantity,Last Price,Current Value,Cost Basis Total,Type',
+  'Z12345678,Individual,SPAXX**,HELD IN MONEY MARKET,,,$1520.33,,Cash',
+  'Z12345678,Individual,AAPL,APPLE INC,10,$190.00,$1900.00,$1500.00,Cash',
+  'Z12345678,Individual,Pending Activity,,,,$-200.00,,',
+  '',
+  '"The data and information in this spreadsheet is provided to you solely for your use, AAPL,10"',
+  '"Date downloaded 03/15/2024 5:00 PM ET"',
+].join('\n');
+
+const VANGUARD = [
+  'Account Number,Investment Name,Symbol,Shares,Share Price,Total Value,',
+  '12345678,VANGUARD TOTAL STOCK MARKET INDEX ADMIRAL,VTSAX,25.5,110.00,2805.00,',
+  '12345678,Cash,Cash,,,250.00,',
+  '12345678,Account Total,Total,,,3055.00,',
+  '',
+  'Account Number,Trade Date,Settlement Date,Transaction Type,Symbol,Shares',
+  '12345678,2024-03-01,2024-03-04,Buy,VXUS,5',
+].join('\n');
+
+const IBKR = [
+  'Statement,Header,Field Name,Field Value',
+  'Statement,Data,Title,Activity Statement',
+  'Account Information,Header,Field Name,Field Value',
+  'Account Information,Data,Account,U1234567',
+  'Open Positions,Header,DataDiscriminator,Asset Category,Currency,Symbol,Quantity,Cost Basis,Close Price,Value',
+  'Open Positions,Data,Summary,Stocks,USD,AAPL,10,1500,190,1900',
+  'Open Positions,Data,Lot,Stocks,USD,AAPL,10,1500,190,1900',
+  'Cash Report,Header,Currency Summary,Currency,Total',
+  'Cash Report,Data,Starting Cash,Base Currency Summary,5000',
+  'Open Positions,Data,Summary,Stocks,GBP,VOD,1000,700,0.72,720',
+  'Open Positions,Data,Summary,Stocks,USD,TSLA,-5,-900,175,-875',
+  'Open Positions,Total,,Stocks,USD,,,600,,1025',
+  'Notes/Legal Notes,Data,Note,Not a tax document',
+].join('\n');
+
+describe('brokerage CSV import', () => {
+  it('reads a Fidelity export up to its trailing disclaimers', () => {
+    const result = importBrokerCsv(FIDELITY);
+
+    expect(result.broker).toBe('fidelity');
+    expect(result.rejected).toEqual([]);
+    expect(result.positions).toEqual([
+      expect.objectContaining({
+        symbol: 'SPAXX',
+        shares: 1520.33,
+        assetType: 'cash',
+        account: 'Individual',
+      }),
+      expect.objectContaining({
+        symbol: 'AAPL',
+        shares: 10,
+        costBasis: 1500,
+        account: 'Individual',
+      }),
+    ]);
+  });
+
+  it('reads a Vanguard export, skipping its total and later tables', () => {
+    const result = importBrokerCsv(VANGUARD);
+
+    expect(result.broker).toBe('vanguard');
+    expect(result.positions).toEqual([
+      expect.objectContaining({ symbol: 'VTSAX', shares: 25.5 }),
+      expect.objectContaining({
+        symbol: 'CASH:USD',
+        shares: 250,
+        assetType: 'cash',
+      }),
+    ]);
+    expect(result.positions.map((position) => position.symbol)).not.toContain(
+      'VXUS'
+    );
+  });
+
+  it('reads the IBKR Open Positions summary rows with their currency', () => {
+    const result = importBrokerCsv(IBKR);
+
+    expect(result.broker).toBe('ibkr');
+    expect(result.positions).toEqual([
+      expect.objectContaining({
+        symbol: 'AAPL',
+        shares: 10,
+        costBasis: 1500,
+        currency: 'USD',
+        account: 'U1234567',
+      }),
+      expect.objectContaining({
+        symbol: 'VOD',
+        shares: 1000,
+        costBasis: 700,
+        currency: 'GBP',
+      }),
+    ]);
+  });
+
+  it('points rejected rows at their line in the whole file', () => {
+    const result = importBrokerCsv(IBKR);
+
+    // Line 11, though only the fifth Open Positions line
+    expect(result.rejected).toEqual([
+      {
+        input: 'Row 11: TSLA',
+        reason: 'non-positive shares, invalid cost basis',
+      },
+    ]);
+  });
+});
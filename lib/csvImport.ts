@@ -0,0 +1,434 @@
+import { inferAssetType } from './assets';
+import {
+  type ParsedPosition,
+  type RejectedPosition,
+  validateParsedPositions,
+} from './portfolioSchema';
+import {
+  combinePurchases,
+  type PortfolioPosition,
+  roundQuantity,
+} from './storage';
+import { getSymbolInfo } from './symbolSearch';
+import { parseDateInput } from './utils';
+
+export type BrokerId = 'fidelity' | 'schwab' | 'vanguard' | 'ibkr';
+
+/**
+ * Header names to try for each field, lower case. A header also matches
+ * when it continues with a space: "qty" matches Schwab's "Qty (Quantity)".
+ */
+interface ColumnMapping {
+  symbol: string[];
+  quantity: string[];
+  costBasis: string[];
+  acquiredAt: string[];
+  account: string[];
+  description: string[];
+  /** Read for cash rows, which have a value but no quantity */
+  marketValue: string[];
+  /** Listing currency, for exports that mix markets (IBKR) */
+  currency: string[];
+}
+
+/**
+ * A CSV row with its line number as a spreadsheet shows it, kept when rows
+ * are filtered down to one section
+ */
+interface CsvRow {
+  cells: string[];
+  line: number;
+}
+
+interface BrokerLayout {
+  id: BrokerId;
+  name: string;
+  /** Headers that together identify the export */
+  signature: string[];
+  columns: ColumnMapping;
+  /** Multi-section exports: only rows starting with this cell are read */
+  section?: string;
+  isDataRow?: (row: Record<string, string>) => boolean;
+  /** Account named outside the table, e.g. in a title line */
+  accountPattern?: RegExp;
+}
+
+/**
+ * Holdings read from a CSV export, ready to preview before saving
+ */
+export interface CsvImportResult {
+  broker: BrokerId | 'auto';
+  brokerName: string;
+  positions: PortfolioPosition[];
+  rejected: RejectedPosition[];
+  error?: string;
+}
+
+const GENERIC_COLUMNS: ColumnMapping = {
+  symbol: ['symbol', 'ticker', 'ticker symbol', 'security id', 'code'],
+  quantity: ['quantity', 'qty', 'shares', 'units', 'position', 'share count'],
+  costBasis: ['cost basis', 'total cost', 'book cost', 'book value', 'cost'],
+  acquiredAt: [
+    'acquired',
+    'date acquired',
+    'acquisition date',
+    'purchase date',
+    'open date',
+  ],
+  account: ['account', 'account number', 'account name', 'account id'],
+  description: [
+    'description',
+    'name',
+    'security name',
+    'investment name',
+    'security',
+    'company name',
+  ],
+  marketValue: ['market value', 'mkt val', 'current value', 'total value'],
+  currency: ['currency'],
+};
+
+export const BROKER_LAYOUTS: BrokerLayout[] = [
+  {
+    id: 'fidelity',
+    name: 'Fidelity',
+    signature: ['account number', 'symbol', 'quantity', 'cost basis total'],
+    columns: {
+      ...GENERIC_COLUMNS,
+      costBasis: ['cost basis total'],
+      account: ['account name', 'account number'],
+      marketValue: ['current value'],
+    },
+  },
+  {
+    id: 'schwab',
+    name: 'Charles Schwab',
+    signature: ['symbol', 'description', 'mkt val', 'security type'],
+    columns: { ...GENERIC_COLUMNS, quantity: ['qty', 'quantity'] },
+    accountPattern: /Positions for account (.+?) as of/i,
+  },
+  {
+    id: 'vanguard',
+    name: 'Vanguard',
+    signature: ['account number', 'investment name', 'symbol', 'shares'],
+    columns: { ...GENERIC_COLUMNS, costBasis: [] },
+  },
+  {
+    id: 'ibkr',
+    name: 'Interactive Brokers',
+    signature: ['open positions', 'header', 'symbol', 'quantity'],
+    columns: { ...GENERIC_COLUMNS, marketValue: ['value'] },
+    section: 'Open Positions',
+    // Lot rows repeat the summary row per purchase
+    isDataRow: (row) =>
+      row.header === 'Data' &&
+      (row.datadiscriminator ?? 'Summary') === 'Summary',
+    accountPattern:
+      /^"?Account Information"?,"?Data"?,"?Account"?,"?([^",\r\n]+)/m,
+  },
+];
+
+// Header rows sit below title lines in some exports (Schwab)
+const HEADER_SEARCH_ROWS = 20;
+
+// A quoted or plain cell and the delimiter after it
+const CSV_CELL = /("(?:[^"]|"")*"|[^",\r\n]*)(,|\r?\n|\r|$)/g;
+const BYTE_ORDER_MARK = /^\uFEFF/;
+const NEGATIVE_AMOUNT = /^\(.*\)$/;
+// Fidelity marks its core money-market position: SPAXX**
+const TRAILING_MARKERS = /\*+$/;
+
+const CASH_ROW = /^(?:cash\b|core position|money market)/i;
+const SUMMARY_ROW = /^(?:account total|total|subtotal|pending activity)\b/i;
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with commas,
+ * doubled quotes and line breaks
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+
+  for (const [, cell, delimiter] of text
+    .replace(BYTE_ORDER_MARK, '')
+    .matchAll(CSV_CELL)) {
+    row.push(
+      cell.startsWith('"') ? cell.slice(1, -1).replace(/""/g, '"') : cell
+    );
+    if (delimiter === ',') {
+      continue;
+    }
+
+    // The end of the text also matches as an empty last cell
+    if (delimiter || row.length > 1 || row[0]) {
+      rows.push(row);
+    }
+    if (!delimiter) {
+      break;
+    }
+    row = [];
+  }
+  return rows;
+};
+
+const normalizeHeader = (value: string): string => {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+const findColumn = (headers: string[], names: string[]): number => {
+  for (const name of names) {
+    const index = headers.findIndex(
+      (header) => header === name || header.startsWith(`${name} `)
+    );
+    if (index >= 0) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Parse an amount as brokers write it: "$1,234.56", "(12.50)" for
+ * negatives, "--" or "n/a" for none
+ */
+const parseAmount = (value: string | undefined): number | null => {
+  const cleaned = value?.trim().replace(/[$,%\s]/g, '') ?? '';
+  if (!cleaned || cleaned === '--' || cleaned.toLowerCase() === 'n/a') {
+    return null;
+  }
+
+  const negative = NEGATIVE_AMOUNT.test(cleaned);
+  const amount = Number.parseFloat(cleaned.replace(/[()]/g, ''));
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  return negative ? -amount : amount;
+};
+
+const isBlankRow = (row: string[]): boolean => {
+  return row.every((cell) => !cell.trim());
+};
+
+const findHeaderRow = (
+  rows: CsvRow[],
+  matches: (headers: string[]) => boolean
+): number => {
+  return rows
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => matches(row.cells.map(normalizeHeader)));
+};
+
+const hasColumns = (headers: string[], names: string[]): boolean => {
+  return names.every((name) => findColumn(headers, [name]) >= 0);
+};
+
+const hasSymbolAndQuantity = (headers: string[]): boolean => {
+  return (
+    findColumn(headers, GENERIC_COLUMNS.symbol) >= 0 &&
+    findColumn(headers, GENERIC_COLUMNS.quantity) >= 0
+  );
+};
+
+/**
+ * One table row as a position to validate, or null for rows that are not
+ * holdings (totals, pending activity)
+ */
+const toParsedPosition = (
+  cells: Record<keyof ColumnMapping, string | undefined>,
+  rowNumber: number
+): ParsedPosition | null => {
+  const rawSymbol = cells.symbol?.trim().replace(TRAILING_MARKERS, '') ?? '';
+  const description = cells.description?.trim() ?? '';
+  const currency = cells.currency?.trim().toUpperCase() || null;
+  if (!rawSymbol || SUMMARY_ROW.test(rawSymbol)) {
+    return null;
+  }
+
+  if (CASH_ROW.test(rawSymbol)) {
+    return {
+      symbol: 'CASH',
+      shares:
+        parseAmount(cells.marketValue) ?? parseAmount(cells.quantity) ?? 0,
+      companyName: 'Cash',
+      assetType: 'cash',
+      currency,
+      yieldPercent: null,
+      costBasis: null,
+      acquiredAt: null,
+      sourceText: `Row ${rowNumber}: ${rawSymbol}`,
+    };
+  }
+
+  const info = getSymbolInfo(rawSymbol);
+  const assetType = inferAssetType(rawSymbol);
+  // Money-market funds are often listed by balance alone, at a NAV of 1
+  const balance = assetType === 'cash' ? parseAmount(cells.marketValue) : null;
+  return {
+    symbol: rawSymbol,
+    shares: parseAmount(cells.quantity) ?? balance ?? 0,
+    companyName: info?.name ?? (description || rawSymbol),
+    assetType,
+    currency,
+    yieldPercent: null,
+    costBasis: parseAmount(cells.costBasis),
+    acquiredAt: cells.acquiredAt ? parseDateInput(cells.acquiredAt) : null,
+    sourceText: `Row ${rowNumber}: ${rawSymbol}`,
+  };
+};
+
+/**
+ * Combine holdings of the same symbol across accounts
+ */
+const mergePositions = (positions: PortfolioPosition[]) => {
+  const merged = new Map<string, PortfolioPosition>();
+
+  for (const position of positions) {
+    const existing = merged.get(position.symbol);
+    if (!existing) {
+      merged.set(position.symbol, position);
+      continue;
+    }
+
+    const accounts = new Set(
+      [existing.account, position.account].flatMap((account) =>
+        account ? account.split(', ') : []
+      )
+    );
+    merged.set(position.symbol, {
+      ...existing,
+      ...combinePurchases(existing, position),
+      shares: roundQuantity(existing.shares + position.shares),
+      account: accounts.size > 0 ? Array.from(accounts).join(', ') : undefined,
+    });
+  }
+
+  return Array.from(merged.values());
+};
+
+const readPositions = (
+  rows: CsvRow[],
+  headerIndex: number,
+  columns: ColumnMapping,
+  layout?: BrokerLayout,
+  defaultAccount?: string
+) => {
+  const headers = rows[headerIndex].cells.map(normalizeHeader);
+  const indexes = Object.fromEntries(
+    Object.entries(columns).map(([field, names]) => [
+      field,
+      findColumn(headers, names),
+    ])
+  ) as Record<keyof ColumnMapping, number>;
+
+  const positions: PortfolioPosition[] = [];
+  const rejected: RejectedPosition[] = [];
+
+  for (const { cells: row, line } of rows.slice(headerIndex + 1)) {
+    // Single-table exports end at the first blank line (Vanguard follows
+    // holdings with transactions, Fidelity with disclaimers)
+    if (isBlankRow(row)) {
+      if (layout?.section) {
+        continue;
+      }
+      break;
+    }
+
+    const record = Object.fromEntries(
+      headers.map((header, index) => [header, row[index]?.trim() ?? ''])
+    );
+    if (layout?.isDataRow && !layout.isDataRow(record)) {
+      continue;
+    }
+
+    const cells = Object.fromEntries(
+      Object.entries(indexes).map(([field, index]) => [
+        field,
+        index >= 0 ? row[index] : undefined,
+      ])
+    ) as Record<keyof ColumnMapping, string | undefined>;
+
+    const item = toParsedPosition(cells, line);
+    if (!item) {
+      continue;
+    }
+
+    const result = validateParsedPositions([item]);
+    rejected.push(...result.rejected);
+
+    const [position] = result.positions;
+    if (position) {
+      positions.push({
+        ...position,
+        account: cells.account?.trim() || defaultAccount,
+      });
+    }
+  }
+
+  return { positions: mergePositions(positions), rejected };
+};
+
+/**
+ * Read holdings from a brokerage CSV export. The broker is detected from
+ * the headers unless given; unknown layouts are read by guessing the
+ * symbol, quantity, cost basis and account columns from their names.
+ */
+export const importBrokerCsv = (
+  text: string,
+  broker: BrokerId | 'auto' = 'auto'
+): CsvImportResult => {
+  const allRows = parseCsv(text).map((cells, index) => ({
+    cells,
+    line: index + 1,
+  }));
+  const candidates =
+    broker === 'auto'
+      ? BROKER_LAYOUTS
+      : BROKER_LAYOUTS.filter((layout) => layout.id === broker);
+
+  for (const layout of candidates) {
+    const rows = layout.section
+      ? allRows.filter((row) => row.cells[0]?.trim() === layout.section)
+      : allRows;
+    const headerIndex = findHeaderRow(rows, (headers) =>
+      hasColumns(headers, layout.signature)
+    );
+    if (headerIndex < 0) {
+      continue;
+    }
+
+    const account = layout.accountPattern?.exec(text)?.[1]?.trim();
+    return {
+      broker: layout.id,
+      brokerName: layout.name,
+      ...readPositions(rows, headerIndex, layout.columns, layout, account),
+    };
+  }
+
+  if (broker !== 'auto') {
+    const name = candidates[0]?.name ?? broker;
+    return {
+      broker,
+      brokerName: name,
+      positions: [],
+      rejected: [],
+      error: `This does not look like a ${name} positions export`,
+    };
+  }
+
+  const headerIndex = findHeaderRow(allRows, hasSymbolAndQuantity);
+  if (headerIndex < 0) {
+    return {
+      broker,
+      brokerName: 'Unknown',
+      positions: [],
+      rejected: [],
+      error: 'Could not find symbol and quantity columns',
+    };
+  }
+
+  return {
+    broker,
+    brokerName: 'Auto-detected columns',
+    ...readPositions(allRows, headerIndex, GENERIC_COLUMNS),
+  };
+};
@@ -0,0 +1,103 @@
+import type { PortfolioPosition } from './storage';
+import { getSymbolCurrency } from './symbols';
+
+/**
+ * Value of one unit of a currency in the base currency, now and at the
+ * previous close (for the FX share of daily P&L)
+ */
+export interface FxRate {
+  rate: number;
+  previousRate: number;
+}
+
+export interface FxRates {
+  base: string;
+  rates: Record<string, FxRate>;
+  asOf?: string;
+  source?: 'alphavantage' | 'static';
+  error?: string;
+}
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CAD',
+  'CHF',
+  'JPY',
+  'AUD',
+  'HKD',
+  'CNY',
+  'KRW',
+  'INR',
+  'BRL',
+];
+
+// London quotes are in pence (GBX), a hundredth of a pound
+const MINOR_UNITS: Record<string, { currency: string; factor: number }> = {
+  GBX: { currency: 'GBP', factor: 0.01 },
+};
+
+/**
+ * Currency a position is quoted in: from its quote, else from its listing
+ */
+export const getPositionCurrency = (position: PortfolioPosition): string => {
+  return (
+    position.currency ??
+    getSymbolCurrency(position.symbol) ??
+    DEFAULT_BASE_CURRENCY
+  );
+};
+
+/**
+ * Rate for a currency against the table's base, or null if unknown.
+ * Minor units (GBX) are scaled from their major currency.
+ */
+export const getFxRate = (rates: FxRates, currency: string): FxRate | null => {
+  if (currency === rates.base) {
+    return { rate: 1, previousRate: 1 };
+  }
+
+  const minor = MINOR_UNITS[currency];
+  if (minor) {
+    const major = getFxRate(rates, minor.currency);
+    return major
+      ? {
+          rate: major.rate * minor.factor,
+          previousRate: major.previousRate * minor.factor,
+        }
+      : null;
+  }
+
+  return rates.rates[currency] ?? null;
+};
+
+/**
+ * Major currencies whose rates are needed to value the given currencies
+ */
+export const getRequiredCurrencies = (currencies: string[]): string[] => {
+  return Array.from(
+    new Set(
+      currencies.map((currency) => MINOR_UNITS[currency]?.currency ?? currency)
+    )
+  );
+};
+
+/**
+ * Convert an amount into the base currency of a rate table. Returns null
+ * when the rate is missing rather than silently mixing currencies.
+ */
+export const convertAmount = (
+  amount: number,
+  currency: string,
+  rates: FxRates,
+  usePreviousRate = false
+): number | null => {
+  const fx = getFxRate(rates, currency);
+  if (!fx) {
+    return null;
+  }
+  return amount * (usePreviousRate ? fx.previousRate : fx.rate);
+};
@@ -1,4 +1,10 @@
-import type { PortfolioPosition } from './storage';
+import { isCashPosition } from './assets';
+import {
+  calculatePortfolioUnrealizedGain,
+  calculateUnrealizedGain,
+  type PortfolioPosition,
+} from './storage';
+import { getSymbolKey } from './symbols';
 
 /**
  * News item interface for filtering and insights
@@ -43,8 +49,11 @@ export const calculatePortfolioMetrics = (portfolio: PortfolioPosition[]) => {
   
   const changePercent = totalValue > 0 ? (totalChange / (totalValue - totalChange)) * 100 : 0;
   
+  // Cash counts toward the total but is neither a mover nor a concentration risk
+  const holdings = portfolio.filter(pos => !isCashPosition(pos));
+
   // Find biggest mover (by percentage)
-  const positionsWithChanges = portfolio.filter(pos => 
+  const positionsWithChanges = holdings.filter(pos => 
     pos.dailyChangePercent && pos.currentPrice && pos.totalValue
   );
   
@@ -55,11 +64,15 @@ export const calculatePortfolioMetrics = (portfolio: PortfolioPosition[]) => {
   }, positionsWithChanges[0]);
 
   // Find largest position by value
-  const largestPosition = portfolio.reduce((largest, current) => {
+  const largestPosition = holdings.reduce((largest, current) => {
     const currentValue = current.totalValue || 0;
     const largestValue = largest.totalValue || 0;
     return currentValue > largestValue ? current : largest;
-  }, portfolio[0]);
+  }, holdings[0]);
+
+  const cashValue = portfolio
+    .filter(isCashPosition)
+    .reduce((sum, pos) => sum + (pos.totalValue || 0), 0);
 
   return {
     totalValue,
@@ -67,7 +80,8 @@ export const calculatePortfolioMetrics = (portfolio: PortfolioPosition[]) => {
     changePercent,
     biggestMover,
     largestPosition,
-    positionCount: portfolio.length,
+    cashValue,
+    positionCount: holdings.length,
     hasValidPrices: portfolio.some(pos => pos.currentPrice)
   };
 };
@@ -106,6 +120,28 @@ export const generatePortfolioInsights = (
     });
   }
 
+  // Return since purchase, over the holdings with a cost basis
+  const unrealized = calculatePortfolioUnrealizedGain(portfolio);
+  if (unrealized.positionCount > 0) {
+    const isUp = unrealized.gain >= 0;
+    let impact: PortfolioInsight['impact'] = 'neutral';
+    if (unrealized.gain !== 0) {
+      impact = isUp ? 'positive' : 'negative';
+    }
+
+    insights.push({
+      id: 'unrealized-return',
+      type: 'performance',
+      title: isUp ? 'Up Since Purchase' : 'Down Since Purchase',
+      description: `Your holdings are ${isUp ? 'up' : 'down'} $${Math.abs(unrealized.gain).toFixed(2)} (${Math.abs(unrealized.returnPercent).toFixed(1)}%) on the $${unrealized.costBasis.toFixed(2)} you paid for them${unrealized.positionCount < metrics.positionCount ? `, counting the ${unrealized.positionCount} with a known cost` : ''}.`,
+      impact,
+      data: {
+        value: unrealized.gain,
+        percentage: unrealized.returnPercent
+      }
+    });
+  }
+
   // Biggest mover insight
   if (metrics.biggestMover && metrics.biggestMover.dailyChangePercent) {
     const changePercent = parseFloat(metrics.biggestMover.dailyChangePercent.replace('%', ''));
@@ -126,6 +162,37 @@ export const generatePortfolioInsights = (
     });
   }
 
+  // Holding furthest from what was paid for it, either way
+  const holdingReturns = portfolio.flatMap(position => {
+    const gain = calculateUnrealizedGain(position);
+    return gain ? [{ position, gain }] : [];
+  });
+  const furthestFromCost = holdingReturns.reduce((furthest, current) =>
+    Math.abs(current.gain.returnPercent) > Math.abs(furthest.gain.returnPercent) ? current : furthest,
+    holdingReturns[0]
+  );
+
+  if (holdingReturns.length > 1 && Math.abs(furthestFromCost.gain.returnPercent) >= 10) {
+    const { position, gain } = furthestFromCost;
+    const isUp = gain.returnPercent > 0;
+    const yearly = gain.annualizedPercent !== undefined
+      ? `, ${gain.annualizedPercent.toFixed(1)}% a year since ${position.acquiredAt?.slice(0, 4)}`
+      : '';
+
+    insights.push({
+      id: 'holding-return',
+      type: 'movers',
+      title: `${position.companyName} ${isUp ? 'Leads' : 'Lags'} Since Purchase`,
+      description: `${position.companyName} (${position.symbol}) is ${isUp ? 'up' : 'down'} ${Math.abs(gain.returnPercent).toFixed(1)}% from what you paid${yearly}. ${isUp ? 'It may now be a larger share of your portfolio than you intended.' : 'Check whether the reasons you bought it still hold.'}`,
+      impact: isUp ? 'positive' : 'negative',
+      data: {
+        symbol: position.symbol,
+        companyName: position.companyName,
+        percentage: gain.returnPercent
+      }
+    });
+  }
+
   // Portfolio allocation insight
   if (metrics.largestPosition && metrics.totalValue > 0) {
     const allocation = ((metrics.largestPosition.totalValue || 0) / metrics.totalValue) * 100;
@@ -168,16 +235,32 @@ export const generatePortfolioInsights = (
     }
   }
 
+  // Cash allocation insight
+  const cashAllocation = metrics.totalValue > 0 ? (metrics.cashValue / metrics.totalValue) * 100 : 0;
+  if (cashAllocation > 25) {
+    insights.push({
+      id: 'allocation-cash',
+      type: 'allocation',
+      title: 'Large Cash Position',
+      description: `Cash and money-market funds make up ${cashAllocation.toFixed(1)}% of your portfolio. That cushions drawdowns but may lag inflation over the long run.`,
+      impact: 'neutral',
+      data: {
+        value: metrics.cashValue,
+        percentage: cashAllocation
+      }
+    });
+  }
+
   // Market opportunity insight for diversification
-  if (portfolio.length < 5 && metrics.totalValue > 1000) {
+  if (metrics.positionCount < 5 && metrics.totalValue > 1000) {
     insights.push({
       id: 'diversification-opportunity',
       type: 'allocation',
       title: 'Diversification Opportunity',
-      description: `With ${portfolio.length} position${portfolio.length === 1 ? '' : 's'} in your portfolio, consider adding holdings in different sectors to reduce concentration risk and improve long-term stability.`,
+      description: `With ${metrics.positionCount} position${metrics.positionCount === 1 ? '' : 's'} in your portfolio, consider adding holdings in different sectors to reduce concentration risk and improve long-term stability.`,
       impact: 'neutral',
       data: {
-        value: portfolio.length
+        value: metrics.positionCount
       }
     });
   }
@@ -192,8 +275,8 @@ export const filterRelevantNews = (
   news: NewsItem[],
   portfolio: PortfolioPosition[]
 ): NewsItem[] => {
-  const portfolioSymbols = portfolio.map(pos => pos.symbol);
-  return news.filter(item => portfolioSymbols.includes(item.ticker));
+  const portfolioSymbols = portfolio.map(pos => getSymbolKey(pos.symbol));
+  return news.filter(item => portfolioSymbols.includes(getSymbolKey(item.ticker)));
 };
 
 /**
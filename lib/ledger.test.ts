@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { replayLedger, type Transaction } from './ledger';
+import { getHoldingTerm, type LotMethod } from './taxLots';
+
+const buy = (
+  id: string,
+  date: string,
+  quantity: number,
+  price: number
+): Transaction => ({
+  id,
+  type: 'buy',
+  symbol: 'AAPL',
+  companyName: 'Apple Inc.',
+  date,
+  quantity,
+  price,
+});
+
+const sell = (
+  id: string,
+  date: string,
+  quantity: number,
+  price: number,
+  lots?: { lotId: string; quantity: number }[]
+): Transaction => ({
+  id,
+  type: 'sell',
+  symbol: 'AAPL',
+  date,
+  quantity,
+  price,
+  lots,
+});
+
+// Three lots far enough apart that selling one is never a wash sale
+const LOTS = [
+  buy('b1', '2023-01-10', 10, 100),
+  buy('b2', '2023-06-12', 10, 150),
+  buy('b3', '2024-01-10', 10, 120),
+];
+
+describe('lot methods', () => {
+  it.each<[LotMethod, string, number]>([
+    ['fifo', 'b1', 300],
+    ['lifo', 'b3', 100],
+    ['highestCost', 'b2', -200],
+  ])('%s sells from %s', (method, lotId, gain) => {
+    const replay = replayLedger(
+      [...LOTS, sell('s1', '2024-06-03', 10, 130)],
+      undefined,
+      method
+    );
+
+    expect(replay.rejected).toEqual([]);
+    expect(replay.realized).toHaveLength(1);
+    expect(replay.realized[0]).toMatchObject({ lotId, quantity: 10, gain });
+    expect(replay.lots.map((lot) => lot.id)).not.toContain(lotId);
+  });
+
+  it('spreads a sale over several lots in order', () => {
+    const replay = replayLedger([...LOTS, sell('s1', '2024-06-03', 15, 130)]);
+
+    expect(
+      replay.realized.map(({ lotId, quantity }) => [lotId, quantity])
+    ).toEqual([
+      ['b1', 10],
+      ['b2', 5],
+    ]);
+    expect(replay.positions[0]).toMatchObject({ shares: 15, costBasis: 1950 });
+  });
+
+  it('sells the lots a sale names', () => {
+    const replay = replayLedger([
+      ...LOTS,
+      sell('s1', '2024-06-03', 10, 130, [
+        { lotId: 'b3', quantity: 4 },
+        { lotId: 'b1', quantity: 6 },
+      ]),
+    ]);
+
+    expect(
+      replay.realized.map(({ lotId, quantity }) => [lotId, quantity])
+    ).toEqual([
+      ['b3', 4],
+      ['b1', 6],
+    ]);
+  });
+
+  it('merges a lot named twice before checking what it holds', () => {
+    const merged = replayLedger([
+      ...LOTS,
+      sell('s1', '2024-06-03', 10, 130, [
+        { lotId: 'b1', quantity: 6 },
+        { lotId: 'b1', quantity: 4 },
+      ]),
+    ]);
+    expect(merged.realized).toHaveLength(1);
+    expect(merged.realized[0]).toMatchObject({ lotId: 'b1', quantity: 10 });
+
+    const oversold = replayLedger([
+      ...LOTS,
+      sell('s1', '2024-06-03', 12, 130, [
+        { lotId: 'b1', quantity: 6 },
+        { lotId: 'b1', quantity: 6 },
+      ]),
+    ]);
+    expect(oversold.realized).toEqual([]);
+    expect(oversold.rejected[0].reason).toBe(
+      'more than the 10 in the lot from 2023-01-10'
+    );
+  });
+
+  it('refuses to sell more than is held', () => {
+    const replay = replayLedger([...LOTS, sell('s1', '2024-06-03', 31, 130)]);
+
+    expect(replay.rejected[0].reason).toBe('more than the 30 held');
+    expect(replay.positions[0].shares).toBe(30);
+  });
+});
+
+describe('holding term', () => {
+  it('is long-term only after a full year', () => {
+    expect(getHoldingTerm('2023-03-15', '2024-03-15')).toBe('short');
+    expect(getHoldingTerm('2023-03-15', '2024-03-16')).toBe('long');
+    expect(getHoldingTerm(undefined, '2024-03-16')).toBe('unknown');
+  });
+});
+
+describe('wash sales', () => {
+  it('defers a loss to shares bought back within 30 days', () => {
+    const replay = replayLedger([
+      buy('b1', '2024-01-02', 10, 100),
+      sell('s1', '2024-03-01', 10, 80),
+      buy('b2', '2024-03-15', 10, 85),
+    ]);
+
+    expect(replay.realized[0]).toMatchObject({
+      gain: 0,
+      washSaleDisallowed: 200,
+    });
+    expect(replay.realized[0].washSaleUncarried).toBeUndefined();
+    // The 59 days the sold shares were held carry over to the new lot
+    expect(replay.lots).toEqual([
+      expect.objectContaining({
+        id: 'b2',
+        quantity: 10,
+        costBasis: 1050,
+        washSaleAdjustment: 200,
+        acquiredAt: '2024-01-16',
+      }),
+    ]);
+  });
+
+  it('leaves a loss outside the window alone', () => {
+    const replay = replayLedger([
+      buy('b1', '2024-01-02', 10, 100),
+      sell('s1', '2024-03-01', 10, 80),
+      buy('b2', '2024-04-01', 10, 85),
+    ]);
+
+    expect(replay.realized[0]).toMatchObject({ gain: -200 });
+    expect(replay.realized[0].washSaleDisallowed).toBeUndefined();
+    expect(replay.lots[0]).toMatchObject({ costBasis: 850 });
+  });
+
+  it('only disallows the loss on shares replaced', () => {
+    const replay = replayLedger([
+      buy('b1', '2024-01-02', 10, 100),
+      sell('s1', '2024-03-01', 10, 80),
+      buy('b2', '2024-03-15', 4, 85),
+    ]);
+
+    expect(replay.realized[0]).toMatchObject({
+      gain: -120,
+      washSaleDisallowed: 80,
+    });
+    expect(replay.lots[0]).toMatchObject({ costBasis: 420, quantity: 4 });
+  });
+
+  it('splits off the part of a larger lot that replaces the shares sold', () => {
+    const replay = replayLedger([
+      buy('b1', '2024-01-02', 4, 100),
+      sell('s1', '2024-03-01', 4, 80),
+      buy('b2', '2024-03-15', 10, 85),
+    ]);
+
+    expect(replay.lots).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          id: 'b2:s1',
+          quantity: 4,
+          costBasis: 420,
+          acquiredAt: '2024-01-16',
+        }),
+        expect.objectContaining({
+          id: 'b2',
+          quantity: 6,
+          costBasis: 510,
+          acquiredAt: '2024-03-15',
+        }),
+      ])
+    );
+    expect(replay.positions[0]).toMatchObject({ shares: 10, costBasis: 930 });
+  });
+
+  it('reports a loss no open lot can carry', () => {
+    // The shares bought back on 02-20 are sold before the loss on 03-01
+    const replay = replayLedger([
+      buy('b1', '2024-01-02', 10, 100),
+      buy('b2', '2024-02-20', 10, 90),
+      sell('s0', '2024-02-25', 10, 95, [{ lotId: 'b2', quantity: 10 }]),
+      sell('s1', '2024-03-01', 10, 80),
+    ]);
+
+    expect(replay.lots).toEqual([]);
+    expect(replay.realized[1]).toMatchObject({
+      saleId: 's1',
+      washSaleDisallowed: 200,
+      washSaleUncarried: 200,
+    });
+  });
+});
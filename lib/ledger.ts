@@ -0,0 +1,846 @@
+import { z } from 'zod';
+import { ASSET_TYPES } from './assets';
+import {
+  getActivePortfolioId,
+  loadLotMethod,
+  type PortfolioPosition,
+  portfolioStorageKey,
+  roundQuantity,
+  saveLotMethod,
+} from './storage';
+import {
+  getHoldingTerm,
+  isWithinWashSaleWindow,
+  type LotMethod,
+  type LotSelection,
+  matchLots,
+  type RealizedLot,
+  summarizeLots,
+  type TaxLot,
+} from './taxLots';
+import { addDays, getToday } from './utils';
+import { createVersionedStore } from './versionedStorage';
+
+export const TRANSACTION_TYPES = [
+  'buy',
+  'sell',
+  'dividend',
+  'split',
+  'transfer',
+  'fee',
+] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  dividend: 'Dividend',
+  split: 'Split',
+  transfer: 'Transfer',
+  fee: 'Fee',
+};
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDate = z.string().regex(ISO_DATE_REGEX, 'invalid date');
+const positiveNumber = (message: string) => z.number().positive(message);
+const amount = z.number().nonnegative('invalid amount');
+
+const baseTransactionSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  symbol: z.string().trim().min(1, 'missing symbol'),
+  // Describe the holding when a buy or transfer opens it
+  companyName: z.string().optional(),
+  assetType: z.enum(ASSET_TYPES).optional(),
+  currency: z.string().optional(),
+  note: z.string().optional(),
+});
+
+// Price is per share and may be unknown; the gain on a sale is then unknown
+const tradeFields = {
+  quantity: positiveNumber('non-positive quantity'),
+  price: amount.optional(),
+  fee: amount.optional(),
+};
+
+/**
+ * One entry in the ledger. Holdings and cost basis are never stored on
+ * their own; they are what replaying these entries in date order yields.
+ */
+export const transactionSchema = z.discriminatedUnion('type', [
+  baseTransactionSchema.extend({ type: z.literal('buy'), ...tradeFields }),
+  baseTransactionSchema.extend({
+    type: z.literal('sell'),
+    ...tradeFields,
+    // Specific lots to sell from, by the id of the entry that opened each
+    lots: z
+      .array(
+        z.object({
+          lotId: z.string().min(1),
+          quantity: positiveNumber('non-positive quantity'),
+        })
+      )
+      .optional(),
+  }),
+  baseTransactionSchema.extend({
+    type: z.literal('dividend'),
+    amount: positiveNumber('non-positive amount'),
+  }),
+  baseTransactionSchema.extend({
+    type: z.literal('split'),
+    // New shares per old share: 2 for a 2-for-1 split, 0.1 for 1-for-10
+    ratio: positiveNumber('invalid split ratio'),
+  }),
+  baseTransactionSchema.extend({
+    type: z.literal('transfer'),
+    direction: z.enum(['in', 'out']),
+    quantity: positiveNumber('non-positive quantity'),
+    // What the shares cost and when they were bought, for shares moved in
+    costBasis: amount.optional(),
+    acquiredAt: isoDate.optional(),
+  }),
+  baseTransactionSchema.extend({
+    type: z.literal('fee'),
+    amount: positiveNumber('non-positive amount'),
+  }),
+]);
+
+export type Transaction = z.infer<typeof transactionSchema>;
+
+type SellTransaction = Extract<Transaction, { type: 'sell' }>;
+
+// Saved next to the active portfolio; bump the version and add a
+// migration whenever the saved shape changes
+const ledgerStore = () => {
+  return createVersionedStore<Transaction[]>(
+    portfolioStorageKey('ledger', getActivePortfolioId()),
+    {
+      version: 1,
+      schema: z.array(transactionSchema),
+      migrations: [
+        // Version 0 is the bare array saved before versioning, already in
+        // the version 1 shape
+        (data) => data,
+      ],
+    },
+    () => []
+  );
+};
+
+const loadLedger = (): Transaction[] => ledgerStore().load();
+
+const saveLedger = (transactions: Transaction[]): void => {
+  ledgerStore().save(transactions);
+};
+
+/**
+ * A transaction without its id, as entered before it is recorded. The Omit
+ * is applied to each type so each keeps its own fields.
+ */
+export type TransactionInput = Transaction extends infer T
+  ? T extends unknown
+    ? Omit<T, 'id'>
+    : never
+  : never;
+
+export interface RejectedTransaction {
+  transaction: Transaction;
+  reason: string;
+}
+
+/**
+ * Income, costs and realized gains of one symbol over the ledger, in its
+ * currency. Sales without a price or cost basis are left out of the gain,
+ * and losses washed by buying back within 30 days are not counted.
+ */
+export interface SymbolActivity {
+  symbol: string;
+  currency?: string;
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+}
+
+export interface LedgerReplay {
+  positions: PortfolioPosition[];
+  /** Open lots of every holding */
+  lots: TaxLot[];
+  /** Each lot sold, or part of a lot, in date order */
+  realized: RealizedLot[];
+  activity: SymbolActivity[];
+  /** Entries that could not apply, such as selling more than was held */
+  rejected: RejectedTransaction[];
+}
+
+/**
+ * Give a new transaction its id
+ */
+export const createTransaction = (input: TransactionInput): Transaction => {
+  return { ...input, id: crypto.randomUUID() } as Transaction;
+};
+
+/**
+ * Transactions in date order; entries on the same day keep the order they
+ * were recorded in
+ */
+export const sortTransactions = (
+  transactions: Transaction[]
+): Transaction[] => {
+  return [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * A holding as replayed: what the ledger says about it, and its open lots
+ */
+interface ReplayHolding {
+  position: Pick<
+    PortfolioPosition,
+    'symbol' | 'companyName' | 'assetType' | 'currency'
+  >;
+  lots: TaxLot[];
+}
+
+interface ReplayState {
+  method: LotMethod;
+  /** Every transaction being replayed, to find purchases after a sale */
+  transactions: Transaction[];
+  holdings: Map<string, ReplayHolding>;
+  realized: RealizedLot[];
+  /** Ids of the buys and transfers replayed so far */
+  opened: Set<string>;
+  /** Shares of each buy already used to wash a loss */
+  washUsed: Map<string, number>;
+  /** Disallowed losses for buys later in the ledger than the sale */
+  pendingWash: Map<string, WashCarry[]>;
+}
+
+/**
+ * A loss washed by some shares of a buy, and how long the shares sold at
+ * that loss were held (undefined when their age is unknown)
+ */
+interface WashCarry {
+  saleId: string;
+  quantity: number;
+  loss: number;
+  daysHeld?: number;
+}
+
+const addWashSaleLoss = (lot: TaxLot, loss: number): void => {
+  lot.washSaleAdjustment = (lot.washSaleAdjustment ?? 0) + loss;
+  if (lot.costBasis !== undefined) {
+    lot.costBasis += loss;
+  }
+};
+
+const share = (total: number | undefined, part: number) => {
+  return total === undefined ? undefined : total * part;
+};
+
+const less = (total: number | undefined, taken: number | undefined) => {
+  return total === undefined ? undefined : total - (taken ?? 0);
+};
+
+/**
+ * Move some shares of a lot into a lot of their own, with their share of
+ * its cost
+ */
+const splitLot = (
+  lots: TaxLot[],
+  lot: TaxLot,
+  quantity: number,
+  id: string
+): TaxLot => {
+  const part = quantity / lot.quantity;
+  const split: TaxLot = {
+    ...lot,
+    id,
+    quantity,
+    costBasis: share(lot.costBasis, part),
+    washSaleAdjustment: share(lot.washSaleAdjustment, part),
+  };
+  lot.quantity = roundQuantity(lot.quantity - quantity);
+  lot.costBasis = less(lot.costBasis, split.costBasis);
+  lot.washSaleAdjustment = less(
+    lot.washSaleAdjustment,
+    split.washSaleAdjustment
+  );
+  lots.push(split);
+  return split;
+};
+
+/**
+ * Add a washed loss to the shares of a lot bought back, which also take on
+ * the holding period of the shares sold. When that moves their acquired
+ * date and only some of the lot was bought back, those shares become a lot
+ * of their own (`<buy id>:<sale id>`). Returns the part of the loss whose
+ * shares are no longer in the lot.
+ */
+const carryWashSale = (
+  lots: TaxLot[],
+  lot: TaxLot,
+  carry: WashCarry
+): number => {
+  const quantity = Math.min(carry.quantity, lot.quantity);
+  const backdated = carry.daysHeld !== undefined && Boolean(lot.acquiredAt);
+  const replacement =
+    backdated && quantity < lot.quantity
+      ? splitLot(lots, lot, quantity, `${lot.id}:${carry.saleId}`)
+      : lot;
+
+  const loss = (carry.loss * quantity) / carry.quantity;
+  addWashSaleLoss(replacement, loss);
+  if (backdated && replacement.acquiredAt) {
+    replacement.acquiredAt = addDays(
+      replacement.acquiredAt,
+      -(carry.daysHeld ?? 0)
+    );
+  }
+  return quantity === carry.quantity ? 0 : carry.loss - loss;
+};
+
+const openLot = (
+  state: ReplayState,
+  transaction: Transaction,
+  lot: Pick<TaxLot, 'quantity' | 'costBasis' | 'acquiredAt'>
+): void => {
+  const { symbol } = transaction;
+  const holding = state.holdings.get(symbol) ?? {
+    position: {
+      symbol,
+      companyName: transaction.companyName ?? symbol,
+      assetType: transaction.assetType,
+      currency: transaction.currency,
+    },
+    lots: [],
+  };
+  state.holdings.set(symbol, holding);
+
+  const opened: TaxLot = {
+    ...lot,
+    id: transaction.id,
+    symbol,
+    openedAt: transaction.date,
+  };
+  holding.lots.push(opened);
+  for (const carry of state.pendingWash.get(transaction.id) ?? []) {
+    carryWashSale(holding.lots, opened, carry);
+  }
+  state.opened.add(transaction.id);
+};
+
+/**
+ * Take shares out of a holding's lots, returning the shares taken from
+ * each lot with their share of its cost, or why they are not there
+ */
+const takeShares = (
+  state: ReplayState,
+  symbol: string,
+  quantity: number,
+  selection?: LotSelection[]
+): TaxLot[] | string => {
+  const holding = state.holdings.get(symbol);
+  if (!holding) {
+    return `${symbol} not held`;
+  }
+
+  const matches = matchLots(holding.lots, quantity, state.method, selection);
+  if (typeof matches === 'string') {
+    return matches;
+  }
+
+  const taken = matches.map(({ lot, quantity: shares }) => {
+    const costBasis =
+      lot.costBasis === undefined
+        ? undefined
+        : (lot.costBasis * shares) / lot.quantity;
+    const slice = { ...lot, quantity: shares, costBasis };
+    lot.quantity = roundQuantity(lot.quantity - shares);
+    lot.costBasis =
+      lot.costBasis === undefined
+        ? undefined
+        : lot.costBasis - (costBasis ?? 0);
+    return slice;
+  });
+
+  holding.lots = holding.lots.filter((lot) => lot.quantity > 0);
+  if (holding.lots.length === 0) {
+    state.holdings.delete(symbol);
+  }
+  return taken;
+};
+
+/**
+ * Add a washed loss to the lot a buy opened, or to the buy once it is
+ * replayed if it comes after the sale. Returns the part of the loss no lot
+ * can carry because the shares bought back were already sold.
+ */
+const deferWashSaleLoss = (
+  state: ReplayState,
+  buy: Transaction,
+  carry: WashCarry
+): number => {
+  const holding = state.holdings.get(buy.symbol);
+  const lot = holding?.lots.find((candidate) => candidate.id === buy.id);
+  if (holding && lot) {
+    return carryWashSale(holding.lots, lot, carry);
+  }
+  if (state.opened.has(buy.id)) {
+    return carry.loss;
+  }
+
+  state.pendingWash.set(buy.id, [
+    ...(state.pendingWash.get(buy.id) ?? []),
+    carry,
+  ]);
+  return 0;
+};
+
+const getDaysHeld = (
+  acquiredAt: string | undefined,
+  soldAt: string
+): number | undefined => {
+  return acquiredAt === undefined
+    ? undefined
+    : Math.round((Date.parse(soldAt) - Date.parse(acquiredAt)) / DAY_MS);
+};
+
+const isReplacementBuy = (
+  transaction: Transaction,
+  sale: SellTransaction,
+  soldLots: Set<string>
+): transaction is Extract<Transaction, { type: 'buy' }> => {
+  return (
+    transaction.type === 'buy' &&
+    transaction.symbol === sale.symbol &&
+    !soldLots.has(transaction.id) &&
+    isWithinWashSaleWindow(transaction.date, sale.date)
+  );
+};
+
+/**
+ * Disallow a loss as far as the same symbol was bought within 30 days
+ * either side of the sale, adding it to the cost of the shares bought back.
+ * Each bought share washes one sold share.
+ */
+const washSale = (
+  state: ReplayState,
+  sale: SellTransaction,
+  realized: RealizedLot,
+  soldLots: Set<string>
+): void => {
+  const loss = -(realized.gain ?? 0);
+  const daysHeld = getDaysHeld(realized.acquiredAt, realized.soldAt);
+  let unwashed = realized.quantity;
+  let disallowed = 0;
+  let uncarried = 0;
+
+  for (const buy of state.transactions) {
+    if (unwashed <= 0) {
+      break;
+    }
+    if (!isReplacementBuy(buy, sale, soldLots)) {
+      continue;
+    }
+
+    const used = state.washUsed.get(buy.id) ?? 0;
+    const washed = Math.min(roundQuantity(buy.quantity - used), unwashed);
+    if (washed <= 0) {
+      continue;
+    }
+    state.washUsed.set(buy.id, roundQuantity(used + washed));
+    unwashed = roundQuantity(unwashed - washed);
+
+    const washedLoss = (loss * washed) / realized.quantity;
+    disallowed += washedLoss;
+    uncarried += deferWashSaleLoss(state, buy, {
+      saleId: sale.id,
+      quantity: washed,
+      loss: washedLoss,
+      daysHeld,
+    });
+  }
+
+  if (disallowed > 0) {
+    realized.washSaleDisallowed = disallowed;
+    realized.gain = -loss + disallowed;
+  }
+  if (uncarried > 0) {
+    realized.washSaleUncarried = uncarried;
+  }
+};
+
+const sell = (
+  state: ReplayState,
+  activity: SymbolActivity,
+  transaction: SellTransaction
+): string | null => {
+  const companyName =
+    state.holdings.get(transaction.symbol)?.position.companyName ??
+    transaction.symbol;
+  const taken = takeShares(
+    state,
+    transaction.symbol,
+    transaction.quantity,
+    transaction.lots
+  );
+  if (typeof taken === 'string') {
+    return taken;
+  }
+
+  const soldLots = new Set(taken.map((lot) => lot.id));
+  for (const lot of taken) {
+    // The fee is shared between the lots by quantity
+    const proceeds =
+      transaction.price === undefined
+        ? undefined
+        : lot.quantity *
+          (transaction.price - (transaction.fee ?? 0) / transaction.quantity);
+    const realized: RealizedLot = {
+      saleId: transaction.id,
+      lotId: lot.id,
+      symbol: transaction.symbol,
+      companyName,
+      currency: activity.currency,
+      quantity: lot.quantity,
+      acquiredAt: lot.acquiredAt,
+      soldAt: transaction.date,
+      proceeds,
+      costBasis: lot.costBasis,
+      gain:
+        proceeds === undefined || lot.costBasis === undefined
+          ? undefined
+          : proceeds - lot.costBasis,
+      term: getHoldingTerm(lot.acquiredAt, transaction.date),
+    };
+    if (realized.gain !== undefined && realized.gain < 0) {
+      washSale(state, transaction, realized, soldLots);
+    }
+
+    activity.realizedGain += realized.gain ?? 0;
+    state.realized.push(realized);
+  }
+  return null;
+};
+
+const transfer = (
+  state: ReplayState,
+  transaction: Extract<Transaction, { type: 'transfer' }>
+): string | null => {
+  if (transaction.direction === 'in') {
+    openLot(state, transaction, {
+      quantity: transaction.quantity,
+      costBasis: transaction.costBasis,
+      // Moving shares does not restart their holding period
+      acquiredAt: transaction.acquiredAt,
+    });
+    return null;
+  }
+
+  const taken = takeShares(state, transaction.symbol, transaction.quantity);
+  return typeof taken === 'string' ? taken : null;
+};
+
+const split = (
+  state: ReplayState,
+  transaction: Extract<Transaction, { type: 'split' }>
+): string | null => {
+  const holding = state.holdings.get(transaction.symbol);
+  if (!holding) {
+    return `${transaction.symbol} not held`;
+  }
+
+  // The same money buys more (or fewer) shares; cost basis is unchanged
+  for (const lot of holding.lots) {
+    lot.quantity = roundQuantity(lot.quantity * transaction.ratio);
+  }
+  return null;
+};
+
+/**
+ * Apply one transaction, returning why it could not be applied if it
+ * could not
+ */
+const applyTransaction = (
+  state: ReplayState,
+  activity: SymbolActivity,
+  transaction: Transaction
+): string | null => {
+  switch (transaction.type) {
+    case 'buy':
+      openLot(state, transaction, {
+        quantity: transaction.quantity,
+        costBasis:
+          transaction.price === undefined
+            ? undefined
+            : transaction.quantity * transaction.price + (transaction.fee ?? 0),
+        acquiredAt: transaction.date,
+      });
+      return null;
+    case 'sell':
+      return sell(state, activity, transaction);
+    case 'transfer':
+      return transfer(state, transaction);
+    case 'split':
+      return split(state, transaction);
+    case 'dividend':
+      activity.dividends += transaction.amount;
+      return null;
+    default:
+      activity.fees += transaction.amount;
+      return null;
+  }
+};
+
+/**
+ * Replay the ledger into holdings and their tax lots, plus each lot sold
+ * and realized gains, dividends and fees per symbol. Sales take shares
+ * from the lots they name, else from the lots `method` picks. With `asOf`
+ * (YYYY-MM-DD) only transactions up to and including that day count,
+ * giving the holdings on that date.
+ */
+export const replayLedger = (
+  transactions: Transaction[],
+  asOf?: string,
+  method: LotMethod = 'fifo'
+): LedgerReplay => {
+  const state: ReplayState = {
+    method,
+    transactions: sortTransactions(transactions).filter(
+      (transaction) => !asOf || transaction.date <= asOf
+    ),
+    holdings: new Map(),
+    realized: [],
+    opened: new Set(),
+    washUsed: new Map(),
+    pendingWash: new Map(),
+  };
+  const activity = new Map<string, SymbolActivity>();
+  const rejected: RejectedTransaction[] = [];
+
+  for (const transaction of state.transactions) {
+    const symbolActivity = activity.get(transaction.symbol) ?? {
+      symbol: transaction.symbol,
+      currency: transaction.currency,
+      realizedGain: 0,
+      dividends: 0,
+      fees: 0,
+    };
+    activity.set(transaction.symbol, symbolActivity);
+
+    const reason = applyTransaction(state, symbolActivity, transaction);
+    if (reason) {
+      rejected.push({ transaction, reason });
+    }
+  }
+
+  const holdings = Array.from(state.holdings.values());
+  return {
+    positions: holdings.map(({ position, lots }) => ({
+      ...position,
+      ...summarizeLots(lots),
+    })),
+    lots: holdings.flatMap((holding) => holding.lots),
+    realized: state.realized,
+    activity: Array.from(activity.values()),
+    rejected,
+  };
+};
+
+/**
+ * Opening transfers for holdings that have no history yet, dated when they
+ * were bought if known, else today
+ */
+export const openingTransfers = (
+  positions: PortfolioPosition[]
+): Transaction[] => {
+  const today = getToday();
+  return positions.map((position) =>
+    createTransaction({
+      type: 'transfer',
+      direction: 'in',
+      date: position.acquiredAt ?? today,
+      symbol: position.symbol,
+      companyName: position.companyName,
+      assetType: position.assetType,
+      currency: position.currency,
+      quantity: position.shares,
+      costBasis: position.costBasis,
+      acquiredAt: position.acquiredAt,
+      note: 'Opening balance',
+    })
+  );
+};
+
+/**
+ * Interest credited to a cash line: income in its activity, and the same
+ * amount added to the balance so replaying the ledger keeps it
+ */
+export const interestTransactions = (
+  position: PortfolioPosition,
+  interest: number,
+  date = getToday()
+): Transaction[] => {
+  const fields = {
+    date,
+    symbol: position.symbol,
+    companyName: position.companyName,
+    assetType: position.assetType,
+    currency: position.currency,
+  };
+  return [
+    createTransaction({
+      type: 'dividend',
+      ...fields,
+      amount: interest,
+      note: 'Interest',
+    }),
+    createTransaction({
+      type: 'buy',
+      ...fields,
+      quantity: interest,
+      price: 1,
+      note: 'Interest reinvested',
+    }),
+  ];
+};
+
+/**
+ * Holdings derived from the ledger, keeping what the ledger does not know
+ * about each one (prices, yields, accounts) from the current portfolio, in
+ * its order with new holdings last
+ */
+export const mergeDerivedPositions = (
+  derived: PortfolioPosition[],
+  portfolio: PortfolioPosition[]
+): PortfolioPosition[] => {
+  const order = (symbol: string): number => {
+    const index = portfolio.findIndex((p) => p.symbol === symbol);
+    return index < 0 ? portfolio.length : index;
+  };
+
+  const sorted = [...derived].sort((a, b) => order(a.symbol) - order(b.symbol));
+  return sorted.map((position) => {
+    const existing = portfolio.find((p) => p.symbol === position.symbol);
+    if (!existing) {
+      return position;
+    }
+
+    return {
+      ...existing,
+      shares: position.shares,
+      costBasis: position.costBasis,
+      acquiredAt: position.acquiredAt,
+      totalValue:
+        existing.currentPrice === undefined
+          ? existing.totalValue
+          : existing.currentPrice * position.shares,
+    };
+  });
+};
+
+/**
+ * The saved ledger. A portfolio saved before the ledger existed gets
+ * opening transfers, saved so their ids stay the same.
+ */
+export const getLedger = (portfolio: PortfolioPosition[]): Transaction[] => {
+  const ledger = loadLedger();
+  if (ledger.length > 0 || portfolio.length === 0) {
+    return ledger;
+  }
+
+  const opening = openingTransfers(portfolio);
+  saveLedger(opening);
+  return opening;
+};
+
+/**
+ * Start a new ledger from holdings entered or imported as a whole
+ */
+export const startLedger = (positions: PortfolioPosition[]): void => {
+  saveLedger(openingTransfers(positions));
+};
+
+const replaceLedger = (
+  portfolio: PortfolioPosition[],
+  ledger: Transaction[],
+  method: LotMethod = loadLotMethod()
+): { positions: PortfolioPosition[]; rejected: RejectedTransaction[] } => {
+  const replay = replayLedger(ledger, undefined, method);
+  if (replay.rejected.length > 0) {
+    return { positions: portfolio, rejected: replay.rejected };
+  }
+
+  saveLedger(ledger);
+  return {
+    positions: mergeDerivedPositions(replay.positions, portfolio),
+    rejected: [],
+  };
+};
+
+/**
+ * Add transactions to the ledger and return the holdings it now yields.
+ * Nothing is saved if any transaction cannot apply; the caller saves the
+ * returned positions.
+ */
+export const recordTransactions = (
+  portfolio: PortfolioPosition[],
+  transactions: Transaction[]
+): { positions: PortfolioPosition[]; rejected: RejectedTransaction[] } => {
+  return replaceLedger(portfolio, [...getLedger(portfolio), ...transactions]);
+};
+
+/**
+ * Delete a transaction, unless later ones depend on it (a sale of the
+ * shares it bought)
+ */
+export const deleteTransaction = (
+  portfolio: PortfolioPosition[],
+  id: string
+): { positions: PortfolioPosition[]; rejected: RejectedTransaction[] } => {
+  return replaceLedger(
+    portfolio,
+    getLedger(portfolio).filter((transaction) => transaction.id !== id)
+  );
+};
+
+/**
+ * Change which lots sales take shares from, returning the holdings with
+ * the cost basis that leaves. Sales that name their lots are unaffected.
+ * The method is kept only if the ledger still replays with it.
+ */
+export const changeLotMethod = (
+  portfolio: PortfolioPosition[],
+  method: LotMethod
+): { positions: PortfolioPosition[]; rejected: RejectedTransaction[] } => {
+  const result = replaceLedger(portfolio, getLedger(portfolio), method);
+  if (result.rejected.length === 0) {
+    saveLotMethod(method);
+  }
+  return result;
+};
+
+/**
+ * File a holding's history under a corrected symbol
+ */
+export const renameLedgerSymbol = (
+  portfolio: PortfolioPosition[],
+  symbol: string,
+  replacement: Pick<PortfolioPosition, 'symbol' | 'companyName' | 'assetType'>
+): void => {
+  saveLedger(
+    getLedger(portfolio).map((transaction) =>
+      transaction.symbol === symbol
+        ? {
+            ...transaction,
+            symbol: replacement.symbol,
+            companyName: replacement.companyName,
+            assetType: replacement.assetType,
+          }
+        : transaction
+    )
+  );
+};
@@ -0,0 +1,93 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { createFakeLlmClient, type FakeLlmStep } from './fake';
+import { createOpenAiClient } from './openai';
+import type { LlmClient } from './types';
+
+const LLM_PROVIDERS = ['openai', 'local', 'fake'] as const;
+
+type LlmProviderId = (typeof LLM_PROVIDERS)[number];
+
+const DEFAULT_MODELS: Record<Exclude<LlmProviderId, 'fake'>, string> = {
+  openai: 'gpt-4o',
+  local: 'llama3.1',
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp serves on :8080/v1
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+let client: LlmClient | null = null;
+
+const getLlmProviderId = (): LlmProviderId => {
+  const id = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!id) {
+    return 'openai';
+  }
+
+  // Unknown providers fall back to OpenAI
+  if (!LLM_PROVIDERS.includes(id as LlmProviderId)) {
+    return 'openai';
+  }
+  return id as LlmProviderId;
+};
+
+/**
+ * Scripted responses for the fake client: a JSON array of { data },
+ * { refusal } or { error } objects in the file at LLM_FAKE_SCRIPT. An
+ * unreadable script becomes an error answered to the first call.
+ */
+function readFakeScript(): FakeLlmStep[] {
+  const scriptPath = process.env.LLM_FAKE_SCRIPT;
+  if (!(scriptPath && existsSync(scriptPath))) {
+    return [];
+  }
+
+  try {
+    const script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+    return Array.isArray(script) ? script : [];
+  } catch (_error) {
+    return [{ error: `Invalid fake LLM script at ${scriptPath}` }];
+  }
+}
+
+const createLlmClient = (id: LlmProviderId): LlmClient => {
+  if (id === 'fake') {
+    return createFakeLlmClient(readFakeScript());
+  }
+
+  if (id === 'local') {
+    return createOpenAiClient({
+      id,
+      name: 'Local model',
+      model: process.env.LLM_MODEL || DEFAULT_MODELS.local,
+      // Local servers ignore the key, but the SDK requires one
+      apiKey: process.env.LLM_API_KEY || 'local',
+      baseURL: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+    });
+  }
+
+  return createOpenAiClient({
+    id,
+    name: 'OpenAI',
+    model: process.env.LLM_MODEL || DEFAULT_MODELS.openai,
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.LLM_BASE_URL,
+  });
+};
+
+/**
+ * The language model backend selected by LLM_PROVIDER: `openai` (default),
+ * `local` for an OpenAI-compatible server such as Ollama or llama.cpp, or
+ * `fake` for scripted answers. LLM_MODEL overrides the model name.
+ */
+export const getLlmClient = (): LlmClient => {
+  client ??= createLlmClient(getLlmProviderId());
+  return client;
+};
+
+/**
+ * Replace the backend, e.g. with a fake client in tests; pass null to go
+ * back to the one selected by env
+ */
+export const setLlmClient = (llmClient: LlmClient | null): void => {
+  client = llmClient;
+};
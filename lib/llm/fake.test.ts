@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { computePortfolioDiff } from '../portfolioEdits';
+import { requestPortfolioEdits } from '../portfolioPrompt';
+import { createFakeLlmClient } from './fake';
+
+const SCHEMA_MISMATCH = /^Scripted response does not match count/;
+
+const request = {
+  prompt: 'How many?',
+  schema: z.object({ count: z.number() }),
+  schemaName: 'count',
+};
+
+describe('fake LLM client', () => {
+  it('answers from the script in order and records each prompt', async () => {
+    const llm = createFakeLlmClient([
+      { data: { count: 1 } },
+      { refusal: 'No.' },
+      { error: 'Timed out' },
+    ]);
+
+    expect(await llm.generateObject(request)).toEqual({ data: { count: 1 } });
+    expect(await llm.generateObject(request)).toEqual({ refusal: 'No.' });
+    expect(await llm.generateObject(request)).toEqual({ error: 'Timed out' });
+    expect(await llm.generateObject(request)).toEqual({
+      error: 'Fake LLM script exhausted',
+    });
+    expect(llm.prompts).toEqual(new Array(4).fill('How many?'));
+  });
+
+  it('lets a step answer from the prompt', async () => {
+    const llm = createFakeLlmClient([
+      (prompt) => ({ data: { count: prompt.length } }),
+    ]);
+
+    expect(await llm.generateObject(request)).toEqual({ data: { count: 9 } });
+  });
+
+  it('checks scripted data against the request schema', async () => {
+    const llm = createFakeLlmClient([{ data: { count: 'many' } }]);
+    const result = await llm.generateObject(request);
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatch(SCHEMA_MISMATCH);
+  });
+
+  it('stands in for the model behind portfolio edits', async () => {
+    const llm = createFakeLlmClient([
+      {
+        data: {
+          edits: [
+            {
+              action: 'sell',
+              symbol: 'AAPL',
+              shares: 10,
+              companyName: 'Apple Inc.',
+              assetType: 'equity',
+              currency: null,
+              yieldPercent: null,
+              costBasis: null,
+              acquiredAt: null,
+              price: 200,
+              date: '2024-03-01',
+              sourceText: 'sold ten Apple at 200 on March 1st',
+            },
+          ],
+        },
+      },
+    ]);
+    const current = [{ symbol: 'AAPL', shares: 30, companyName: 'Apple Inc.' }];
+
+    const result = await requestPortfolioEdits(
+      llm,
+      'sold ten Apple at 200 on March 1st',
+      current
+    );
+    expect(llm.prompts[0]).toContain('- AAPL: 30 (Apple Inc.)');
+
+    const diff = computePortfolioDiff(current, result.data?.edits ?? []);
+    expect(diff.changes[0]).toMatchObject({
+      type: 'update',
+      previousShares: 30,
+      position: { shares: 20 },
+    });
+    expect(diff.transactions[0]).toMatchObject({
+      type: 'sell',
+      date: '2024-03-01',
+      quantity: 10,
+      price: 200,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import type { LlmClient, StructuredRequest, StructuredResult } from './types';
+
+/**
+ * One scripted answer: the object the model "returns", a refusal or an error
+ */
+export type FakeLlmResponse =
+  | { data: unknown }
+  | { refusal: string }
+  | { error: string };
+
+/**
+ * A scripted answer, or a function choosing one from the prompt
+ */
+export type FakeLlmStep =
+  | FakeLlmResponse
+  | ((prompt: string) => FakeLlmResponse);
+
+/**
+ * Fake client that also records every prompt it was sent
+ */
+export interface FakeLlmClient extends LlmClient {
+  prompts: string[];
+}
+
+/**
+ * Scripted stand-in for a language model, for tests and offline development.
+ * Each call consumes the next step; scripted data is checked against the
+ * request's schema like a real answer, and calls past the end of the script
+ * fail.
+ */
+export const createFakeLlmClient = (script: FakeLlmStep[]): FakeLlmClient => {
+  const prompts: string[] = [];
+
+  const generateObject = <T>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResult<T>> => {
+    const step = script[prompts.length];
+    prompts.push(request.prompt);
+
+    if (!step) {
+      return Promise.resolve({ error: 'Fake LLM script exhausted' });
+    }
+
+    const response = typeof step === 'function' ? step(request.prompt) : step;
+    if (!('data' in response)) {
+      return Promise.resolve(response);
+    }
+
+    const parsed = request.schema.safeParse(response.data);
+    return Promise.resolve(
+      parsed.success
+        ? { data: parsed.data }
+        : {
+            error: `Scripted response does not match ${request.schemaName}: ${parsed.error.message}`,
+          }
+    );
+  };
+
+  return {
+    id: 'fake',
+    name: 'Fake LLM',
+    model: 'scripted',
+    isConfigured: () => true,
+    generateObject,
+    prompts,
+  };
+};
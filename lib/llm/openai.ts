@@ -0,0 +1,71 @@
+import { OpenAI } from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import type { LlmClient, StructuredRequest, StructuredResult } from './types';
+
+interface OpenAiClientOptions {
+  id: string;
+  name: string;
+  model: string;
+  apiKey?: string;
+  /** Any OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  baseURL?: string;
+}
+
+/**
+ * Client for the OpenAI chat completions API or a server that speaks it.
+ * Answers use structured outputs, so the server must support JSON schema
+ * response formats (OpenAI, Ollama 0.5+, llama.cpp server).
+ */
+export const createOpenAiClient = (options: OpenAiClientOptions): LlmClient => {
+  let client: OpenAI | null = null;
+
+  // Created on first use: the SDK throws when constructed without a key
+  const getClient = (): OpenAI => {
+    client ??= new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+    return client;
+  };
+
+  const generateObject = async <T>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResult<T>> => {
+    try {
+      const response = await getClient().chat.completions.parse({
+        model: options.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: zodResponseFormat(request.schema, request.schemaName),
+      });
+
+      const message = response.choices[0]?.message;
+
+      if (message?.refusal) {
+        return { refusal: message.refusal };
+      }
+
+      if (!message?.parsed) {
+        return { error: 'No response from AI model' };
+      }
+
+      return { data: message.parsed };
+    } catch (error) {
+      return {
+        error:
+          error instanceof Error
+            ? error.message
+            : `Failed to call ${options.name}`,
+      };
+    }
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    model: options.model,
+    isConfigured: () => Boolean(options.apiKey),
+    generateObject,
+  };
+};
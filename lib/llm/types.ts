@@ -0,0 +1,36 @@
+import type { z } from 'zod';
+
+/**
+ * A prompt whose answer must match a zod schema
+ */
+export interface StructuredRequest<T> {
+  prompt: string;
+  schema: z.ZodType<T>;
+  /** Name the schema is sent under, e.g. 'portfolio' */
+  schemaName: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Outcome of a structured request: exactly one of the fields is set
+ */
+export interface StructuredResult<T> {
+  data?: T;
+  /** The model declined to answer; safe to show to the user */
+  refusal?: string;
+  error?: string;
+}
+
+/**
+ * A language model backend the API routes can prompt for structured data
+ */
+export interface LlmClient {
+  id: string;
+  name: string;
+  model: string;
+  isConfigured: () => boolean;
+  generateObject: <T>(
+    request: StructuredRequest<T>
+  ) => Promise<StructuredResult<T>>;
+}
@@ -3,10 +3,13 @@
 
 import { NewsItem } from '@/data/mockNews';
 import { PortfolioPosition } from '@/lib/storage';
+import { getSymbolKey } from '@/lib/symbols';
+import { isCashPosition } from '@/lib/assets';
 
 export interface PortfolioHolding {
   symbol: string;
   shares: number;
+  /** Average cost per share, when the position's cost basis is known */
   averagePrice?: number;
 }
 
@@ -14,10 +17,14 @@ export interface PortfolioHolding {
  * Converts PortfolioPosition to PortfolioHolding for news filtering
  */
 export function convertPortfolioForNews(portfolio: PortfolioPosition[]): PortfolioHolding[] {
-  return portfolio.map(position => ({
+  // Cash lines have no news
+  return portfolio.filter(position => !isCashPosition(position)).map(position => ({
     symbol: position.symbol,
     shares: position.shares,
-    averagePrice: position.currentPrice
+    averagePrice:
+      position.costBasis !== undefined && position.shares > 0
+        ? position.costBasis / position.shares
+        : undefined
   }));
 }
 
@@ -45,11 +52,12 @@ export function filterNewsForPortfolio(
   }
 
   // Extract symbols from portfolio
-  const portfolioSymbols = new Set(portfolio.map(holding => holding.symbol.toUpperCase()));
+  // Compare canonical tickers so BRK-B news matches a BRK.B holding
+  const portfolioSymbols = new Set(portfolio.map(holding => getSymbolKey(holding.symbol)));
 
   // Filter news items that contain at least one portfolio symbol
   let filteredNews = newsItems.filter(item => 
-    item.relatedSymbols.some(symbol => portfolioSymbols.has(symbol.toUpperCase()))
+    item.relatedSymbols.some(symbol => portfolioSymbols.has(getSymbolKey(symbol)))
   );
 
   // Apply impact filter
@@ -133,11 +141,11 @@ function sortNews(
  */
 function calculateRelevanceScore(newsItem: NewsItem, portfolio: PortfolioHolding[]): number {
   let score = 0;
-  const portfolioMap = new Map(portfolio.map(h => [h.symbol.toUpperCase(), h]));
+  const portfolioMap = new Map(portfolio.map(h => [getSymbolKey(h.symbol), h]));
 
   // Add points for each matching symbol
   for (const symbol of newsItem.relatedSymbols) {
-    const holding = portfolioMap.get(symbol.toUpperCase());
+    const holding = portfolioMap.get(getSymbolKey(symbol));
     if (holding) {
       // Weight by number of shares (more shares = more relevant)
       score += Math.log(holding.shares + 1);
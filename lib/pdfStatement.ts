@@ -0,0 +1,371 @@
+import { getDocumentProxy } from 'unpdf';
+import { inferAssetType } from './assets';
+import {
+  type ParsedPosition,
+  type RejectedPosition,
+  validateParsedPositions,
+} from './portfolioSchema';
+import type { PortfolioPosition } from './storage';
+import { getSymbolInfo } from './symbolSearch';
+
+/**
+ * One line of text in a PDF, numbered from 1 on each page
+ */
+export interface StatementLine {
+  page: number;
+  line: number;
+  text: string;
+}
+
+/**
+ * A holding read from a statement and the line it was read from. `source`
+ * is missing when a model's answer could not be found in the document.
+ */
+export interface StatementRow {
+  position: PortfolioPosition;
+  source?: StatementLine;
+}
+
+export interface StatementParseResult {
+  rows: StatementRow[];
+  rejected: RejectedPosition[];
+  /** Read by rules rather than a model; ask before saving */
+  heuristic?: boolean;
+  pageCount: number;
+}
+
+interface TextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+// Items whose baselines are this close (in points) share a line
+const LINE_TOLERANCE = 2;
+// A gap wider than this (in points) separates table columns
+const COLUMN_GAP = 6;
+
+const SECTION_START =
+  /^(?:your\s+|account\s+|portfolio\s+)?(?:holdings|positions|portfolio\s+detail|securities\s+held|investments)\b/i;
+const SECTION_END =
+  /^(?:account\s+)?(?:activity|transactions?|income\s+summary|realized\s+gains?|disclosures?|important\s+information)\b/i;
+
+const TICKER_IN_PARENS = /\(([A-Z][A-Z0-9.-]{0,9})\)/;
+const TICKER_TOKEN = /^[A-Z][A-Z.]{0,5}$/;
+const QUANTITY_TOKEN = /^\(?-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\)?$/;
+// Nine-character security ids, which would otherwise read as quantities
+const CUSIP_TOKEN = /^(?=.*\d)[0-9A-Z]{8}\d$/;
+const QUANTITY_HEADER = /^(?:quantity|qty|shares|units)\b/i;
+const COLUMN_SEPARATOR = /\s{2,}/;
+const CASH_LINE = /^(?:cash|core\s+position|money\s+market|sweep)\b/i;
+const DOLLAR_AMOUNT = /\$\s*((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)/;
+const WHITESPACE = /\s+/g;
+
+/**
+ * Rebuild one page's lines from positioned text items: top to bottom, then
+ * left to right, with a double space between columns
+ */
+const groupPageLines = (items: TextItem[], page: number): StatementLine[] => {
+  const rows: { y: number; items: TextItem[] }[] = [];
+
+  for (const item of items) {
+    if (!item.str.trim()) {
+      continue;
+    }
+    const y = item.transform[5];
+    const row = rows.find(
+      (candidate) => Math.abs(candidate.y - y) <= LINE_TOLERANCE
+    );
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y, items: [item] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map((row, index) => {
+      const sorted = row.items.sort((a, b) => a.transform[4] - b.transform[4]);
+      let text = '';
+      let end = Number.NEGATIVE_INFINITY;
+      for (const item of sorted) {
+        const x = item.transform[4];
+        if (text) {
+          text += x - end > COLUMN_GAP ? '  ' : ' ';
+        }
+        text += item.str.trim();
+        end = x + item.width;
+      }
+      return { page, line: index + 1, text };
+    });
+};
+
+/**
+ * Extract the text lines of a PDF locally, keeping page and line numbers so
+ * each holding can be traced back to the document. Scanned statements
+ * without a text layer yield no lines.
+ */
+export async function extractStatementLines(
+  data: Uint8Array
+): Promise<{ lines: StatementLine[]; pageCount: number }> {
+  const pdf = await getDocumentProxy(data);
+  const pageNumbers = Array.from(
+    { length: pdf.numPages },
+    (_, index) => index + 1
+  );
+  const contents = await Promise.all(
+    pageNumbers.map(async (pageNumber) => {
+      const page = await pdf.getPage(pageNumber);
+      return page.getTextContent();
+    })
+  );
+
+  const lines = contents.flatMap((content, index) => {
+    // Marked-content items carry structure, not text
+    const items = content.items.flatMap((item) =>
+      'str' in item ? [item] : []
+    );
+    return groupPageLines(items, pageNumbers[index]);
+  });
+
+  return { lines, pageCount: pdf.numPages };
+}
+
+/**
+ * Lines from the first holdings heading ("Holdings", "Your Positions") to
+ * the next section such as activity or disclosures. Statements without a
+ * recognisable heading are used whole.
+ */
+export const findHoldingsSection = (
+  lines: StatementLine[]
+): StatementLine[] => {
+  const start = lines.findIndex((line) => SECTION_START.test(line.text));
+  if (start < 0) {
+    return lines;
+  }
+
+  const end = lines.findIndex(
+    (line, index) => index > start && SECTION_END.test(line.text)
+  );
+  return lines.slice(start + 1, end < 0 ? undefined : end);
+};
+
+const findTicker = (tokens: string[], text: string): string | null => {
+  const inParens = TICKER_IN_PARENS.exec(text)?.[1];
+  if (inParens) {
+    return inParens;
+  }
+  return (
+    tokens.find((token) => TICKER_TOKEN.test(token) && getSymbolInfo(token)) ??
+    null
+  );
+};
+
+/**
+ * Where the quantity sits in a table, from a header row such as
+ * "Symbol  Description  Quantity  Price  Value"
+ */
+interface QuantityColumn {
+  index: number;
+  columnCount: number;
+}
+
+const findQuantityColumn = (text: string): QuantityColumn | null => {
+  const columns = text.split(COLUMN_SEPARATOR);
+  const index = columns.findIndex((column) => QUANTITY_HEADER.test(column));
+  return index < 0 ? null : { index, columnCount: columns.length };
+};
+
+// Rows laid out like the header have the quantity under its heading
+const readQuantityColumn = (
+  text: string,
+  column: QuantityColumn | undefined
+): string | null => {
+  const columns = text.split(COLUMN_SEPARATOR);
+  if (!column || columns.length !== column.columnCount) {
+    return null;
+  }
+  const cell = columns[column.index].trim();
+  return QUANTITY_TOKEN.test(cell) ? cell : null;
+};
+
+const parseNumber = (token: string): number => {
+  return Number.parseFloat(token.replace(/[(),-]/g, ''));
+};
+
+const countDecimals = (token: string): number => {
+  return token.split('.')[1]?.replace(')', '').length ?? 0;
+};
+
+/**
+ * The quantity among the numbers after the ticker, skipping security ids
+ * and amounts after a dollar sign. Usually the first; but when two of the
+ * numbers multiply to a third (quantity × price = value), the factor not
+ * written with cents is the quantity.
+ */
+const findQuantity = (tokens: string[]): string | null => {
+  const numbers = tokens.filter(
+    (token, index) =>
+      QUANTITY_TOKEN.test(token) &&
+      !CUSIP_TOKEN.test(token) &&
+      tokens[index - 1] !== '$'
+  );
+  const values = numbers.map(parseNumber);
+
+  for (let i = 0; i < numbers.length; i++) {
+    for (let j = i + 1; j < numbers.length; j++) {
+      const product = values[i] * values[j];
+      const isValue = values.some(
+        (value, k) =>
+          k !== i &&
+          k !== j &&
+          Math.abs(value - product) <= Math.max(0.01, value * 0.005)
+      );
+      if (isValue) {
+        return countDecimals(numbers[i]) === 2 &&
+          countDecimals(numbers[j]) !== 2
+          ? numbers[j]
+          : numbers[i];
+      }
+    }
+  }
+  return numbers[0] ?? null;
+};
+
+/**
+ * Read a statement table row without a model: a known ticker (bare or in
+ * parentheses) and its quantity, from under the quantity heading when the
+ * table has one, else from the numbers after the ticker (see findQuantity).
+ */
+const parseStatementLine = (
+  line: StatementLine,
+  quantityColumn?: QuantityColumn
+): ParsedPosition | null => {
+  const text = line.text;
+
+  if (CASH_LINE.test(text)) {
+    const amount = DOLLAR_AMOUNT.exec(text)?.[1];
+    return amount
+      ? {
+          symbol: 'CASH',
+          shares: Number.parseFloat(amount.replace(/,/g, '')),
+          companyName: 'Cash',
+          assetType: 'cash',
+          currency: null,
+          yieldPercent: null,
+          costBasis: null,
+          acquiredAt: null,
+          sourceText: text,
+        }
+      : null;
+  }
+
+  const tokens = text.split(WHITESPACE);
+  const ticker = findTicker(tokens, text);
+  if (!ticker) {
+    return null;
+  }
+
+  const tickerIndex = tokens.findIndex((token) => token.includes(ticker));
+  const quantity =
+    readQuantityColumn(text, quantityColumn) ??
+    findQuantity(tokens.slice(tickerIndex + 1));
+  if (!quantity) {
+    return null;
+  }
+
+  const negative = quantity.startsWith('(') || quantity.startsWith('-');
+  const shares = parseNumber(quantity);
+  return {
+    symbol: ticker,
+    shares: negative ? -shares : shares,
+    companyName: getSymbolInfo(ticker)?.name ?? ticker,
+    assetType: inferAssetType(ticker),
+    currency: null,
+    yieldPercent: null,
+    costBasis: null,
+    acquiredAt: null,
+    sourceText: text,
+  };
+};
+
+/**
+ * Holdings found by rules in the holdings section, each with its line. A
+ * header row naming a quantity column applies to the rows after it.
+ */
+export const parseStatementLines = (
+  lines: StatementLine[]
+): { item: ParsedPosition; source?: StatementLine }[] => {
+  let quantityColumn: QuantityColumn | undefined;
+
+  return lines.flatMap((line) => {
+    const header = findQuantityColumn(line.text);
+    if (header) {
+      quantityColumn = header;
+      return [];
+    }
+
+    const item = parseStatementLine(line, quantityColumn);
+    return item ? [{ item, source: line }] : [];
+  });
+};
+
+const normalizeText = (value: string): string => {
+  return value.toLowerCase().replace(WHITESPACE, ' ').trim();
+};
+
+/**
+ * The line a model's holding came from: the line containing its source
+ * text, else the first line naming its ticker
+ */
+export const locateStatementLine = (
+  lines: StatementLine[],
+  item: ParsedPosition
+): StatementLine | undefined => {
+  const sourceText = normalizeText(item.sourceText);
+  const bySource = sourceText
+    ? lines.find((line) => normalizeText(line.text).includes(sourceText))
+    : undefined;
+  if (bySource) {
+    return bySource;
+  }
+
+  const symbol = item.symbol.trim().toUpperCase();
+  return lines.find((line) =>
+    line.text
+      .split(WHITESPACE)
+      .some((token) => token.replace(/[()]/g, '') === symbol)
+  );
+};
+
+/**
+ * Validate each holding, keeping its line for valid ones and naming the
+ * page and line of each one that was dropped
+ */
+export const toStatementRows = (
+  items: { item: ParsedPosition; source?: StatementLine }[]
+): Pick<StatementParseResult, 'rows' | 'rejected'> => {
+  const rows: StatementRow[] = [];
+  const rejected: RejectedPosition[] = [];
+
+  for (const { item, source } of items) {
+    const result = validateParsedPositions([item]);
+    const [position] = result.positions;
+    if (position) {
+      rows.push({ position, source });
+      continue;
+    }
+
+    for (const rejection of result.rejected) {
+      rejected.push({
+        ...rejection,
+        input: source
+          ? `Page ${source.page}, line ${source.line}: ${rejection.input}`
+          : rejection.input,
+      });
+    }
+  }
+
+  return { rows, rejected };
+};
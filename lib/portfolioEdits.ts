@@ -0,0 +1,474 @@
+import {
+  createTransaction,
+  type Transaction,
+  type TransactionInput,
+} from './ledger';
+import { parsePortfolioWithRules } from './portfolioRules';
+import {
+  type EditAction,
+  type ParsedEdit,
+  type RejectedPosition,
+  type SaleTerms,
+  validateParsedPositions,
+  validateSaleTerms,
+} from './portfolioSchema';
+import {
+  combinePurchases,
+  type PortfolioPosition,
+  roundQuantity,
+  scaleCostBasis,
+} from './storage';
+import { getToday } from './utils';
+
+export type PortfolioChangeType = 'add' | 'update' | 'remove';
+
+/**
+ * One holding's net change after all edits to it were applied
+ */
+export interface PortfolioChange {
+  type: PortfolioChangeType;
+  /** The holding after the change; for removals, as it was */
+  position: PortfolioPosition;
+  /** Quantity before the change; 0 for additions */
+  previousShares: number;
+  /** The words of the instruction behind the change */
+  sourceText: string;
+}
+
+export interface PortfolioEditResult {
+  changes: PortfolioChange[];
+  rejected: RejectedPosition[];
+  /** Ledger entries that make the changes when recorded */
+  transactions: Transaction[];
+  /** Matched by rules rather than read by a model; ask before applying */
+  heuristic?: boolean;
+}
+
+export interface ParsedEditsResult {
+  edits: ParsedEdit[];
+  rejected: RejectedPosition[];
+  heuristic: boolean;
+}
+
+// Checked in order: "sold all" is a removal, not a sale
+const EDIT_VERBS: [RegExp, EditAction][] = [
+  [/^(?:sold|sell)\s+(?:all|everything|out)(?:\s+(?:of|my))*\s+/i, 'remove'],
+  [/^(?:bought|buy|add(?:ed)?|purchased?)\s+/i, 'buy'],
+  [/^(?:sold|sell|trim(?:med)?|reduced?)\s+/i, 'sell'],
+  [/^(?:remove[d]?|drop(?:ped)?|delete[d]?|closed?|exit(?:ed)?)\s+/i, 'remove'],
+  [/^(?:set|now\s+(?:have|own|hold)|change[d]?|update[d]?)\s+/i, 'set'],
+];
+
+const VERB_WORDS =
+  'sold|sell|bought|buy|add|added|purchase|purchased|trim|trimmed|reduce|reduced|remove|removed|drop|dropped|delete|deleted|close|closed|exit|exited|set|change|changed|update|updated';
+
+// New lines, semicolons, commas (not the one in 1,000), and "and" or
+// "then" when a new instruction follows: "sold 20 AAPL and added 10 NVDA"
+const EDIT_SEPARATOR = new RegExp(
+  String.raw`[\n;]|,(?!\d{3}\b)|\s+(?:and|then)\s+(?=(?:${VERB_WORDS})\b)`,
+  'i'
+);
+const LEAD_IN = /^(?:(?:i|we)\s+(?:also\s+|just\s+)?|also\s+|then\s+)/i;
+const POSSESSIVE = /^(?:my|the|of)\s+/i;
+// "set AAPL to 50", "change MSFT to 30 shares"
+const SET_TO = /\s+to\s+(?=[\d.])/i;
+const HAS_QUANTITY =
+  /\d|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|twenty|fifty|hundred)\b/i;
+const TRAILING_PUNCTUATION = /[.!?]+$/;
+
+const findAction = (
+  segment: string
+): { action: EditAction; rest: string } | null => {
+  for (const [pattern, action] of EDIT_VERBS) {
+    const match = pattern.exec(segment);
+    if (match) {
+      return { action, rest: segment.slice(match[0].length) };
+    }
+  }
+  return null;
+};
+
+/**
+ * An edit from a holding read by the portfolio rules. For sales, the price
+ * and date those rules read as a purchase ("sold 10 AAPL at $200 on
+ * 2024-03-01") are the sale's.
+ */
+const toParsedEdit = (
+  position: PortfolioPosition,
+  action: EditAction,
+  sourceText: string
+): ParsedEdit => {
+  const isSale = action === 'sell' || action === 'remove';
+  const costBasis = position.costBasis ?? null;
+  const acquiredAt = position.acquiredAt ?? null;
+  return {
+    action,
+    symbol: position.symbol,
+    shares: action === 'remove' ? 0 : position.shares,
+    companyName: position.companyName,
+    assetType: position.assetType ?? 'equity',
+    currency: position.currency ?? null,
+    yieldPercent: position.yieldPercent ?? null,
+    costBasis: isSale ? null : costBasis,
+    acquiredAt: isSale ? null : acquiredAt,
+    price: isSale && costBasis !== null ? costBasis / position.shares : null,
+    date: isSale ? acquiredAt : null,
+    sourceText,
+  };
+};
+
+/**
+ * Read edit instructions without a language model: a verb ("sold", "add",
+ * "set", "remove") followed by holdings in the same phrasings the portfolio
+ * rules understand. A segment without a verb repeats the previous one, so
+ * "sold 20 AAPL, 10 MSFT" sells both. The result is `heuristic` unless
+ * every holding was matched exactly.
+ */
+export const parseEditsWithRules = (text: string): ParsedEditsResult => {
+  const edits: ParsedEdit[] = [];
+  const rejected: RejectedPosition[] = [];
+  let previous: EditAction | null = null;
+  let exact = true;
+
+  for (const piece of text.split(EDIT_SEPARATOR)) {
+    const segment = piece
+      .trim()
+      .replace(LEAD_IN, '')
+      .replace(TRAILING_PUNCTUATION, '');
+    if (!segment) {
+      continue;
+    }
+
+    const found = findAction(segment);
+    const action: EditAction | null = found?.action ?? previous;
+    if (!action) {
+      rejected.push({ input: segment, reason: 'no buy, sell, set or remove' });
+      exact = false;
+      continue;
+    }
+    previous = action;
+
+    const rest = (found?.rest ?? segment)
+      .replace(POSSESSIVE, '')
+      .replace(SET_TO, ' ');
+    // "sold some Tesla" could be any amount; "sold all" says so
+    if (action === 'sell' && !HAS_QUANTITY.test(rest)) {
+      rejected.push({ input: segment, reason: 'missing quantity sold' });
+      exact = false;
+      continue;
+    }
+
+    // Removals carry no quantity; a placeholder lets a typed ticker count
+    // as an exact match
+    const parsed = parsePortfolioWithRules(
+      action === 'remove' ? `1 ${rest}` : rest
+    );
+    edits.push(
+      ...parsed.positions.map((position) =>
+        toParsedEdit(position, action, segment)
+      )
+    );
+    rejected.push(
+      ...parsed.rejected.map((item) => ({ ...item, input: segment }))
+    );
+    exact &&= Boolean(found) && !parsed.heuristic;
+  }
+
+  return { edits, rejected, heuristic: !exact || edits.length === 0 };
+};
+
+const validateEdit = (
+  edit: ParsedEdit
+):
+  | { position: PortfolioPosition; sale: SaleTerms }
+  | { rejection: RejectedPosition } => {
+  const { action, price, date, ...item } = edit;
+  const sale = validateSaleTerms({ price, date });
+  if (typeof sale === 'string') {
+    return {
+      rejection: { input: edit.sourceText.trim() || edit.symbol, reason: sale },
+    };
+  }
+
+  // Removals only need a symbol
+  const { positions, rejected } = validateParsedPositions([
+    action === 'remove' ? { ...item, shares: 1 } : item,
+  ]);
+  return positions[0]
+    ? { position: positions[0], sale }
+    : { rejection: rejected[0] };
+};
+
+const applyAction = (
+  action: EditAction,
+  held: number,
+  shares: number
+): number => {
+  switch (action) {
+    case 'buy':
+      return roundQuantity(held + shares);
+    case 'sell':
+      return roundQuantity(held - shares);
+    case 'set':
+      return shares;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Cost basis and purchase date after an edit: purchases add to them, while
+ * sales keep the average cost of what is left
+ */
+const updatePurchases = (
+  action: EditAction,
+  held: PortfolioPosition,
+  position: PortfolioPosition,
+  shares: number
+): Pick<PortfolioPosition, 'costBasis' | 'acquiredAt'> => {
+  if (action === 'buy') {
+    return combinePurchases(held, position);
+  }
+
+  const isSet = action === 'set';
+  return {
+    costBasis:
+      isSet && position.costBasis !== undefined
+        ? position.costBasis
+        : scaleCostBasis(held, shares),
+    acquiredAt: (isSet ? position.acquiredAt : undefined) ?? held.acquiredAt,
+  };
+};
+
+/**
+ * Why an edit cannot be applied to what is held, if it cannot
+ */
+const findEditProblem = (
+  action: EditAction,
+  position: PortfolioPosition,
+  held: PortfolioPosition | undefined
+): string | null => {
+  if (!held && (action === 'sell' || action === 'remove')) {
+    return `${position.symbol} not in portfolio`;
+  }
+  if (held && action === 'sell' && position.shares > held.shares) {
+    return `more than the ${held.shares} held`;
+  }
+  return null;
+};
+
+const toChange = (
+  before: PortfolioPosition | undefined,
+  after: PortfolioPosition | undefined,
+  sourceText: string
+): PortfolioChange | null => {
+  if (after && !before) {
+    return { type: 'add', position: after, previousShares: 0, sourceText };
+  }
+  if (before && !after) {
+    return {
+      type: 'remove',
+      position: before,
+      previousShares: before.shares,
+      sourceText,
+    };
+  }
+  if (
+    before &&
+    after &&
+    (after.shares !== before.shares ||
+      after.costBasis !== before.costBasis ||
+      after.acquiredAt !== before.acquiredAt)
+  ) {
+    return {
+      type: 'update',
+      position: after,
+      previousShares: before.shares,
+      sourceText,
+    };
+  }
+  return null;
+};
+
+type HoldingFields = Pick<
+  Transaction,
+  'symbol' | 'companyName' | 'assetType' | 'currency'
+>;
+
+const averagePrice = ({
+  costBasis,
+  shares,
+}: PortfolioPosition): number | undefined => {
+  return costBasis === undefined ? undefined : costBasis / shares;
+};
+
+/**
+ * Ledger entries for a "set": the difference bought at the average price
+ * held or sold at the stated sale price, or, when a cost or purchase date is
+ * stated, the holding moved out and back in as stated
+ */
+const setTransactions = (
+  held: PortfolioPosition,
+  position: PortfolioPosition,
+  sale: SaleTerms,
+  holding: HoldingFields,
+  today: string
+): TransactionInput[] => {
+  if (position.costBasis !== undefined || position.acquiredAt) {
+    return [
+      {
+        ...holding,
+        type: 'transfer',
+        direction: 'out',
+        date: today,
+        quantity: held.shares,
+      },
+      {
+        ...holding,
+        type: 'transfer',
+        direction: 'in',
+        date: today,
+        quantity: position.shares,
+        costBasis: position.costBasis ?? scaleCostBasis(held, position.shares),
+        acquiredAt: position.acquiredAt ?? held.acquiredAt,
+      },
+    ];
+  }
+
+  const difference = roundQuantity(position.shares - held.shares);
+  if (difference > 0) {
+    return [
+      {
+        ...holding,
+        type: 'buy',
+        date: today,
+        quantity: difference,
+        price: averagePrice(held),
+      },
+    ];
+  }
+  return difference < 0
+    ? [
+        {
+          ...holding,
+          type: 'sell',
+          date: sale.date ?? today,
+          quantity: -difference,
+          price: sale.price,
+        },
+      ]
+    : [];
+};
+
+/**
+ * The ledger entries behind one edit. Trades are dated and priced when
+ * stated; otherwise they are dated today and sales carry no price.
+ */
+const toTransactions = (
+  action: EditAction,
+  held: PortfolioPosition | undefined,
+  position: PortfolioPosition,
+  sale: SaleTerms
+): TransactionInput[] => {
+  const today = getToday();
+  const holding: HoldingFields = {
+    symbol: position.symbol,
+    companyName: position.companyName,
+    assetType: position.assetType,
+    currency: position.currency,
+  };
+
+  if (action === 'buy' || (action === 'set' && !held)) {
+    return [
+      {
+        ...holding,
+        type: 'buy',
+        date: position.acquiredAt ?? today,
+        quantity: position.shares,
+        price: averagePrice(position),
+      },
+    ];
+  }
+  if (action === 'sell' || action === 'remove') {
+    return [
+      {
+        ...holding,
+        type: 'sell',
+        date: sale.date ?? today,
+        quantity: action === 'sell' ? position.shares : (held?.shares ?? 0),
+        price: sale.price,
+      },
+    ];
+  }
+  return held ? setTransactions(held, position, sale, holding, today) : [];
+};
+
+/**
+ * Work out what edits do to a portfolio. Edits are applied in order, so
+ * "bought 10 AAPL, sold 5 AAPL" nets to one update. Selling a holding that
+ * is not held, or more of it than is held, is rejected rather than guessed.
+ */
+export const computePortfolioDiff = (
+  current: PortfolioPosition[],
+  edits: ParsedEdit[]
+): PortfolioEditResult => {
+  const holdings = new Map(
+    current.map((position) => [position.symbol, position])
+  );
+  const sources = new Map<string, string[]>();
+  const rejected: RejectedPosition[] = [];
+  const transactions: Transaction[] = [];
+
+  for (const edit of edits) {
+    const validated = validateEdit(edit);
+    if ('rejection' in validated) {
+      rejected.push(validated.rejection);
+      continue;
+    }
+
+    const { position, sale } = validated;
+    const input = edit.sourceText.trim() || position.symbol;
+    const held = holdings.get(position.symbol);
+    const problem = findEditProblem(edit.action, position, held);
+    if (problem) {
+      rejected.push({ input, reason: problem });
+      continue;
+    }
+
+    transactions.push(
+      ...toTransactions(edit.action, held, position, sale).map(
+        createTransaction
+      )
+    );
+    const shares = applyAction(edit.action, held?.shares ?? 0, position.shares);
+    if (shares > 0) {
+      holdings.set(
+        position.symbol,
+        held
+          ? {
+              ...held,
+              ...updatePurchases(edit.action, held, position, shares),
+              shares,
+            }
+          : position
+      );
+    } else {
+      holdings.delete(position.symbol);
+    }
+    sources.set(position.symbol, [
+      ...(sources.get(position.symbol) ?? []),
+      input,
+    ]);
+  }
+
+  const changes = Array.from(sources).flatMap(([symbol, inputs]) => {
+    const change = toChange(
+      current.find((position) => position.symbol === symbol),
+      holdings.get(symbol),
+      Array.from(new Set(inputs)).join('; ')
+    );
+    return change ? [change] : [];
+  });
+
+  return { changes, rejected, transactions };
+};
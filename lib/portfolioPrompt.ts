@@ -0,0 +1,141 @@
+import type { LlmClient, StructuredResult } from './llm/types';
+import {
+  type ParsedEdits,
+  type ParsedPortfolio,
+  parsedEditsSchema,
+  parsedPortfolioSchema,
+} from './portfolioSchema';
+import type { PortfolioPosition } from './storage';
+
+/**
+ * Where portfolio text came from: typed by the user, or extracted from the
+ * holdings section of a statement
+ */
+export type PortfolioTextSource = 'description' | 'statement';
+
+const SOURCE_DESCRIPTIONS: Record<
+  PortfolioTextSource,
+  { from: string; noun: string }
+> = {
+  description: {
+    from: 'natural language descriptions',
+    noun: 'portfolio description',
+  },
+  statement: {
+    from: 'brokerage statements',
+    noun: 'holdings section of a brokerage statement, one table row per line,',
+  },
+};
+
+// Statement tables list price, market value and cost next to the quantity
+const STATEMENT_RULES = `
+15. Read the quantity from the quantity or shares column, never from price, market value or cost columns
+16. Read costBasis from a cost basis or total cost column when there is one
+17. Skip totals, subtotals and column headings, and copy each holding's whole line into sourceText`;
+
+/**
+ * Prompt asking a model to extract holdings from portfolio text
+ */
+export const buildPortfolioPrompt = (
+  text: string,
+  source: PortfolioTextSource = 'description'
+): string => {
+  return `
+You are a financial assistant that extracts investment portfolio information from ${SOURCE_DESCRIPTIONS[source].from}.
+
+Parse this ${SOURCE_DESCRIPTIONS[source].noun} and extract positions in stocks, ETFs, mutual funds, crypto and cash:
+"${text}"
+
+Rules:
+1. Recognize ANY valid publicly traded stock symbols: US tickers (1-5 uppercase letters), share classes with a dot (BRK.B, BF.B) and non-US listings with their exchange suffix (SHOP.TO, HSBA.L, 7203.T, 0700.HK)
+2. Use your knowledge of companies to map company names to their correct stock symbols
+3. If shares aren't specified, use 1 as default
+4. Use proper official company names (e.g., "Apple Inc." not "apple")
+5. If no holdings are found, return an empty positions list
+6. Be comprehensive - recognize major companies like Apple (AAPL), Microsoft (MSFT), Google/Alphabet (GOOGL), Tesla (TSLA), Amazon (AMZN), Netflix (NFLX), Meta/Facebook (META), Nvidia (NVDA), Disney (DIS), Boeing (BA), Coca-Cola (KO), McDonald's (MCD), Walmart (WMT), JPMorgan Chase (JPM), Berkshire Hathaway (BRK.B), Johnson & Johnson (JNJ), Procter & Gamble (PG), Visa (V), Mastercard (MA), Home Depot (HD), and thousands of others
+7. Handle variations in company names (e.g., "Facebook" or "Meta" both map to META)
+8. Set assetType to "equity" for stocks, "etf" for exchange-traded funds (VTI, SPY, QQQ), "mutualFund" for mutual funds (VFIAX, FXAIX) and "crypto" for cryptocurrencies
+9. For crypto, use the coin's ticker as the symbol (BTC, ETH, SOL) and its name as companyName ("Bitcoin")
+10. Quantities may be fractional (0.5 BTC, 12.75 shares of VTI); keep them exactly as stated
+11. Cash and money-market funds use assetType "cash" with shares set to the balance ("$12k in cash" → 12000). Use the symbol "CASH" and the ISO currency code (default "USD") for plain cash, and the fund ticker (SPAXX, VMFXX) for money-market funds
+12. Only set yieldPercent when an interest rate or yield is stated (e.g. "earning 4.5%" → 4.5)
+13. When a purchase price or cost is stated, set costBasis to the total paid ("100 AAPL at $150" → 15000), and when a purchase date is stated, set acquiredAt as YYYY-MM-DD (the first day of the month or year when only those are given); otherwise leave both null
+14. Include every holding mentioned, even one whose symbol you are unsure of, and copy the words it came from into sourceText so the user can be told about holdings that could not be used${source === 'statement' ? STATEMENT_RULES : ''}
+    `.trim();
+};
+
+/**
+ * Ask a model for the holdings in portfolio text, held to the portfolio
+ * schema. Values are not validated yet.
+ */
+export const requestParsedPortfolio = (
+  llm: LlmClient,
+  text: string,
+  source: PortfolioTextSource = 'description'
+): Promise<StructuredResult<ParsedPortfolio>> => {
+  return llm.generateObject({
+    prompt: buildPortfolioPrompt(text, source),
+    schema: parsedPortfolioSchema,
+    schemaName: 'portfolio',
+    temperature: 0.1,
+    // Statements can list dozens of holdings
+    maxTokens: source === 'statement' ? 4000 : 1000,
+  });
+};
+
+/**
+ * Prompt asking a model to turn an instruction ("sold 20 AAPL, add 10
+ * NVDA") into edits against the current holdings
+ */
+export const buildEditPrompt = (
+  instruction: string,
+  current: PortfolioPosition[]
+): string => {
+  const holdings =
+    current
+      .map(
+        (position) =>
+          `- ${position.symbol}: ${position.shares} (${position.companyName})`
+      )
+      .join('\n') || '(none)';
+
+  return `
+You are a financial assistant that updates an investment portfolio from an instruction.
+
+Current holdings:
+${holdings}
+
+Apply this instruction:
+"${instruction}"
+
+Rules:
+1. Return one edit per holding the instruction mentions, in the order mentioned
+2. Use "buy" for purchases and additions, "sell" for partial sales, "set" when the instruction states the new quantity, and "remove" when a holding is sold entirely or dropped
+3. shares is the quantity bought, sold or set to, never the resulting total; use 0 for "remove"
+4. When the instruction refers to a current holding, use its symbol exactly as listed above
+5. For new holdings, use US tickers, exchange suffixes for non-US listings (SHOP.TO, HSBA.L), coin tickers for crypto (BTC) and "CASH" with an ISO currency code for plain cash
+6. Set assetType to "equity", "etf", "mutualFund", "crypto" or "cash", and use proper official company names
+7. Only set currency for cash and yieldPercent when a yield is stated; otherwise null
+8. For "buy" and "set", set costBasis to the total paid for the shares in that edit when a price or cost is stated, and acquiredAt (YYYY-MM-DD) when a purchase date is stated; otherwise leave both null
+9. For "sell", "remove" and a "set" that lowers the quantity, set price to the price per share received and date (YYYY-MM-DD) to the day of the sale when stated, and leave costBasis and acquiredAt null; otherwise leave price and date null
+10. Include every instruction, even one you are unsure of, and copy the words each edit came from into sourceText
+    `.trim();
+};
+
+/**
+ * Ask a model for the edits an instruction makes to the current holdings.
+ * Values are not validated yet.
+ */
+export const requestPortfolioEdits = (
+  llm: LlmClient,
+  instruction: string,
+  current: PortfolioPosition[]
+): Promise<StructuredResult<ParsedEdits>> => {
+  return llm.generateObject({
+    prompt: buildEditPrompt(instruction, current),
+    schema: parsedEditsSchema,
+    schemaName: 'portfolio_edits',
+    temperature: 0.1,
+    maxTokens: 1000,
+  });
+};
@@ -0,0 +1,440 @@
+import { symbolAliases } from '@/data/symbols';
+import { type AssetType, getSecurityAssetType, inferAssetType } from './assets';
+import {
+  type ParsedPosition,
+  type PortfolioParseResult,
+  type RejectedPosition,
+  validateParsedPositions,
+} from './portfolioSchema';
+import {
+  getSymbolInfo,
+  MATCH_SCORES,
+  normalizeName,
+  searchSymbols,
+} from './symbolSearch';
+import { isValidSymbol, normalizeSymbol } from './symbols';
+import { parseDateInput } from './utils';
+
+interface Holding {
+  symbol: string;
+  companyName: string;
+  assetType: AssetType;
+  currency: string | null;
+  /** Written as a ticker or plain cash, so no name matching was involved */
+  exact: boolean;
+}
+
+/**
+ * What was paid for a holding and when, if the description says
+ */
+interface Purchase {
+  price?: number;
+  total?: number;
+  acquiredAt?: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twenty: 20,
+  fifty: 50,
+  hundred: 100,
+};
+
+const CURRENCY_SIGNS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+const NUMBER = String.raw`(?:(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|\.\d+|(?:${Object.keys(NUMBER_WORDS).join('|')})(?=\s))`;
+const UNIT = '(?:shares?|units?|coins?|stock)';
+
+// "$12k in cash", "5000 EUR cash", "£2,500 in savings"
+const CASH_PATTERN = new RegExp(
+  String.raw`^(?<sign>[$€£])?\s*(?<quantity>${NUMBER})\s*(?<suffix>k|m)?\s*(?<code>[a-z]{3})?\s+(?:(?:in|of)\s+)?(?:cash|savings)$`,
+  'i'
+);
+
+// Tried in order until one yields a known holding: "3M 100" is not 3 of "M 100"
+const HOLDING_PATTERNS = [
+  // "100 AAPL", "50 shares of Microsoft", "100 Apple shares", "0.5 BTC"
+  new RegExp(
+    String.raw`^(?<quantity>${NUMBER})\s*(?:x\s+)?(?:${UNIT}\s+)?(?:(?:of|in)\s+)?(?<name>.+?)(?:\s+${UNIT})?$`,
+    'i'
+  ),
+  // "TSLA x 25", "AAPL: 100", "Apple 100 shares"
+  new RegExp(
+    String.raw`^(?<name>.+?)\s*(?:[x×:=@-]|\s)\s*(?<quantity>${NUMBER})(?:\s+${UNIT})?$`,
+    'i'
+  ),
+  // "some Google", "a few shares of Tesla", "Apple stock"
+  new RegExp(
+    String.raw`^(?:(?:some|a\s+few|a\s+couple(?:\s+of)?|a\s+bit\s+of|an?)\s+)?(?:${UNIT}\s+(?:of|in)\s+)?(?<name>.+?)(?:\s+${UNIT})?$`,
+    'i'
+  ),
+];
+
+const AMOUNT = String.raw`(?<sign>[$€£])?\s*(?<amount>(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*(?<suffix>k)?`;
+const DATE = String.raw`\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{2,4}|[a-z]{3,9}\.?\s+\d{4}|(?:19|20)\d{2}`;
+
+// "100 AAPL at $150", "50 MSFT @ 300 a share"
+const PURCHASE_PRICE = new RegExp(
+  String.raw`\s+(?<keyword>@|at)\s*${AMOUNT}(?:\s+(?:each|apiece|a\s+share|per\s+share))?$`,
+  'i'
+);
+// "10 NVDA for $1,200"
+const PURCHASE_TOTAL = new RegExp(
+  String.raw`\s+for\s+${AMOUNT}(?:\s+(?:in\s+)?total)?$`,
+  'i'
+);
+// "100 AAPL since 2019", "bought on 3/15/2021", "in March 2020"
+const PURCHASE_DATE = new RegExp(
+  String.raw`\s+(?:(?:bought|purchased|acquired)(?:\s+(?:on|in))?|on|in|since)\s+(?<date>${DATE})$`,
+  'i'
+);
+const LEADING_QUANTITY = new RegExp(String.raw`^${NUMBER}\s`, 'i');
+
+// New lines, semicolons and commas, but not the comma in 1,000
+const SEGMENT_SEPARATOR = /[\n;]|,(?!\d{3}\b)/;
+const CONJUNCTION = /\s+(?:and|plus|&)\s+/i;
+// Where holdings written one after another ("5 GOOG 10 AMZN", "AAPL 100
+// MSFT 50") may divide: before a quantity, or after a quantity and its unit
+const BEFORE_QUANTITY = new RegExp(String.raw`\s+(?=${NUMBER}\s)`, 'i');
+const AFTER_QUANTITY = new RegExp(
+  String.raw`(?<=\s${NUMBER}(?:\s+${UNIT})?)\s+(?!${UNIT}\b)`,
+  'i'
+);
+const LIST_MARKER = /^(?:[-*•]|\d+[.)])\s+/;
+const LEAD_IN =
+  /^(?:(?:i|we)\s+(?:also\s+)?(?:have|own|hold|bought|got)|i've\s+got|my\s+(?:portfolio|holdings)(?:\s+(?:is|are))?:?|also)\s+/i;
+const APPROXIMATELY = /^(?:about|around|roughly|approximately|~)\s*/i;
+const TRAILING_PUNCTUATION = /[.!?]+$/;
+const CASH_NAME = /^(?:([a-z]{3}) )?(?:cash|savings)$/;
+
+// Tickers only count as exact when typed in capitals: "MU" but not "mu"
+const TYPED_TICKER = /^[A-Z0-9][A-Z0-9.\-/]*$/;
+
+const parseQuantity = (value: string): number => {
+  return (
+    NUMBER_WORDS[value.toLowerCase()] ??
+    Number.parseFloat(value.replace(/,/g, ''))
+  );
+};
+
+const resolveTicker = (ticker: string): Holding => {
+  const symbol = normalizeSymbol(ticker) ?? ticker;
+  // A bare coin ticker such as BTC is listed as its USD pair
+  const info = getSymbolInfo(symbol) ?? getSymbolInfo(`${symbol}-USD`);
+  return {
+    symbol: info?.symbol ?? symbol,
+    companyName: info?.name ?? symbol,
+    assetType: info ? getSecurityAssetType(info.type) : inferAssetType(symbol),
+    currency: null,
+    exact: true,
+  };
+};
+
+/**
+ * Look up a company name, everyday names first. Fuzzy matches weaker than
+ * a word-level typo are not trusted.
+ */
+const resolveCompanyName = (name: string, words: string): Holding | null => {
+  const alias = symbolAliases[words];
+  const match = alias
+    ? getSymbolInfo(alias)
+    : searchSymbols(name, 1).find(
+        ({ score }) => score >= MATCH_SCORES.nameWordTypo
+      );
+  if (!match) {
+    return null;
+  }
+
+  return {
+    symbol: match.symbol,
+    companyName: match.name,
+    assetType: getSecurityAssetType(match.type),
+    currency: null,
+    exact: false,
+  };
+};
+
+/**
+ * Look up a holding written as cash, a ticker or a company name
+ */
+const resolveHolding = (value: string): Holding | null => {
+  const name = value.trim();
+  const words = normalizeName(name);
+  if (!words) {
+    return null;
+  }
+
+  const cash = CASH_NAME.exec(words);
+  if (cash) {
+    return {
+      symbol: 'CASH',
+      companyName: 'Cash',
+      assetType: 'cash',
+      currency: cash[1]?.toUpperCase() ?? null,
+      exact: true,
+    };
+  }
+
+  if (TYPED_TICKER.test(name) && isValidSymbol(name)) {
+    return resolveTicker(name);
+  }
+  return resolveCompanyName(name, words);
+};
+
+const toParsedPosition = (
+  holding: Holding,
+  shares: number,
+  sourceText: string,
+  purchase: Purchase = {}
+): ParsedPosition => {
+  const price = purchase.price === undefined ? null : purchase.price * shares;
+  return {
+    symbol: holding.symbol,
+    shares,
+    companyName: holding.companyName,
+    assetType: holding.assetType,
+    currency: holding.currency,
+    yieldPercent: null,
+    costBasis: purchase.total ?? price,
+    acquiredAt: purchase.acquiredAt ?? null,
+    sourceText,
+  };
+};
+
+const takeSuffix = (
+  text: string,
+  pattern: RegExp
+): { rest: string; groups: Record<string, string> } | null => {
+  const match = pattern.exec(text);
+  return match?.groups
+    ? { rest: text.slice(0, match.index), groups: match.groups }
+    : null;
+};
+
+const parseAmount = (groups: Record<string, string>): number => {
+  const amount = Number.parseFloat(groups.amount.replace(/,/g, ''));
+  return groups.suffix ? amount * 1000 : amount;
+};
+
+/**
+ * Take the purchase price, total cost and date off the end of a segment:
+ * "100 AAPL at $150 since 2019" is "100 AAPL" bought for 15000 in 2019
+ */
+const splitPurchase = (
+  segment: string
+): { holding: string; purchase: Purchase } => {
+  const purchase: Purchase = {};
+  let holding = segment;
+
+  for (let previous = ''; previous !== holding; ) {
+    previous = holding;
+
+    const date = takeSuffix(holding, PURCHASE_DATE);
+    const acquiredAt = date && parseDateInput(date.groups.date);
+    if (date && acquiredAt) {
+      holding = date.rest;
+      purchase.acquiredAt = acquiredAt;
+      continue;
+    }
+
+    // "AAPL @ 100" is a quantity, but "100 AAPL @ 150" and "AAPL @ $150"
+    // are prices
+    const price = takeSuffix(holding, PURCHASE_PRICE);
+    const isPrice =
+      price &&
+      (price.groups.keyword !== '@' ||
+        price.groups.sign ||
+        LEADING_QUANTITY.test(holding));
+    const total = isPrice ? null : takeSuffix(holding, PURCHASE_TOTAL);
+    if (price && isPrice) {
+      holding = price.rest;
+      purchase.price = parseAmount(price.groups);
+    } else if (total) {
+      holding = total.rest;
+      purchase.total = parseAmount(total.groups);
+    }
+  }
+
+  return { holding, purchase };
+};
+
+const parseCashSegment = (
+  segment: string
+): { item: ParsedPosition; exact: boolean } | null => {
+  const groups = CASH_PATTERN.exec(segment)?.groups;
+  if (!groups) {
+    return null;
+  }
+
+  const multiplier = { k: 1000, m: 1_000_000 }[
+    groups.suffix?.toLowerCase() ?? ''
+  ];
+  const currency =
+    groups.code?.toUpperCase() ??
+    (groups.sign ? CURRENCY_SIGNS[groups.sign] : null);
+
+  return {
+    item: toParsedPosition(
+      {
+        symbol: 'CASH',
+        companyName: 'Cash',
+        assetType: 'cash',
+        currency,
+        exact: true,
+      },
+      parseQuantity(groups.quantity) * (multiplier ?? 1),
+      segment
+    ),
+    exact: true,
+  };
+};
+
+/**
+ * Parse one holding. A missing quantity defaults to 1, as in the AI prompt.
+ */
+const parseSegment = (
+  segment: string
+): { item: ParsedPosition; exact: boolean; quantified: boolean } | null => {
+  const cash = parseCashSegment(segment);
+  if (cash) {
+    return { ...cash, quantified: true };
+  }
+
+  const { holding: text, purchase } = splitPurchase(segment);
+  for (const pattern of HOLDING_PATTERNS) {
+    const groups = pattern.exec(text)?.groups;
+    const holding = groups ? resolveHolding(groups.name) : null;
+    if (!(groups && holding)) {
+      continue;
+    }
+
+    return {
+      item: toParsedPosition(
+        holding,
+        groups.quantity ? parseQuantity(groups.quantity) : 1,
+        segment,
+        purchase
+      ),
+      exact: holding.exact && Boolean(groups.quantity),
+      quantified: Boolean(groups.quantity),
+    };
+  }
+
+  return null;
+};
+
+const cleanSegment = (value: string): string => {
+  let segment = value.trim().replace(LIST_MARKER, '');
+  // "I also own", "My portfolio is: I have" ...
+  for (let previous = ''; previous !== segment; ) {
+    previous = segment;
+    segment = segment.replace(LEAD_IN, '').replace(APPROXIMATELY, '');
+  }
+  return segment.replace(TRAILING_PUNCTUATION, '').trim();
+};
+
+/**
+ * Divide a run of holdings at a separator, joining pieces back up until
+ * each is a holding with a quantity. Null unless that yields several.
+ */
+const splitRun = (
+  segment: string,
+  separator: RegExp,
+  quantityFirst: boolean
+): string[] | null => {
+  const holdings: string[] = [];
+  let current = '';
+
+  for (const piece of segment.split(separator)) {
+    current = current ? `${current} ${piece}` : piece;
+    const parsed = parseSegment(current);
+    if (
+      parsed?.quantified &&
+      (!quantityFirst || LEADING_QUANTITY.test(current))
+    ) {
+      holdings.push(current);
+      current = '';
+    }
+  }
+
+  return !current && holdings.length > 1 ? holdings : null;
+};
+
+/**
+ * Split a segment holding several holdings without separators, such as
+ * "5 GOOG 10 AMZN", unless it already reads as one ticker and quantity
+ */
+const splitHoldings = (segment: string): string[] => {
+  if (parseSegment(segment)?.exact) {
+    return [segment];
+  }
+  return (
+    splitRun(segment, BEFORE_QUANTITY, true) ??
+    splitRun(segment, AFTER_QUANTITY, false) ?? [segment]
+  );
+};
+
+/**
+ * Split a description into one segment per holding. "and" separates
+ * holdings unless the whole phrase is one ("Johnson & Johnson").
+ */
+const splitSegments = (text: string): string[] => {
+  return text.split(SEGMENT_SEPARATOR).flatMap((piece) => {
+    const segment = cleanSegment(piece);
+    if (!segment) {
+      return [];
+    }
+    if (!CONJUNCTION.test(segment) || parseSegment(segment)) {
+      return splitHoldings(segment);
+    }
+    return segment
+      .split(CONJUNCTION)
+      .map(cleanSegment)
+      .filter(Boolean)
+      .flatMap(splitHoldings);
+  });
+};
+
+/**
+ * Parse a portfolio description without a language model, using common
+ * phrasings ("100 AAPL", "50 shares of Microsoft", "TSLA x 25", "I own some
+ * Google") and the bundled symbol master. The result is `heuristic` unless
+ * every holding was a ticker or cash amount with a stated quantity.
+ */
+export const parsePortfolioWithRules = (text: string): PortfolioParseResult => {
+  const items: ParsedPosition[] = [];
+  const unmatched: RejectedPosition[] = [];
+  let exact = true;
+
+  for (const segment of splitSegments(text)) {
+    const parsed = parseSegment(segment);
+    if (!parsed) {
+      unmatched.push({ input: segment, reason: 'unknown holding' });
+      exact = false;
+      continue;
+    }
+
+    items.push(parsed.item);
+    exact &&= parsed.exact;
+  }
+
+  const { positions, rejected } = validateParsedPositions(items);
+  return {
+    positions,
+    rejected: [...unmatched, ...rejected],
+    heuristic: !exact || positions.length === 0,
+  };
+};
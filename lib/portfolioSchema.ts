@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import { ASSET_TYPES, normalizeAssetSymbol } from './assets';
+import type { PortfolioPosition } from './storage';
+
+// OpenAI structured outputs require every field, so optional ones are
+// nullable, and ignore refinements, so value rules live in the server schema
+export const parsedPositionSchema = z.object({
+  symbol: z.string().describe('Ticker, coin ticker, or CASH for plain cash'),
+  shares: z
+    .number()
+    .describe('Quantity held; the balance for cash and money-market funds'),
+  companyName: z.string().describe('Official company, fund or coin name'),
+  assetType: z.enum(ASSET_TYPES),
+  currency: z
+    .string()
+    .nullable()
+    .describe('ISO currency code for cash lines, otherwise null'),
+  yieldPercent: z
+    .number()
+    .nullable()
+    .describe('Stated annual yield for cash lines (4.5 for 4.5%), else null'),
+  costBasis: z
+    .number()
+    .nullable()
+    .describe(
+      'Total amount paid when a price or cost is stated (100 at $150 is 15000), else null'
+    ),
+  acquiredAt: z
+    .string()
+    .nullable()
+    .describe('Purchase date as YYYY-MM-DD when stated, else null'),
+  sourceText: z
+    .string()
+    .describe('The words in the description this holding was read from'),
+});
+
+export const parsedPortfolioSchema = z.object({
+  positions: z.array(parsedPositionSchema),
+});
+
+export const EDIT_ACTIONS = ['buy', 'sell', 'set', 'remove'] as const;
+
+export type EditAction = (typeof EDIT_ACTIONS)[number];
+
+// One instruction about one holding; totals are worked out on the server
+export const parsedEditSchema = parsedPositionSchema.extend({
+  action: z
+    .enum(EDIT_ACTIONS)
+    .describe(
+      'buy adds shares, sell subtracts them, set replaces the quantity, remove drops the holding'
+    ),
+  shares: z
+    .number()
+    .describe('Shares bought, sold or set to; 0 when removing a holding'),
+  costBasis: z
+    .number()
+    .nullable()
+    .describe(
+      'Total paid for a buy or set when a price or cost is stated; else null'
+    ),
+  acquiredAt: z
+    .string()
+    .nullable()
+    .describe(
+      'Purchase date for a buy or set as YYYY-MM-DD when stated; else null'
+    ),
+  price: z
+    .number()
+    .nullable()
+    .describe(
+      'Price per share received for a sell, remove or set that lowers the quantity, when stated; else null'
+    ),
+  date: z
+    .string()
+    .nullable()
+    .describe('Date of that sale as YYYY-MM-DD when stated; else null'),
+});
+
+export const parsedEditsSchema = z.object({
+  edits: z.array(parsedEditSchema),
+});
+
+export type ParsedPosition = z.infer<typeof parsedPositionSchema>;
+
+export type ParsedPortfolio = z.infer<typeof parsedPortfolioSchema>;
+
+export type ParsedEdit = z.infer<typeof parsedEditSchema>;
+
+export type ParsedEdits = z.infer<typeof parsedEditsSchema>;
+
+/**
+ * A holding the model returned that failed server validation
+ */
+export interface RejectedPosition {
+  /** The model's symbol or the description text it came from */
+  input: string;
+  reason: string;
+}
+
+export interface PortfolioParseResult {
+  positions: PortfolioPosition[];
+  rejected: RejectedPosition[];
+  /** Matched by rules rather than read by a model; ask before saving */
+  heuristic?: boolean;
+}
+
+const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const isPastDate = (date: string): boolean => {
+  return !Number.isNaN(Date.parse(date)) && Date.parse(date) <= Date.now();
+};
+
+// Server-side rules on top of the model's schema; messages are shown to users
+const validPositionSchema = parsedPositionSchema
+  .extend({
+    shares: z.number().positive('non-positive shares'),
+    companyName: z.string().trim().min(1, 'missing company name'),
+    currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(CURRENCY_CODE_REGEX, 'invalid currency')
+      .nullable(),
+    yieldPercent: z
+      .number()
+      .min(0, 'invalid yield')
+      .max(100, 'invalid yield')
+      .nullable(),
+    costBasis: z.number().nonnegative('invalid cost basis').nullable(),
+    acquiredAt: z
+      .string()
+      .regex(ISO_DATE_REGEX, 'invalid purchase date')
+      .refine(isPastDate, 'invalid purchase date')
+      .nullable(),
+  })
+  .transform((position, ctx): PortfolioPosition => {
+    const isCash = position.assetType === 'cash';
+    const currency = position.currency ?? 'USD';
+
+    // Canonical form (RDS-A -> RDS.A, crypto BTC -> BTC-USD, cash ->
+    // CASH:USD) so prices and news match however the model wrote it
+    const symbol = normalizeAssetSymbol(
+      position.symbol,
+      position.assetType,
+      currency
+    );
+    if (!symbol) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'invalid symbol',
+        path: ['symbol'],
+      });
+      return z.NEVER;
+    }
+
+    const yieldPercent =
+      isCash && position.yieldPercent ? position.yieldPercent : undefined;
+
+    return {
+      symbol,
+      shares: position.shares,
+      companyName: position.companyName,
+      assetType: position.assetType,
+      // Securities otherwise take the currency of their listing
+      currency: isCash ? currency : (position.currency ?? undefined),
+      yieldPercent,
+      yieldSince: yieldPercent ? new Date().toISOString() : undefined,
+      // Cash has no gain to measure
+      costBasis: isCash ? undefined : (position.costBasis ?? undefined),
+      acquiredAt: isCash ? undefined : (position.acquiredAt ?? undefined),
+    };
+  });
+
+const validSaleSchema = z.object({
+  price: z.number().nonnegative('invalid sale price').nullable(),
+  date: z
+    .string()
+    .regex(ISO_DATE_REGEX, 'invalid sale date')
+    .refine(isPastDate, 'invalid sale date')
+    .nullable(),
+});
+
+/**
+ * What a sale was said to fetch and when, if stated
+ */
+export interface SaleTerms {
+  price?: number;
+  date?: string;
+}
+
+/**
+ * Check the sale price and date of an edit, returning them or the reason
+ * they are invalid
+ */
+export const validateSaleTerms = (
+  edit: Pick<ParsedEdit, 'price' | 'date'>
+): SaleTerms | string => {
+  const parsed = validSaleSchema.safeParse({
+    price: edit.price,
+    date: edit.date,
+  });
+  if (!parsed.success) {
+    return parsed.error.issues[0]?.message ?? 'invalid sale';
+  }
+  return {
+    price: parsed.data.price ?? undefined,
+    date: parsed.data.date ?? undefined,
+  };
+};
+
+/**
+ * Validate the model's holdings one by one, keeping the valid ones and the
+ * reason each invalid one was dropped
+ */
+export const validateParsedPositions = (
+  items: ParsedPosition[]
+): PortfolioParseResult => {
+  const result: PortfolioParseResult = { positions: [], rejected: [] };
+
+  for (const item of items) {
+    const parsed = validPositionSchema.safeParse(item);
+    if (parsed.success) {
+      result.positions.push(parsed.data);
+      continue;
+    }
+
+    result.rejected.push({
+      input: item.sourceText.trim() || item.symbol,
+      reason: Array.from(
+        new Set(parsed.error.issues.map((issue) => issue.message))
+      ).join(', '),
+    });
+  }
+
+  return result;
+};
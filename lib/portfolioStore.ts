@@ -0,0 +1,403 @@
+import type { PriceHistory } from './api';
+
+/**
+ * Where portfolios, ledgers and settings are saved
+ */
+export type PortfolioStoreKind = 'localStorage' | 'indexedDb' | 'server';
+
+export const PORTFOLIO_STORE_LABELS: Record<PortfolioStoreKind, string> = {
+  localStorage: 'browser storage',
+  indexedDb: 'the browser database',
+  server: 'the server',
+};
+
+/**
+ * Saves values by key somewhere. Values are the JSON strings written by
+ * `lib/storage.ts`, so adapters only move text around.
+ */
+export interface PortfolioStore {
+  kind: PortfolioStoreKind;
+  /** Every saved value by key */
+  load: () => Promise<Record<string, string>>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+// Keys of saved data, as opposed to the price cache kept in localStorage
+const DATA_KEY = /^(portfolios?|ledger|lotMethod|baseCurrency|quarantine)(:|$)/;
+
+const DB_NAME = 'heimdall';
+const DB_VERSION = 2;
+const DB_OBJECT_STORE = 'data';
+// Price history is kept in IndexedDB whichever store holds saved data,
+// since a few years of daily bars would fill localStorage
+const PRICE_HISTORY_OBJECT_STORE = 'priceHistory';
+
+const STORE_ENDPOINT = '/api/portfolio-store';
+// Kept in this browser only, never in the store it unlocks
+const STORE_TOKEN_KEY = 'portfolioStoreToken';
+
+const readLocalStorage = (): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (const key of Object.keys(localStorage)) {
+    const value = localStorage.getItem(key);
+    if (DATA_KEY.test(key) && value !== null) {
+      entries[key] = value;
+    }
+  }
+  return entries;
+};
+
+/**
+ * Adapter for this browser's localStorage, limited to about 5 MB
+ */
+export const createLocalStorageStore = (): PortfolioStore => {
+  // Errors such as a full quota reject rather than throw
+  const attempt = <T>(run: () => T): Promise<T> => {
+    return new Promise((resolve) => resolve(run()));
+  };
+
+  return {
+    kind: 'localStorage',
+    load: () => attempt(readLocalStorage),
+    set: (key, value) => attempt(() => localStorage.setItem(key, value)),
+    remove: (key) => attempt(() => localStorage.removeItem(key)),
+  };
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const complete = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const objectStore of [DB_OBJECT_STORE, PRICE_HISTORY_OBJECT_STORE]) {
+      if (!request.result.objectStoreNames.contains(objectStore)) {
+        request.result.createObjectStore(objectStore);
+      }
+    }
+  };
+  return settle(request);
+};
+
+/**
+ * Adapter for an IndexedDB database, which holds far more than
+ * localStorage for long ledgers
+ */
+export const createIndexedDbStore = (name = DB_NAME): PortfolioStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= openDatabase(name);
+    return database;
+  };
+
+  const write = async (
+    change: (objectStore: IDBObjectStore) => void
+  ): Promise<void> => {
+    const transaction = (await open()).transaction(
+      DB_OBJECT_STORE,
+      'readwrite'
+    );
+    change(transaction.objectStore(DB_OBJECT_STORE));
+    await complete(transaction);
+  };
+
+  return {
+    kind: 'indexedDb',
+    load: async () => {
+      const objectStore = (await open())
+        .transaction(DB_OBJECT_STORE, 'readonly')
+        .objectStore(DB_OBJECT_STORE);
+      const [keys, values] = await Promise.all([
+        settle(objectStore.getAllKeys()),
+        settle(objectStore.getAll()),
+      ]);
+      return Object.fromEntries(
+        keys.map((key, index) => [String(key), String(values[index])])
+      );
+    },
+    set: (key, value) => write((objectStore) => objectStore.put(value, key)),
+    remove: (key) => write((objectStore) => objectStore.delete(key)),
+  };
+};
+
+let priceHistoryDatabase: Promise<IDBDatabase> | null = null;
+
+/**
+ * Price history saved by savePriceHistory under a key, with when it goes
+ * stale, or null when none is saved or IndexedDB is missing
+ */
+export const loadPriceHistory = async (
+  key: string
+): Promise<{ history: PriceHistory; expiresAt: number } | null> => {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  priceHistoryDatabase ??= openDatabase(DB_NAME);
+  const objectStore = (await priceHistoryDatabase)
+    .transaction(PRICE_HISTORY_OBJECT_STORE, 'readonly')
+    .objectStore(PRICE_HISTORY_OBJECT_STORE);
+  return (await settle(objectStore.get(key))) ?? null;
+};
+
+/**
+ * Save price history in IndexedDB until `expiresAt`; nothing is saved in
+ * browsers without it
+ */
+export const savePriceHistory = async (
+  key: string,
+  history: PriceHistory,
+  expiresAt: number
+): Promise<void> => {
+  if (typeof indexedDB === 'undefined') {
+    return;
+  }
+
+  priceHistoryDatabase ??= openDatabase(DB_NAME);
+  const transaction = (await priceHistoryDatabase).transaction(
+    PRICE_HISTORY_OBJECT_STORE,
+    'readwrite'
+  );
+  transaction
+    .objectStore(PRICE_HISTORY_OBJECT_STORE)
+    .put({ history, expiresAt }, key);
+  await complete(transaction);
+};
+
+// Set when the server store refused the token it was sent
+let serverStoreLocked = false;
+
+const getServerStoreToken = (): string | null => {
+  try {
+    return localStorage.getItem(STORE_TOKEN_KEY);
+  } catch (_error) {
+    return null;
+  }
+};
+
+/**
+ * Remember the token the server store asks for (its PORTFOLIO_STORE_TOKEN)
+ */
+export const setServerStoreToken = (token: string): void => {
+  localStorage.setItem(STORE_TOKEN_KEY, token.trim());
+};
+
+/**
+ * Whether the server store turned away the last request for want of the
+ * right token
+ */
+export const isServerStoreLocked = (): boolean => {
+  return serverStoreLocked;
+};
+
+const send = async (
+  endpoint: string,
+  method: string,
+  body?: unknown
+): Promise<Response> => {
+  const headers: Record<string, string> = {};
+  const token = getServerStoreToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (body) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(endpoint, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  serverStoreLocked = response.status === 401;
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * Adapter for the store behind `/api/portfolio-store`, shared by every
+ * device using this server and sent the token set by setServerStoreToken
+ */
+export const createServerStore = (
+  endpoint = STORE_ENDPOINT
+): PortfolioStore => {
+  return {
+    kind: 'server',
+    load: async () => {
+      const response = await send(endpoint, 'GET');
+      const data = await response.json();
+      return data.entries;
+    },
+    set: async (key, value) => {
+      await send(endpoint, 'PUT', { key, value });
+    },
+    remove: async (key) => {
+      await send(endpoint, 'DELETE', { key });
+    },
+  };
+};
+
+/**
+ * The adapter set by NEXT_PUBLIC_PORTFOLIO_STORE, or localStorage. IndexedDB
+ * falls back to localStorage in browsers without it.
+ */
+export const selectPortfolioStore = (
+  kind: string | undefined = process.env.NEXT_PUBLIC_PORTFOLIO_STORE
+): PortfolioStore => {
+  if (kind === 'server') {
+    return createServerStore();
+  }
+  if (kind === 'indexedDb' && typeof indexedDB !== 'undefined') {
+    return createIndexedDbStore();
+  }
+  return createLocalStorageStore();
+};
+
+let store: PortfolioStore | null = null;
+// Saved values, read synchronously by the rest of the app. Until
+// initPortfolioStore runs it is read straight from localStorage.
+let cache: Map<string, string> | null = null;
+// Writes run one after another so they reach the store in order
+let pending: Promise<void> = Promise.resolve();
+const errorListeners = new Set<(message: string) => void>();
+
+const getStore = (): PortfolioStore => {
+  store ??= createLocalStorageStore();
+  return store;
+};
+
+const getCache = (): Map<string, string> => {
+  if (!cache) {
+    try {
+      cache = new Map(Object.entries(readLocalStorage()));
+    } catch (_error) {
+      // Start empty when localStorage cannot be read
+      cache = new Map();
+    }
+  }
+  return cache;
+};
+
+const reportError = (message: string): void => {
+  for (const listener of errorListeners) {
+    listener(message);
+  }
+};
+
+const describeError = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
+
+const enqueue = (write: (target: PortfolioStore) => Promise<void>): void => {
+  const target = getStore();
+  pending = pending
+    .then(() => write(target))
+    .catch((error) => {
+      reportError(
+        `Could not save to ${PORTFOLIO_STORE_LABELS[target.kind]}: ${describeError(error)}`
+      );
+    });
+};
+
+/**
+ * Load everything saved in a store so it can be read synchronously, and
+ * save there from now on. A store with nothing saved yet starts with a copy
+ * of what is in localStorage. When the store cannot be loaded, localStorage
+ * is used instead and the reason returned.
+ */
+export const initPortfolioStore = async (
+  next: PortfolioStore = selectPortfolioStore()
+): Promise<string | null> => {
+  try {
+    let entries = await next.load();
+    if (next.kind !== 'localStorage' && Object.keys(entries).length === 0) {
+      entries = readLocalStorage();
+      await Promise.all(
+        Object.entries(entries).map(([key, value]) => next.set(key, value))
+      );
+    }
+    store = next;
+    cache = new Map(Object.entries(entries));
+    return null;
+  } catch (error) {
+    store = createLocalStorageStore();
+    cache = null;
+    return `Could not load from ${PORTFOLIO_STORE_LABELS[next.kind]} (${describeError(error)}); using browser storage instead`;
+  }
+};
+
+/**
+ * Which store saved data is kept in
+ */
+export const getPortfolioStoreKind = (): PortfolioStoreKind => {
+  return getStore().kind;
+};
+
+/**
+ * Be told when saving to the store fails. Returns a function that stops
+ * listening.
+ */
+export const onPortfolioStoreError = (
+  listener: (message: string) => void
+): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+/**
+ * Resolves once every write so far has reached the store
+ */
+export const flushPortfolioStore = (): Promise<void> => {
+  return pending;
+};
+
+/**
+ * A saved value, or null when nothing is saved under the key
+ */
+export const getSavedItem = (key: string): string | null => {
+  return getCache().get(key) ?? null;
+};
+
+/**
+ * Save a value; it is readable at once and written to the store in the
+ * background, with failures reported to onPortfolioStoreError listeners
+ */
+export const setSavedItem = (key: string, value: string): void => {
+  getCache().set(key, value);
+  enqueue((target) => target.set(key, value));
+};
+
+/**
+ * Delete a saved value
+ */
+export const removeSavedItem = (key: string): void => {
+  if (getCache().delete(key)) {
+    enqueue((target) => target.remove(key));
+  }
+};
+
+/**
+ * Keys of every saved value
+ */
+export const listSavedKeys = (): string[] => {
+  return Array.from(getCache().keys());
+};
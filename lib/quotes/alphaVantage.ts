@@ -0,0 +1,298 @@
+import type { PriceBar, PriceHistory, StockPrice } from '@/lib/api';
+import { toProviderSymbol } from '@/lib/symbols';
+import { exchangeTimeToIso } from './time';
+import {
+  createErrorHistory,
+  createErrorQuote,
+  getRateLimitFromEnv,
+  type HistoryOptions,
+  type QuoteProvider,
+  trimBarsToRange,
+} from './types';
+
+interface AlphaVantageQuote {
+  '01. symbol': string;
+  '02. open': string;
+  '03. high': string;
+  '04. low': string;
+  '05. price': string;
+  '06. volume': string;
+  '07. latest trading day': string;
+  '08. previous close': string;
+  '09. change': string;
+  '10. change percent': string;
+}
+
+interface AlphaVantageBar {
+  '1. open': string;
+  '2. high': string;
+  '3. low': string;
+  '4. close': string;
+  '5. volume': string;
+}
+
+interface AlphaVantageErrorFields {
+  'Error Message'?: string;
+  Note?: string;
+}
+
+interface AlphaVantageResponse extends AlphaVantageErrorFields {
+  'Global Quote': AlphaVantageQuote;
+}
+
+interface AlphaVantageBulkQuote {
+  symbol: string;
+  close: string;
+  previous_close: string;
+  change: string;
+  change_percent: string;
+}
+
+interface AlphaVantageBulkResponse extends AlphaVantageErrorFields {
+  data?: AlphaVantageBulkQuote[];
+  message?: string;
+}
+
+interface AlphaVantageSeriesResponse extends AlphaVantageErrorFields {
+  'Time Series (Daily)'?: Record<string, AlphaVantageBar>;
+  'Time Series (5min)'?: Record<string, AlphaVantageBar>;
+}
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+// REALTIME_BULK_QUOTES accepts up to 100 symbols and needs a premium key
+const MAX_BULK_SYMBOLS = 100;
+const isPremium = () => process.env.ALPHA_VANTAGE_PREMIUM === 'true';
+
+// Free keys allow 5 calls/minute
+const DEFAULT_CALLS_PER_MINUTE = 5;
+
+// Free-tier rate limit notes refer to the per-minute window
+const RATE_LIMIT_RETRY_SECONDS = 60;
+
+// Compact responses hold the latest 100 daily bars (~4.5 months)
+const COMPACT_RANGES = new Set(['1d', '5d', '1m', '3m']);
+
+const getApiKey = () => process.env.ALPHA_VANTAGE_API_KEY;
+
+const NOT_COVERED_ERROR = 'Listing not covered by Alpha Vantage';
+
+// Alpha Vantage writes share classes with a dash and uses its own exchange
+// suffixes (BRK-B, SHOP.TRT)
+const toAlphaVantageSymbol = (symbol: string) =>
+  toProviderSymbol(symbol, 'alphavantage');
+
+/**
+ * Extract the error Alpha Vantage reports in a 200 response, if any
+ */
+function getResponseError(data: AlphaVantageErrorFields): string | null {
+  // Check for API errors
+  if (data['Error Message']) {
+    return data['Error Message'];
+  }
+
+  // Check for rate limiting
+  if (data.Note) {
+    return 'API rate limit exceeded';
+  }
+
+  return null;
+}
+
+async function fetchAlphaVantagePrice(symbol: string): Promise<StockPrice> {
+  const providerSymbol = toAlphaVantageSymbol(symbol);
+  if (!providerSymbol) {
+    return createErrorQuote(symbol, NOT_COVERED_ERROR, 'alphavantage');
+  }
+
+  try {
+    const url = `${BASE_URL}?function=GLOBAL_QUOTE&symbol=${encodeURIComponent(providerSymbol)}&apikey=${getApiKey()}`;
+    const response = await fetch(url);
+    const data: AlphaVantageResponse = await response.json();
+
+    const responseError = getResponseError(data);
+    if (responseError) {
+      return {
+        ...createErrorQuote(symbol, responseError, 'alphavantage'),
+        retryAfter: data.Note ? RATE_LIMIT_RETRY_SECONDS : undefined,
+      };
+    }
+
+    const quote = data['Global Quote'];
+    if (!quote) {
+      return createErrorQuote(
+        symbol,
+        'No quote data available',
+        'alphavantage'
+      );
+    }
+
+    return {
+      symbol,
+      price: Number.parseFloat(quote['05. price']),
+      change: Number.parseFloat(quote['09. change']),
+      changePercent: quote['10. change percent'],
+      source: 'alphavantage',
+    };
+  } catch (_error) {
+    return createErrorQuote(
+      symbol,
+      'Failed to fetch from Alpha Vantage',
+      'alphavantage'
+    );
+  }
+}
+
+async function fetchAlphaVantageBulkPrices(
+  symbols: string[]
+): Promise<StockPrice[]> {
+  const providerSymbols = new Map(
+    symbols.map((symbol) => [symbol, toAlphaVantageSymbol(symbol)])
+  );
+  const requested = Array.from(providerSymbols.values()).filter(
+    (providerSymbol): providerSymbol is string => Boolean(providerSymbol)
+  );
+
+  try {
+    const url = `${BASE_URL}?function=REALTIME_BULK_QUOTES&symbol=${encodeURIComponent(requested.join(','))}&apikey=${getApiKey()}`;
+    const response = await fetch(url);
+    const data: AlphaVantageBulkResponse = await response.json();
+
+    const responseError = getResponseError(data);
+    if (responseError) {
+      return symbols.map((symbol) => ({
+        ...createErrorQuote(symbol, responseError, 'alphavantage'),
+        retryAfter: data.Note ? RATE_LIMIT_RETRY_SECONDS : undefined,
+      }));
+    }
+
+    const quotes = new Map(
+      (data.data ?? []).map((quote) => [quote.symbol, quote])
+    );
+
+    return symbols.map((symbol) => {
+      const providerSymbol = providerSymbols.get(symbol);
+      if (!providerSymbol) {
+        return createErrorQuote(symbol, NOT_COVERED_ERROR, 'alphavantage');
+      }
+
+      const quote = quotes.get(providerSymbol);
+      if (!quote) {
+        return createErrorQuote(
+          symbol,
+          data.message ?? 'No quote data available',
+          'alphavantage'
+        );
+      }
+
+      const changePercent = Number.parseFloat(quote.change_percent);
+      return {
+        symbol,
+        price: Number.parseFloat(quote.close),
+        change: Number.parseFloat(quote.change),
+        changePercent: `${changePercent.toFixed(2)}%`,
+        source: 'alphavantage',
+      };
+    });
+  } catch (_error) {
+    return symbols.map((symbol) =>
+      createErrorQuote(
+        symbol,
+        'Failed to fetch from Alpha Vantage',
+        'alphavantage'
+      )
+    );
+  }
+}
+
+async function fetchAlphaVantageHistory(
+  symbol: string,
+  options: HistoryOptions
+): Promise<PriceHistory> {
+  const isIntraday = options.interval === 'intraday';
+  const providerSymbol = toAlphaVantageSymbol(symbol);
+  if (!providerSymbol) {
+    return createErrorHistory(
+      symbol,
+      options,
+      NOT_COVERED_ERROR,
+      'alphavantage'
+    );
+  }
+
+  try {
+    const params = isIntraday
+      ? 'function=TIME_SERIES_INTRADAY&interval=5min&outputsize=full'
+      : `function=TIME_SERIES_DAILY&outputsize=${COMPACT_RANGES.has(options.range) ? 'compact' : 'full'}`;
+    const url = `${BASE_URL}?${params}&symbol=${encodeURIComponent(providerSymbol)}&apikey=${getApiKey()}`;
+    const response = await fetch(url);
+    const data: AlphaVantageSeriesResponse = await response.json();
+
+    const responseError = getResponseError(data);
+    if (responseError) {
+      return createErrorHistory(symbol, options, responseError, 'alphavantage');
+    }
+
+    const series = isIntraday
+      ? data['Time Series (5min)']
+      : data['Time Series (Daily)'];
+    if (!series) {
+      return createErrorHistory(
+        symbol,
+        options,
+        'No historical data available',
+        'alphavantage'
+      );
+    }
+
+    const bars: PriceBar[] = Object.entries(series)
+      .map(([time, bar]) => ({
+        date: isIntraday ? exchangeTimeToIso(time) : time,
+        open: Number.parseFloat(bar['1. open']),
+        high: Number.parseFloat(bar['2. high']),
+        low: Number.parseFloat(bar['3. low']),
+        close: Number.parseFloat(bar['4. close']),
+        volume: Number.parseInt(bar['5. volume'], 10),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      symbol,
+      range: options.range,
+      interval: options.interval,
+      bars: trimBarsToRange(bars, options),
+      source: 'alphavantage',
+    };
+  } catch (_error) {
+    return createErrorHistory(
+      symbol,
+      options,
+      'Failed to fetch from Alpha Vantage',
+      'alphavantage'
+    );
+  }
+}
+
+/**
+ * Alpha Vantage provider. Free keys are limited to 5 calls/minute; set
+ * ALPHA_VANTAGE_PREMIUM=true to enable bulk quotes and
+ * ALPHA_VANTAGE_RATE_LIMIT to match the plan's calls/minute.
+ */
+export const alphaVantageProvider: QuoteProvider = {
+  id: 'alphavantage',
+  name: 'Alpha Vantage',
+  capabilities: { batch: isPremium(), intraday: true, historical: true },
+  rateLimit: getRateLimitFromEnv(
+    'ALPHA_VANTAGE_RATE_LIMIT',
+    DEFAULT_CALLS_PER_MINUTE
+  ),
+  maxBatchSize: MAX_BULK_SYMBOLS,
+  isConfigured: () => {
+    const apiKey = getApiKey();
+    return Boolean(apiKey) && apiKey !== 'demo';
+  },
+  supportsSymbol: (symbol) => toAlphaVantageSymbol(symbol) !== null,
+  fetchQuote: fetchAlphaVantagePrice,
+  fetchQuotes: fetchAlphaVantageBulkPrices,
+  fetchHistory: fetchAlphaVantageHistory,
+};
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StockPrice } from '@/lib/api';
+import {
+  createMemoryBackend,
+  getCachedQuotes,
+  setQuoteCacheBackend,
+} from './cache';
+import { createErrorQuote } from './types';
+
+const quote = (symbol: string, price: number): StockPrice => ({
+  symbol,
+  price,
+  change: 1,
+  changePercent: '1.00%',
+  source: 'demo',
+});
+
+// Answers with the given price for every symbol asked for
+const fetchAt = (price: number) =>
+  vi.fn((symbols: string[]) =>
+    Promise.resolve(symbols.map((symbol) => quote(symbol, price)))
+  );
+
+describe('quote cache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-15T15:00:00Z'));
+    setQuoteCacheBackend(createMemoryBackend());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one upstream call between concurrent requests', async () => {
+    let release: ((quotes: StockPrice[]) => void) | undefined;
+    const slow = vi.fn(
+      () =>
+        new Promise<StockPrice[]>((resolve) => {
+          release = resolve;
+        })
+    );
+    const other = fetchAt(200);
+
+    const first = getCachedQuotes(['AAPL'], slow);
+    const second = getCachedQuotes(['aapl', 'MSFT'], other);
+    release?.([quote('AAPL', 100)]);
+
+    expect((await first)[0]).toMatchObject({ symbol: 'AAPL', price: 100 });
+    expect(await second).toEqual([
+      expect.objectContaining({ symbol: 'aapl', price: 100 }),
+      expect.objectContaining({ symbol: 'MSFT', price: 200 }),
+    ]);
+    expect(slow).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledWith(['MSFT']);
+  });
+
+  it('serves cached quotes until the TTL runs out', async () => {
+    await getCachedQuotes(['AAPL'], fetchAt(100));
+
+    vi.advanceTimersByTime(5 * 60 * 1000 - 1);
+    const cached = fetchAt(110);
+    expect((await getCachedQuotes(['AAPL'], cached))[0]).toMatchObject({
+      price: 100,
+      source: 'cache',
+      asOf: '2024-03-15T15:00:00.000Z',
+    });
+    expect(cached).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    const refetched = fetchAt(120);
+    expect((await getCachedQuotes(['AAPL'], refetched))[0]).toMatchObject({
+      price: 120,
+      source: 'demo',
+    });
+    expect(refetched).toHaveBeenCalledWith(['AAPL']);
+  });
+
+  it('falls back to an expired quote when the upstream call fails', async () => {
+    await getCachedQuotes(['AAPL'], fetchAt(100));
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    const limited = vi.fn(() =>
+      Promise.resolve([
+        { ...createErrorQuote('AAPL', 'Rate limited'), retryAfter: 30 },
+      ])
+    );
+    const [stale] = await getCachedQuotes(['AAPL'], limited);
+    expect(stale).toMatchObject({
+      price: 100,
+      source: 'cache',
+      retryAfter: 30,
+    });
+    expect(stale.error).toBeUndefined();
+
+    const [failed] = await getCachedQuotes(['MSFT'], () =>
+      Promise.reject(new Error('offline'))
+    );
+    expect(failed.error).toBe('Failed to fetch price');
+  });
+});
@@ -0,0 +1,235 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { StockPrice } from '@/lib/api';
+import { getSymbolKey } from '@/lib/symbols';
+import { createErrorQuote } from './types';
+
+/**
+ * A cached quote with the time it was fetched upstream
+ */
+export interface QuoteCacheEntry {
+  quote: StockPrice;
+  asOf: number;
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for the server-side quote cache, keyed by getSymbolKey
+ * so "BRK-B" and "brk.b" share an entry
+ */
+export interface QuoteCacheBackend {
+  get: (symbol: string) => QuoteCacheEntry | undefined;
+  set: (symbol: string, entry: QuoteCacheEntry) => void;
+  delete: (symbol: string) => void;
+}
+
+// Default TTL: 5 minutes, matching the client-side cache
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+const DEFAULT_CACHE_FILE = path.join('.cache', 'quotes.json');
+
+/**
+ * In-memory backend, shared by every request handled by this server process
+ */
+export const createMemoryBackend = (): QuoteCacheBackend => {
+  const entries = new Map<string, QuoteCacheEntry>();
+
+  return {
+    get: (symbol) => entries.get(symbol),
+    set: (symbol, entry) => {
+      entries.set(symbol, entry);
+    },
+    delete: (symbol) => {
+      entries.delete(symbol);
+    },
+  };
+};
+
+/**
+ * JSON file backend, so cached quotes survive server restarts
+ */
+export const createFileBackend = (filePath: string): QuoteCacheBackend => {
+  let entries: Record<string, QuoteCacheEntry> | null = null;
+
+  const load = (): Record<string, QuoteCacheEntry> => {
+    if (entries) {
+      return entries;
+    }
+
+    entries = {};
+    try {
+      if (existsSync(filePath)) {
+        entries = JSON.parse(readFileSync(filePath, 'utf8'));
+      }
+    } catch (_error) {
+      // An unreadable cache starts empty and is rewritten on the next set
+    }
+    return entries as Record<string, QuoteCacheEntry>;
+  };
+
+  const persist = () => {
+    try {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(entries));
+    } catch (_error) {
+      // Quotes stay cached in memory when the file cannot be written
+    }
+  };
+
+  return {
+    get: (symbol) => load()[symbol],
+    set: (symbol, entry) => {
+      load()[symbol] = entry;
+      persist();
+    },
+    delete: (symbol) => {
+      delete load()[symbol];
+      persist();
+    },
+  };
+};
+
+const createBackend = (): QuoteCacheBackend => {
+  if (process.env.QUOTE_CACHE_BACKEND === 'file') {
+    return createFileBackend(
+      process.env.QUOTE_CACHE_FILE ||
+        path.join(process.cwd(), DEFAULT_CACHE_FILE)
+    );
+  }
+  return createMemoryBackend();
+};
+
+let backend: QuoteCacheBackend = createBackend();
+
+// Upstream requests currently in flight, keyed by getSymbolKey
+const inFlight = new Map<string, Promise<StockPrice>>();
+
+/**
+ * Swap the cache backend (the previous backend's entries are not copied)
+ */
+export const setQuoteCacheBackend = (next: QuoteCacheBackend): void => {
+  backend = next;
+};
+
+/**
+ * Parse per-symbol TTL overrides from QUOTE_CACHE_TTL_OVERRIDES,
+ * e.g. "AAPL=60,TSLA=30" (seconds)
+ */
+const parseTtlOverrides = (): Map<string, number> => {
+  const overrides = new Map<string, number>();
+  const raw = process.env.QUOTE_CACHE_TTL_OVERRIDES;
+
+  if (!raw) {
+    return overrides;
+  }
+
+  for (const pair of raw.split(',')) {
+    const [symbol, seconds] = pair.split('=');
+    const ttl = Number(seconds);
+    if (symbol && Number.isFinite(ttl) && ttl >= 0) {
+      overrides.set(getSymbolKey(symbol), ttl * 1000);
+    }
+  }
+  return overrides;
+};
+
+/**
+ * Cache lifetime for a symbol in milliseconds
+ */
+export const getQuoteTtl = (symbol: string): number => {
+  const override = parseTtlOverrides().get(getSymbolKey(symbol));
+  if (override !== undefined) {
+    return override;
+  }
+
+  const defaultSeconds = Number(process.env.QUOTE_CACHE_TTL_SECONDS);
+  return Number.isFinite(defaultSeconds) && defaultSeconds > 0
+    ? defaultSeconds * 1000
+    : DEFAULT_TTL;
+};
+
+/**
+ * Cached quote for a symbol key, labeled with `source: 'cache'`. Expired
+ * entries are only returned with `allowStale`; they are kept to fall back
+ * on while upstream fetches fail.
+ */
+const readCached = (key: string, allowStale = false): StockPrice | null => {
+  const cached = backend.get(key);
+
+  if (!cached || (!allowStale && Date.now() >= cached.expiresAt)) {
+    return null;
+  }
+
+  return {
+    ...cached.quote,
+    source: 'cache',
+    asOf: new Date(cached.asOf).toISOString(),
+  };
+};
+
+/**
+ * Cache a successful upstream quote and stamp it with its fetch time. A
+ * failed one falls back to the last cached quote, however old, keeping
+ * any retry time.
+ */
+const storeFetched = (key: string, quote: StockPrice): StockPrice => {
+  if (quote.error) {
+    const stale = readCached(key, true);
+    return stale ? { ...stale, retryAfter: quote.retryAfter } : quote;
+  }
+
+  const asOf = Date.now();
+  backend.set(key, {
+    quote,
+    asOf,
+    expiresAt: asOf + getQuoteTtl(key),
+  });
+  return { ...quote, asOf: new Date(asOf).toISOString() };
+};
+
+/**
+ * Return fresh cached quotes, fetching the rest upstream in one call.
+ * Symbols already being fetched by a concurrent request share that call.
+ * Each quote comes back under the symbol as requested, and a failed fetch
+ * only fails the symbols it was for.
+ */
+export function getCachedQuotes(
+  symbols: string[],
+  fetcher: (uncachedSymbols: string[]) => Promise<StockPrice[]>
+): Promise<StockPrice[]> {
+  const keys = symbols.map(getSymbolKey);
+  const fresh = new Map(keys.map((key) => [key, readCached(key)]));
+  const missing = Array.from(
+    new Set(keys.filter((key) => !(fresh.get(key) || inFlight.has(key))))
+  );
+
+  if (missing.length > 0) {
+    const batch = fetcher(missing);
+
+    for (const key of missing) {
+      const request = batch
+        .then(
+          (quotes) =>
+            quotes.find((item) => getSymbolKey(item.symbol) === key) ??
+            createErrorQuote(key, 'Failed to fetch price')
+        )
+        .catch(() => createErrorQuote(key, 'Failed to fetch price'))
+        .then((quote) => storeFetched(key, quote))
+        .finally(() => {
+          inFlight.delete(key);
+        });
+      inFlight.set(key, request);
+    }
+  }
+
+  return Promise.all(
+    symbols.map(async (symbol, index) => {
+      const key = keys[index];
+      const quote =
+        fresh.get(key) ??
+        (await inFlight.get(key)) ??
+        createErrorQuote(key, 'Failed to fetch price');
+      return { ...quote, symbol };
+    })
+  );
+}
@@ -0,0 +1,224 @@
+import type { PriceBar, PriceHistory, StockPrice } from '@/lib/api';
+import { isCryptoSymbol, parseCryptoSymbol } from '@/lib/symbols';
+import {
+  createErrorHistory,
+  createErrorQuote,
+  getRateLimitFromEnv,
+  HISTORY_RANGE_DAYS,
+  type HistoryOptions,
+  type QuoteProvider,
+  trimBarsToRange,
+} from './types';
+
+// Prices keyed by lower-case quote currency, e.g. { usd: 1, usd_24h_change: 2 }
+type CoinGeckoPrices = Record<string, Record<string, number>>;
+
+interface CoinGeckoMarketChart {
+  prices: [number, number][];
+  total_volumes: [number, number][];
+}
+
+interface CoinGeckoError {
+  error?: string;
+  status?: { error_message?: string };
+}
+
+const BASE_URL = 'https://api.coingecko.com/api/v3';
+
+// The keyless public API allows roughly 10 calls/minute; a free demo key 30
+const DEFAULT_CALLS_PER_MINUTE = 10;
+
+// Ids are not derivable from tickers, so only mapped coins are covered
+const COIN_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  SOL: 'solana',
+  XRP: 'ripple',
+  BNB: 'binancecoin',
+  ADA: 'cardano',
+  DOGE: 'dogecoin',
+  AVAX: 'avalanche-2',
+  DOT: 'polkadot',
+  LINK: 'chainlink',
+  LTC: 'litecoin',
+  BCH: 'bitcoin-cash',
+  XLM: 'stellar',
+  TRX: 'tron',
+  SHIB: 'shiba-inu',
+  MATIC: 'matic-network',
+  ATOM: 'cosmos',
+  UNI: 'uniswap',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+};
+
+const getApiKey = () => process.env.COINGECKO_API_KEY;
+
+const getHeaders = (): HeadersInit => {
+  const apiKey = getApiKey();
+  return apiKey ? { 'x-cg-demo-api-key': apiKey } : {};
+};
+
+const getCoin = (symbol: string) => {
+  const pair = isCryptoSymbol(symbol) ? parseCryptoSymbol(symbol) : null;
+  const id = pair ? COIN_IDS[pair.base] : undefined;
+  return pair && id ? { id, vs: pair.quote.toLowerCase(), pair } : null;
+};
+
+const getErrorMessage = (data: CoinGeckoError): string | null => {
+  return data.status?.error_message ?? data.error ?? null;
+};
+
+/**
+ * Quotes for several crypto pairs in one call. CoinGecko reports a rolling
+ * 24-hour change rather than a change since a session close.
+ */
+async function fetchCoinGeckoPrices(symbols: string[]): Promise<StockPrice[]> {
+  const coins = new Map(symbols.map((symbol) => [symbol, getCoin(symbol)]));
+  const ids = new Set<string>();
+  const currencies = new Set<string>();
+  for (const coin of coins.values()) {
+    if (coin) {
+      ids.add(coin.id);
+      currencies.add(coin.vs);
+    }
+  }
+
+  try {
+    const url = `${BASE_URL}/simple/price?ids=${Array.from(ids).join(',')}&vs_currencies=${Array.from(currencies).join(',')}&include_24hr_change=true&include_last_updated_at=true`;
+    const response = await fetch(url, { headers: getHeaders() });
+
+    if (response.status === 429) {
+      return symbols.map((symbol) => ({
+        ...createErrorQuote(symbol, 'API rate limit exceeded', 'coingecko'),
+        retryAfter: Number(response.headers.get('retry-after')) || 60,
+      }));
+    }
+
+    const data: CoinGeckoPrices & CoinGeckoError = await response.json();
+    const responseError = getErrorMessage(data);
+    if (responseError) {
+      return symbols.map((symbol) =>
+        createErrorQuote(symbol, responseError, 'coingecko')
+      );
+    }
+
+    return symbols.map((symbol) => {
+      const coin = coins.get(symbol);
+      const prices = coin ? data[coin.id] : undefined;
+      const price = coin ? prices?.[coin.vs] : undefined;
+      if (!(coin && prices && price !== undefined)) {
+        return createErrorQuote(symbol, 'No quote data available', 'coingecko');
+      }
+
+      const percent = prices[`${coin.vs}_24h_change`] ?? 0;
+      const previousPrice = price / (1 + percent / 100);
+
+      return {
+        symbol,
+        price,
+        change: price - previousPrice,
+        changePercent: `${percent.toFixed(2)}%`,
+        source: 'coingecko',
+        asOf: prices.last_updated_at
+          ? new Date(prices.last_updated_at * 1000).toISOString()
+          : undefined,
+        currency: coin.pair.quote,
+      };
+    });
+  } catch (_error) {
+    return symbols.map((symbol) =>
+      createErrorQuote(symbol, 'Failed to fetch from CoinGecko', 'coingecko')
+    );
+  }
+}
+
+async function fetchCoinGeckoPrice(symbol: string): Promise<StockPrice> {
+  const [quote] = await fetchCoinGeckoPrices([symbol]);
+  return quote;
+}
+
+/**
+ * Daily closes from CoinGecko's market chart. Only closes are published, so
+ * each bar's open, high and low equal its close.
+ */
+async function fetchCoinGeckoHistory(
+  symbol: string,
+  options: HistoryOptions
+): Promise<PriceHistory> {
+  const coin = getCoin(symbol);
+  if (!coin) {
+    return createErrorHistory(
+      symbol,
+      options,
+      'Coin not covered by CoinGecko',
+      'coingecko'
+    );
+  }
+
+  try {
+    const url = `${BASE_URL}/coins/${coin.id}/market_chart?vs_currency=${coin.vs}&days=${HISTORY_RANGE_DAYS[options.range]}&interval=daily`;
+    const response = await fetch(url, { headers: getHeaders() });
+    const data: CoinGeckoMarketChart & CoinGeckoError = await response.json();
+
+    const responseError = getErrorMessage(data);
+    if (responseError || !Array.isArray(data.prices)) {
+      return createErrorHistory(
+        symbol,
+        options,
+        responseError ?? 'No historical data available',
+        'coingecko'
+      );
+    }
+
+    // The last point is the live price; one bar per day keeps the latest
+    const bars = new Map<string, PriceBar>();
+    data.prices.forEach(([timestamp, close], index) => {
+      const date = new Date(timestamp).toISOString().slice(0, 10);
+      bars.set(date, {
+        date,
+        open: close,
+        high: close,
+        low: close,
+        close,
+        volume: Math.round(data.total_volumes[index]?.[1] ?? 0),
+      });
+    });
+
+    return {
+      symbol,
+      range: options.range,
+      interval: options.interval,
+      bars: trimBarsToRange(Array.from(bars.values()), options),
+      source: 'coingecko',
+    };
+  } catch (_error) {
+    return createErrorHistory(
+      symbol,
+      options,
+      'Failed to fetch from CoinGecko',
+      'coingecko'
+    );
+  }
+}
+
+/**
+ * CoinGecko crypto provider. Works without a key; set COINGECKO_API_KEY (a
+ * free demo key) for a higher quota and COINGECKO_RATE_LIMIT to match it.
+ * Covers the coins in COIN_IDS only; equities go to the stock providers.
+ */
+export const coinGeckoProvider: QuoteProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  capabilities: { batch: true, intraday: false, historical: true },
+  rateLimit: getRateLimitFromEnv(
+    'COINGECKO_RATE_LIMIT',
+    DEFAULT_CALLS_PER_MINUTE
+  ),
+  maxBatchSize: 50,
+  isConfigured: () => true,
+  supportsSymbol: (symbol) => getCoin(symbol) !== null,
+  fetchQuote: fetchCoinGeckoPrice,
+  fetchQuotes: fetchCoinGeckoPrices,
+  fetchHistory: fetchCoinGeckoHistory,
+};
@@ -0,0 +1,17 @@
+import { getSimulatedHistory, getSimulatedQuote } from './marketSim';
+import type { QuoteProvider } from './types';
+
+/**
+ * Simulated market provider, enabled with ALPHA_VANTAGE_API_KEY=demo.
+ * See `marketSim.ts` for the seed, clock and scenario settings.
+ */
+export const demoProvider: QuoteProvider = {
+  id: 'demo',
+  name: 'Demo',
+  capabilities: { batch: true, intraday: true, historical: true },
+  isConfigured: () => process.env.ALPHA_VANTAGE_API_KEY === 'demo',
+  fetchQuote: (symbol) => Promise.resolve(getSimulatedQuote(symbol)),
+  fetchQuotes: (symbols) => Promise.resolve(symbols.map(getSimulatedQuote)),
+  fetchHistory: (symbol, options) =>
+    Promise.resolve(getSimulatedHistory(symbol, options)),
+};
@@ -0,0 +1,185 @@
+import type { PriceBar, PriceHistory, StockPrice } from '@/lib/api';
+import { toProviderSymbol } from '@/lib/symbols';
+import {
+  createErrorHistory,
+  createErrorQuote,
+  getRangeStart,
+  getRateLimitFromEnv,
+  type HistoryOptions,
+  type QuoteProvider,
+  trimBarsToRange,
+} from './types';
+
+interface FinnhubQuote {
+  c: number; // Current price
+  h: number; // High price of the day
+  l: number; // Low price of the day
+  o: number; // Open price of the day
+  pc: number; // Previous close price
+  t: number; // Timestamp
+}
+
+interface FinnhubCandles {
+  c: number[]; // Close prices
+  h: number[]; // High prices
+  l: number[]; // Low prices
+  o: number[]; // Open prices
+  v: number[]; // Volumes
+  t: number[]; // Timestamps (seconds)
+  s: 'ok' | 'no_data';
+}
+
+interface FinnhubError {
+  error?: string;
+}
+
+const BASE_URL = 'https://finnhub.io/api/v1';
+
+// Free keys allow 60 calls/minute
+const DEFAULT_CALLS_PER_MINUTE = 60;
+
+// Extra calendar days requested for intraday ranges to span weekends/holidays
+const INTRADAY_LOOKBACK_PADDING_DAYS = 4;
+
+const getApiKey = () => process.env.FINNHUB_API_KEY;
+
+const toFinnhubSymbol = (symbol: string) =>
+  encodeURIComponent(toProviderSymbol(symbol, 'finnhub') ?? symbol);
+
+/**
+ * Why a request failed, or null when it succeeded. Checked before the body
+ * is parsed, since rate-limit and gateway errors may not be JSON.
+ */
+const getResponseError = async (response: Response): Promise<string | null> => {
+  if (response.status === 429) {
+    return 'API rate limit exceeded';
+  }
+  if (response.ok) {
+    return null;
+  }
+
+  const body: FinnhubError = await response.json().catch(() => ({}));
+  return body.error ?? `HTTP error! status: ${response.status}`;
+};
+
+async function fetchFinnhubPrice(symbol: string): Promise<StockPrice> {
+  try {
+    const url = `${BASE_URL}/quote?symbol=${toFinnhubSymbol(symbol)}&token=${getApiKey()}`;
+    const response = await fetch(url);
+    const responseError = await getResponseError(response);
+    if (responseError) {
+      const quote = createErrorQuote(symbol, responseError, 'finnhub');
+      return response.status === 429
+        ? {
+            ...quote,
+            retryAfter: Number(response.headers.get('retry-after')) || 60,
+          }
+        : quote;
+    }
+
+    const data: FinnhubQuote & FinnhubError = await response.json();
+    if (data.error) {
+      return createErrorQuote(symbol, data.error, 'finnhub');
+    }
+
+    // Calculate change and percentage
+    const change = data.c - data.pc;
+    const changePercent =
+      data.pc > 0 ? `${((change / data.pc) * 100).toFixed(2)}%` : '0.00%';
+
+    return {
+      symbol,
+      price: data.c,
+      change,
+      changePercent,
+      source: 'finnhub',
+    };
+  } catch (_error) {
+    return createErrorQuote(symbol, 'Failed to fetch from Finnhub', 'finnhub');
+  }
+}
+
+async function fetchFinnhubHistory(
+  symbol: string,
+  options: HistoryOptions
+): Promise<PriceHistory> {
+  const isIntraday = options.interval === 'intraday';
+
+  try {
+    const now = new Date();
+    const from = getRangeStart(options.range, now);
+    if (isIntraday) {
+      from.setUTCDate(from.getUTCDate() - INTRADAY_LOOKBACK_PADDING_DAYS);
+    }
+
+    const resolution = isIntraday ? '5' : 'D';
+    const fromSeconds = Math.floor(from.getTime() / 1000);
+    const toSeconds = Math.floor(now.getTime() / 1000);
+    const url = `${BASE_URL}/stock/candle?symbol=${toFinnhubSymbol(symbol)}&resolution=${resolution}&from=${fromSeconds}&to=${toSeconds}&token=${getApiKey()}`;
+    const response = await fetch(url);
+    const responseError = await getResponseError(response);
+    if (responseError) {
+      return createErrorHistory(symbol, options, responseError, 'finnhub');
+    }
+
+    const data: FinnhubCandles & FinnhubError = await response.json();
+    if (data.error) {
+      return createErrorHistory(symbol, options, data.error, 'finnhub');
+    }
+
+    if (data.s !== 'ok') {
+      return createErrorHistory(
+        symbol,
+        options,
+        'No historical data available',
+        'finnhub'
+      );
+    }
+
+    const bars: PriceBar[] = data.t.map((timestamp, index) => {
+      const iso = new Date(timestamp * 1000).toISOString();
+      return {
+        date: isIntraday ? iso : iso.slice(0, 10),
+        open: data.o[index],
+        high: data.h[index],
+        low: data.l[index],
+        close: data.c[index],
+        volume: data.v[index],
+      };
+    });
+
+    return {
+      symbol,
+      range: options.range,
+      interval: options.interval,
+      bars: trimBarsToRange(bars, options),
+      source: 'finnhub',
+    };
+  } catch (_error) {
+    return createErrorHistory(
+      symbol,
+      options,
+      'Failed to fetch from Finnhub',
+      'finnhub'
+    );
+  }
+}
+
+/**
+ * Finnhub quote provider (60 calls/minute on the free tier, override with
+ * FINNHUB_RATE_LIMIT). Finnhub has no multi-symbol quote endpoint, so each
+ * symbol costs one call.
+ */
+export const finnhubProvider: QuoteProvider = {
+  id: 'finnhub',
+  name: 'Finnhub',
+  capabilities: { batch: false, intraday: true, historical: true },
+  rateLimit: getRateLimitFromEnv(
+    'FINNHUB_RATE_LIMIT',
+    DEFAULT_CALLS_PER_MINUTE
+  ),
+  isConfigured: () => Boolean(getApiKey()),
+  supportsSymbol: (symbol) => toProviderSymbol(symbol, 'finnhub') !== null,
+  fetchQuote: fetchFinnhubPrice,
+  fetchHistory: fetchFinnhubHistory,
+};
@@ -0,0 +1,161 @@
+import type { FxRate, FxRates } from '@/lib/fx';
+
+interface AlphaVantageFxBar {
+  '4. close': string;
+}
+
+interface AlphaVantageFxResponse {
+  'Time Series FX (Daily)'?: Record<string, AlphaVantageFxBar>;
+  'Error Message'?: string;
+  Note?: string;
+}
+
+interface UsdRate extends FxRate {
+  source: 'alphavantage' | 'static';
+}
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+// Daily closes only move once a day; an hour keeps well inside the quota
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// USD per unit of each currency at a recent close and the close before it.
+// Used offline, with the demo key, and when live rates are unavailable.
+const STATIC_USD_RATES: Record<string, FxRate> = {
+  USD: { rate: 1, previousRate: 1 },
+  EUR: { rate: 1.085, previousRate: 1.081 },
+  GBP: { rate: 1.271, previousRate: 1.274 },
+  CAD: { rate: 0.732, previousRate: 0.729 },
+  CHF: { rate: 1.128, previousRate: 1.126 },
+  JPY: { rate: 0.006_68, previousRate: 0.006_71 },
+  AUD: { rate: 0.661, previousRate: 0.659 },
+  HKD: { rate: 0.128, previousRate: 0.128 },
+  CNY: { rate: 0.138, previousRate: 0.138 },
+  KRW: { rate: 0.000_73, previousRate: 0.000_729 },
+  INR: { rate: 0.012, previousRate: 0.012 },
+  BRL: { rate: 0.181, previousRate: 0.182 },
+};
+
+const cache = new Map<
+  string,
+  { expiresAt: number; rate: Promise<UsdRate | null> }
+>();
+
+const isLiveRatesEnabled = (): boolean => {
+  const provider = process.env.FX_PROVIDER;
+  if (provider) {
+    return provider === 'alphavantage';
+  }
+
+  const apiKey = process.env.ALPHA_VANTAGE_API_KEY;
+  return Boolean(apiKey) && apiKey !== 'demo';
+};
+
+const getStaticUsdRate = (currency: string): UsdRate | null => {
+  const rate = STATIC_USD_RATES[currency];
+  return rate ? { ...rate, source: 'static' } : null;
+};
+
+/**
+ * USD per unit of a currency from the last two Alpha Vantage daily closes
+ */
+async function fetchAlphaVantageUsdRate(
+  currency: string
+): Promise<UsdRate | null> {
+  try {
+    const url = `${BASE_URL}?function=FX_DAILY&from_symbol=${currency}&to_symbol=USD&apikey=${process.env.ALPHA_VANTAGE_API_KEY}`;
+    const response = await fetch(url);
+    const data: AlphaVantageFxResponse = await response.json();
+
+    // Errors and rate-limit notes come without a series; the caller falls
+    // back to the static rate
+    const series = data['Time Series FX (Daily)'];
+    if (!series) {
+      return null;
+    }
+
+    const [latest, previous] = Object.keys(series).sort().reverse();
+    const rate = Number.parseFloat(series[latest]['4. close']);
+    const previousRate = previous
+      ? Number.parseFloat(series[previous]['4. close'])
+      : rate;
+
+    return { rate, previousRate, source: 'alphavantage' };
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * USD per unit of a currency, live when configured with a static fallback.
+ * Concurrent requests for the same currency share one upstream call.
+ */
+const getUsdRate = (currency: string): Promise<UsdRate | null> => {
+  if (currency === 'USD' || !isLiveRatesEnabled()) {
+    return Promise.resolve(getStaticUsdRate(currency));
+  }
+
+  const cached = cache.get(currency);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rate;
+  }
+
+  const rate = fetchAlphaVantageUsdRate(currency).then(
+    (live) => live ?? getStaticUsdRate(currency)
+  );
+  cache.set(currency, { expiresAt: Date.now() + CACHE_TTL_MS, rate });
+  return rate;
+};
+
+/**
+ * Rates for converting each currency into `base`. Currencies without any
+ * rate are left out and reported in `error`.
+ */
+export async function getFxRates(
+  base: string,
+  currencies: string[]
+): Promise<FxRates> {
+  const wanted = Array.from(new Set([base, ...currencies]));
+  const usdRates = new Map(
+    await Promise.all(
+      wanted.map(
+        async (currency) => [currency, await getUsdRate(currency)] as const
+      )
+    )
+  );
+
+  const baseRate = usdRates.get(base);
+  if (!baseRate) {
+    return { base, rates: {}, error: `No FX rate for ${base}` };
+  }
+
+  const rates: Record<string, FxRate> = {};
+  const missing: string[] = [];
+
+  // USD needs no lookup, so it does not count towards the source
+  const usedStatic = wanted.some(
+    (currency) =>
+      currency !== 'USD' && usdRates.get(currency)?.source === 'static'
+  );
+
+  for (const currency of currencies) {
+    const usdRate = usdRates.get(currency);
+    if (!usdRate) {
+      missing.push(currency);
+      continue;
+    }
+    rates[currency] = {
+      rate: usdRate.rate / baseRate.rate,
+      previousRate: usdRate.previousRate / baseRate.previousRate,
+    };
+  }
+
+  return {
+    base,
+    rates,
+    asOf: new Date().toISOString(),
+    source: usedStatic || !isLiveRatesEnabled() ? 'static' : 'alphavantage',
+    error:
+      missing.length > 0 ? `No FX rate for ${missing.join(', ')}` : undefined,
+  };
+}
@@ -0,0 +1,187 @@
+import type { StockPrice } from '@/lib/api';
+import type { QuoteProvider } from './types';
+
+/**
+ * Circuit states: `closed` lets calls through, `open` skips the provider
+ * until its cool-down ends, `half-open` lets calls through on probation
+ * after a cool-down (one more failure reopens it)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  id: string;
+  name: string;
+  configured: boolean;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Calls in the stats window */
+  calls: number;
+  /** Share of failed calls in the stats window, 0-1 */
+  errorRate: number;
+  averageLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  /** When an open circuit will let calls through again */
+  retryAt?: string;
+}
+
+interface CallRecord {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface CircuitBreaker {
+  consecutiveFailures: number;
+  openUntil: number | null;
+  // Set once an open circuit's cool-down has ended
+  probation: boolean;
+  calls: CallRecord[];
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+// Error rate and latency are reported over this many recent calls
+const STATS_WINDOW = 50;
+
+const breakers = new Map<string, CircuitBreaker>();
+
+const getFailureThreshold = (): number => {
+  const threshold = Number(process.env.QUOTE_CIRCUIT_FAILURE_THRESHOLD);
+  return Number.isInteger(threshold) && threshold > 0
+    ? threshold
+    : DEFAULT_FAILURE_THRESHOLD;
+};
+
+const getCooldownMs = (): number => {
+  const cooldown = Number(process.env.QUOTE_CIRCUIT_COOLDOWN_MS);
+  return Number.isFinite(cooldown) && cooldown >= 0
+    ? cooldown
+    : DEFAULT_COOLDOWN_MS;
+};
+
+const getBreaker = (id: string): CircuitBreaker => {
+  let breaker = breakers.get(id);
+  if (!breaker) {
+    breaker = {
+      consecutiveFailures: 0,
+      openUntil: null,
+      probation: false,
+      calls: [],
+    };
+    breakers.set(id, breaker);
+  }
+  return breaker;
+};
+
+const getState = (breaker: CircuitBreaker, now = Date.now()): CircuitState => {
+  if (breaker.openUntil !== null && now < breaker.openUntil) {
+    return 'open';
+  }
+  if (breaker.openUntil !== null) {
+    breaker.openUntil = null;
+    breaker.probation = true;
+  }
+  return breaker.probation ? 'half-open' : 'closed';
+};
+
+/**
+ * Whether calls to a provider are currently allowed
+ */
+export const isProviderAvailable = (provider: QuoteProvider): boolean => {
+  return getState(getBreaker(provider.id)) !== 'open';
+};
+
+/**
+ * Seconds until a tripped provider accepts calls again (0 if not tripped)
+ */
+export const getProviderCooldown = (provider: QuoteProvider): number => {
+  const { openUntil } = getBreaker(provider.id);
+  return openUntil === null
+    ? 0
+    : Math.max(0, Math.ceil((openUntil - Date.now()) / 1000));
+};
+
+const trip = (breaker: CircuitBreaker, cooldownMs: number) => {
+  breaker.openUntil = Date.now() + cooldownMs;
+  breaker.probation = false;
+};
+
+/**
+ * Record the outcome of one upstream call. A call fails when every quote it
+ * returned is an error; a rate-limit response (a quote with `retryAfter`)
+ * trips the circuit at once, other failures after several in a row.
+ */
+export const recordProviderCall = (
+  provider: QuoteProvider,
+  quotes: StockPrice[],
+  latencyMs: number
+): void => {
+  const breaker = getBreaker(provider.id);
+  const wasProbation = getState(breaker) === 'half-open';
+  const now = Date.now();
+  const ok = quotes.some((quote) => !quote.error);
+
+  breaker.calls.push({ ok, latencyMs });
+  if (breaker.calls.length > STATS_WINDOW) {
+    breaker.calls.shift();
+  }
+
+  if (ok) {
+    breaker.consecutiveFailures = 0;
+    breaker.probation = false;
+    breaker.lastSuccessAt = now;
+    return;
+  }
+
+  breaker.consecutiveFailures += 1;
+  breaker.lastFailureAt = now;
+  breaker.lastError = quotes[0]?.error;
+
+  const retryAfter = Math.max(
+    0,
+    ...quotes.map((quote) => quote.retryAfter ?? 0)
+  );
+  if (retryAfter > 0) {
+    trip(breaker, Math.max(getCooldownMs(), retryAfter * 1000));
+  } else if (
+    wasProbation ||
+    breaker.consecutiveFailures >= getFailureThreshold()
+  ) {
+    trip(breaker, getCooldownMs());
+  }
+};
+
+/**
+ * Circuit state, recent error rate and latency for a provider
+ */
+export const getProviderHealth = (provider: QuoteProvider): ProviderHealth => {
+  const breaker = getBreaker(provider.id);
+  const { calls } = breaker;
+  const failures = calls.filter((call) => !call.ok).length;
+  const totalLatency = calls.reduce((sum, call) => sum + call.latencyMs, 0);
+  const toIso = (time?: number) =>
+    time === undefined ? undefined : new Date(time).toISOString();
+
+  return {
+    id: provider.id,
+    name: provider.name,
+    configured: provider.isConfigured(),
+    state: getState(breaker),
+    consecutiveFailures: breaker.consecutiveFailures,
+    calls: calls.length,
+    errorRate: calls.length > 0 ? failures / calls.length : 0,
+    averageLatencyMs:
+      calls.length > 0 ? Math.round(totalLatency / calls.length) : null,
+    lastLatencyMs: calls.at(-1)?.latencyMs ?? null,
+    lastError: breaker.lastError,
+    lastSuccessAt: toIso(breaker.lastSuccessAt),
+    lastFailureAt: toIso(breaker.lastFailureAt),
+    retryAt: toIso(breaker.openUntil ?? undefined),
+  };
+};
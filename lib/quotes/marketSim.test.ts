@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  configureDemoMarket,
+  createFixedClock,
+  getSimulatedHistory,
+  getSimulatedQuote,
+  parseScenario,
+} from './marketSim';
+
+// A Friday afternoon, with the New York session open
+const SESSION = new Date('2024-03-15T18:00:00Z');
+
+const CLOCK_ERROR = /DEMO_MARKET_CLOCK/;
+
+describe('simulated market', () => {
+  beforeEach(() => {
+    configureDemoMarket({
+      seed: 'test',
+      clock: createFixedClock(SESSION),
+      events: [],
+    });
+  });
+
+  it('repeats the same quotes and bars for the same seed and clock', () => {
+    const quote = getSimulatedQuote('AAPL');
+    const history = getSimulatedHistory('AAPL', {
+      range: '1m',
+      interval: 'daily',
+    });
+
+    expect(quote.error).toBeUndefined();
+    expect(history.bars.length).toBeGreaterThan(15);
+    expect(getSimulatedQuote('AAPL')).toEqual(quote);
+    expect(
+      getSimulatedHistory('AAPL', { range: '1m', interval: 'daily' })
+    ).toEqual(history);
+  });
+
+  it('gives each seed and symbol its own prices', () => {
+    const price = getSimulatedQuote('AAPL').price;
+
+    expect(getSimulatedQuote('MSFT').price).not.toBe(price);
+    configureDemoMarket({ seed: 'other' });
+    expect(getSimulatedQuote('AAPL').price).not.toBe(price);
+  });
+
+  it('keeps quotes consistent with the previous close', () => {
+    const quote = getSimulatedQuote('AAPL');
+    const bars = getSimulatedHistory('AAPL', {
+      range: '5d',
+      interval: 'daily',
+    }).bars;
+    const previousClose = bars.at(-2)?.close ?? 0;
+
+    expect(quote.change).toBeCloseTo(quote.price - previousClose, 2);
+  });
+
+  it('has no bars on market holidays', () => {
+    // Presidents' Day 2024
+    const dates = getSimulatedHistory('AAPL', {
+      range: '3m',
+      interval: 'daily',
+    }).bars.map((bar) => bar.date);
+
+    expect(dates).toContain('2024-02-29');
+    expect(dates).not.toContain('2024-02-19');
+  });
+
+  it('moves prices by scripted events', () => {
+    const options = { range: '1m', interval: 'daily' } as const;
+    const unmoved = getSimulatedHistory('AAPL', options).bars;
+    const otherSymbol = getSimulatedHistory('MSFT', options).bars;
+
+    configureDemoMarket({ events: parseScenario('gap:AAPL:-15%@2024-03-11') });
+    const moved = getSimulatedHistory('AAPL', options).bars;
+    const gapped = moved.findIndex((bar) => bar.date === '2024-03-11');
+
+    expect(moved[gapped - 1]).toEqual(unmoved[gapped - 1]);
+    expect(moved[gapped].open).toBeCloseTo(unmoved[gapped].open * 0.85, 1);
+    expect(moved.at(-1)?.close).toBeCloseTo(
+      (unmoved.at(-1)?.close ?? 0) * 0.85,
+      1
+    );
+    expect(getSimulatedHistory('MSFT', options).bars).toEqual(otherSymbol);
+  });
+
+  it('parses scenario specs', () => {
+    expect(parseScenario('crash; earnings-gap:NVDA:+8%@2024-05-22')).toEqual([
+      { type: 'trend', move: -0.12, symbol: undefined, date: undefined },
+      { type: 'gap', move: 0.08, symbol: 'NVDA', date: '2024-05-22' },
+    ]);
+    expect(parseScenario('meltdown')).toEqual([]);
+  });
+
+  it('reports an invalid clock instead of throwing', () => {
+    configureDemoMarket({ clock: createFixedClock(new Date('not a date')) });
+
+    expect(getSimulatedQuote('AAPL').error).toMatch(CLOCK_ERROR);
+    expect(
+      getSimulatedHistory('AAPL', { range: '1m', interval: 'daily' }).error
+    ).toMatch(CLOCK_ERROR);
+  });
+});
@@ -0,0 +1,301 @@
+import type { PriceBar, PriceHistory, StockPrice } from '@/lib/api';
+import {
+  generateDailyBars,
+  generateIntradayBars,
+  roundPrice,
+  SERIES_START_DATE,
+} from './synthetic';
+import { exchangeTimeToIso, getExchangeDate } from './time';
+import {
+  createErrorHistory,
+  createErrorQuote,
+  getRangeStart,
+  type HistoryOptions,
+  trimBarsToRange,
+} from './types';
+
+/**
+ * A scripted price shock. A `gap` moves the price overnight, so the session
+ * opens at the new level; a `trend` unfolds between the open and the close.
+ * `move` is a fraction (-0.12 for a 12% drop). Events without a symbol hit
+ * every symbol; events without a date hit the current simulated session.
+ */
+export interface MarketEvent {
+  type: 'gap' | 'trend';
+  move: number;
+  symbol?: string;
+  date?: string;
+}
+
+/**
+ * Source of the simulated "now"
+ */
+export type MarketClock = () => Date;
+
+export interface DemoMarketConfig {
+  seed: string;
+  clock: MarketClock;
+  events: MarketEvent[];
+}
+
+// Named scenarios, optionally parameterized as name:SYMBOL:move
+const SCENARIOS: Record<string, MarketEvent> = {
+  crash: { type: 'trend', move: -0.12 },
+  rally: { type: 'trend', move: 0.06 },
+  'earnings-gap': { type: 'gap', move: 0.08 },
+  gap: { type: 'gap', move: 0.05 },
+  trend: { type: 'trend', move: 0.05 },
+};
+
+// Enough calendar days to always include the previous session
+const QUOTE_LOOKBACK_DAYS = 10;
+
+// Extra calendar days generated for intraday ranges to span weekends
+const INTRADAY_LOOKBACK_PADDING_DAYS = 4;
+
+/**
+ * Clock that always returns the same instant
+ */
+export const createFixedClock = (instant: Date): MarketClock => {
+  return () => new Date(instant);
+};
+
+/**
+ * Clock that starts at `start` when created and runs `speed` times faster
+ * than real time, so a session can replay a trading day in minutes
+ */
+export const createReplayClock = (start: Date, speed = 1): MarketClock => {
+  const startedAt = Date.now();
+  return () => new Date(start.getTime() + (Date.now() - startedAt) * speed);
+};
+
+const parseMove = (value: string): number | null => {
+  const move = Number.parseFloat(value.replace('%', ''));
+  return Number.isFinite(move) ? move / 100 : null;
+};
+
+/**
+ * Parse a scenario spec such as "crash", "earnings-gap:AAPL:+8%" or
+ * "gap:TSLA:-15%@2024-03-15". Multiple events are separated by ";".
+ */
+export const parseScenario = (spec: string): MarketEvent[] => {
+  const events: MarketEvent[] = [];
+
+  for (const part of spec.split(';')) {
+    const [body, date] = part.trim().split('@');
+    const [name, symbol, move] = body.split(':');
+    const scenario = SCENARIOS[name?.trim().toLowerCase()];
+
+    // Unknown scenario names are skipped
+    if (!scenario) {
+      continue;
+    }
+
+    const symbolFilter = symbol?.trim().toUpperCase();
+    const parsedMove = move ? parseMove(move) : null;
+    events.push({
+      ...scenario,
+      move: parsedMove ?? scenario.move,
+      symbol: symbolFilter && symbolFilter !== '*' ? symbolFilter : undefined,
+      date: date?.trim() || undefined,
+    });
+  }
+
+  return events;
+};
+
+// An unparseable DEMO_MARKET_CLOCK gives a clock that reads Invalid Date,
+// which quotes and history report instead of throwing
+const createClockFromEnv = (): MarketClock => {
+  const start = process.env.DEMO_MARKET_CLOCK;
+  if (!start) {
+    return () => new Date();
+  }
+
+  const speed = Number(process.env.DEMO_MARKET_SPEED ?? 1);
+  return createReplayClock(
+    new Date(start),
+    Number.isFinite(speed) && speed > 0 ? speed : 1
+  );
+};
+
+let config: DemoMarketConfig = {
+  seed: process.env.DEMO_MARKET_SEED ?? '',
+  clock: createClockFromEnv(),
+  events: parseScenario(process.env.DEMO_MARKET_SCENARIO ?? ''),
+};
+
+/**
+ * Override the demo market seed, clock or scenario (for tests and demos)
+ */
+export const configureDemoMarket = (
+  overrides: Partial<DemoMarketConfig>
+): void => {
+  config = { ...config, ...overrides };
+};
+
+/**
+ * Current simulated time
+ */
+export const getSimulatedNow = (): Date => config.clock();
+
+const getEventsFor = (
+  symbol: string,
+  date: string,
+  sessionDate: string
+): MarketEvent[] => {
+  return config.events.filter(
+    (event) =>
+      (!event.symbol || event.symbol === symbol) &&
+      (event.date ?? sessionDate) === date
+  );
+};
+
+/**
+ * Apply scenario events to raw bars. Each event shifts the price level for
+ * its session and every session after it.
+ */
+const applyEvents = (
+  symbol: string,
+  bars: PriceBar[],
+  sessionDate: string
+): PriceBar[] => {
+  let level = 1;
+
+  return bars.map((bar) => {
+    const events = getEventsFor(symbol, bar.date, sessionDate);
+
+    for (const event of events) {
+      if (event.type === 'gap') {
+        level *= 1 + event.move;
+      }
+    }
+    const openLevel = level;
+
+    for (const event of events) {
+      if (event.type === 'trend') {
+        level *= 1 + event.move;
+      }
+    }
+    const closeLevel = level;
+
+    if (openLevel === 1 && closeLevel === 1) {
+      return bar;
+    }
+
+    const open = roundPrice(bar.open * openLevel);
+    const close = roundPrice(bar.close * closeLevel);
+    return {
+      ...bar,
+      open,
+      close,
+      high: roundPrice(
+        Math.max(bar.high * openLevel, bar.high * closeLevel, open, close)
+      ),
+      low: roundPrice(
+        Math.min(bar.low * openLevel, bar.low * closeLevel, open, close)
+      ),
+    };
+  });
+};
+
+/**
+ * Daily bars that exist at `now`: nothing after today, and today's bar only
+ * once the session has opened
+ */
+const getDailyBars = (symbol: string, from: Date, now: Date): PriceBar[] => {
+  const today = getExchangeDate(now);
+  const sessionOpen = new Date(exchangeTimeToIso(`${today} 09:30:00`));
+  const fromDate = from.toISOString().slice(0, 10);
+
+  // Start early enough that older events still shift the level in range
+  const eventDates = config.events
+    .map((event) => event.date)
+    .filter((date): date is string => Boolean(date));
+  const generateFrom = [fromDate, ...eventDates].sort()[0];
+
+  const bars = generateDailyBars(
+    symbol,
+    new Date(generateFrom),
+    now,
+    config.seed
+  ).filter(
+    (bar) => bar.date < today || (bar.date === today && now >= sessionOpen)
+  );
+
+  return applyEvents(symbol, bars, today).filter((bar) => bar.date >= fromDate);
+};
+
+const INVALID_CLOCK_ERROR =
+  'Invalid DEMO_MARKET_CLOCK; use an ISO time such as 2024-03-15T13:30:00Z';
+
+/**
+ * Simulated quote whose price, change and percentage are mutually consistent
+ */
+export const getSimulatedQuote = (symbol: string): StockPrice => {
+  const now = getSimulatedNow();
+  if (Number.isNaN(now.getTime())) {
+    return createErrorQuote(symbol, INVALID_CLOCK_ERROR, 'demo');
+  }
+
+  const from = new Date(now);
+  from.setUTCDate(from.getUTCDate() - QUOTE_LOOKBACK_DAYS);
+
+  const bars = getDailyBars(symbol, from, now);
+  const current = bars.at(-1);
+  if (!current) {
+    return createErrorQuote(
+      symbol,
+      `No simulated prices yet; the simulated market starts on ${SERIES_START_DATE}`,
+      'demo'
+    );
+  }
+  const previous = bars.at(-2) ?? current;
+
+  const intraday = generateIntradayBars(symbol, current, now, config.seed);
+  const price = intraday.at(-1)?.close ?? current.close;
+  const change = price - previous.close;
+
+  return {
+    symbol,
+    price: roundPrice(price),
+    change: roundPrice(change),
+    changePercent: `${((change / previous.close) * 100).toFixed(2)}%`,
+    source: 'demo',
+  };
+};
+
+/**
+ * Simulated daily or intraday bars, consistent with simulated quotes
+ */
+export const getSimulatedHistory = (
+  symbol: string,
+  options: HistoryOptions
+): PriceHistory => {
+  const now = getSimulatedNow();
+  if (Number.isNaN(now.getTime())) {
+    return createErrorHistory(symbol, options, INVALID_CLOCK_ERROR, 'demo');
+  }
+
+  const from = getRangeStart(options.range, now);
+
+  if (options.interval === 'intraday') {
+    from.setUTCDate(from.getUTCDate() - INTRADAY_LOOKBACK_PADDING_DAYS);
+  }
+
+  const dailyBars = getDailyBars(symbol, from, now);
+  const bars =
+    options.interval === 'intraday'
+      ? dailyBars.flatMap((daily) =>
+          generateIntradayBars(symbol, daily, now, config.seed)
+        )
+      : dailyBars;
+
+  return {
+    symbol,
+    range: options.range,
+    interval: options.interval,
+    bars: trimBarsToRange(bars, options, now),
+    source: 'demo',
+  };
+};
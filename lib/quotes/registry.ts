@@ -0,0 +1,161 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { PriceHistory } from '@/lib/api';
+import { alphaVantageProvider } from './alphaVantage';
+import { coinGeckoProvider } from './coinGecko';
+import { demoProvider } from './demo';
+import { finnhubProvider } from './finnhub';
+import {
+  createErrorHistory,
+  type HistoryOptions,
+  type QuoteProvider,
+} from './types';
+
+// Demo first so ALPHA_VANTAGE_API_KEY=demo short-circuits real providers.
+// Crypto pairs fall through the stock providers to CoinGecko.
+const DEFAULT_PRIORITY = ['demo', 'alphavantage', 'finnhub', 'coingecko'];
+
+// Optional config file in the project root: { "priority": ["finnhub", ...] }
+const CONFIG_FILE = 'quote-providers.json';
+
+const providers = new Map<string, QuoteProvider>();
+
+/**
+ * Register a quote provider, replacing any provider with the same id
+ */
+export const registerQuoteProvider = (provider: QuoteProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Look up a registered quote provider by id
+ */
+export const getQuoteProvider = (id: string): QuoteProvider | undefined => {
+  return providers.get(id);
+};
+
+/**
+ * List every registered quote provider in registration order
+ */
+export const getRegisteredQuoteProviders = (): QuoteProvider[] => {
+  return Array.from(providers.values());
+};
+
+function readPriorityFromConfigFile(): string[] | null {
+  const configPath =
+    process.env.QUOTE_PROVIDERS_CONFIG || path.join(process.cwd(), CONFIG_FILE);
+
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(configPath, 'utf8'));
+    return Array.isArray(config.priority) ? config.priority : null;
+  } catch (_error) {
+    // An unreadable config falls back to the default priority
+    return null;
+  }
+}
+
+/**
+ * Resolve provider priority: QUOTE_PROVIDER_PRIORITY env (comma-separated),
+ * then the config file, then the built-in default
+ */
+export const getProviderPriority = (): string[] => {
+  const fromEnv = process.env.QUOTE_PROVIDER_PRIORITY;
+  const priority = fromEnv
+    ? fromEnv.split(',')
+    : (readPriorityFromConfigFile() ?? DEFAULT_PRIORITY);
+
+  return priority.map((id) => id.trim().toLowerCase()).filter(Boolean);
+};
+
+/**
+ * Configured providers in priority order
+ */
+export const getActiveQuoteProviders = (): QuoteProvider[] => {
+  // Unknown ids in the priority list are skipped
+  return getProviderPriority()
+    .map((id) => providers.get(id))
+    .filter((provider): provider is QuoteProvider =>
+      Boolean(provider?.isConfigured())
+    );
+};
+
+const canServeHistory = (
+  provider: QuoteProvider,
+  symbol: string,
+  options: HistoryOptions
+): boolean => {
+  if (!(provider.capabilities.historical && provider.fetchHistory)) {
+    return false;
+  }
+  if (options.interval === 'intraday' && !provider.capabilities.intraday) {
+    return false;
+  }
+  return provider.supportsSymbol?.(symbol) !== false;
+};
+
+/**
+ * Fetch price history from each history-capable provider in turn until one
+ * succeeds. If all fail, the primary provider's result is returned with
+ * every error.
+ */
+export async function fetchHistoryWithFallback(
+  symbol: string,
+  options: HistoryOptions,
+  candidates: QuoteProvider[]
+): Promise<PriceHistory> {
+  const failures: Array<{ provider: QuoteProvider; result: PriceHistory }> = [];
+
+  // One provider at a time: a fallback is only called when the one before
+  // it has failed
+  const tryProviders = async (
+    remaining: QuoteProvider[]
+  ): Promise<PriceHistory | null> => {
+    const [provider, ...fallbacks] = remaining;
+    if (!provider?.fetchHistory) {
+      return null;
+    }
+
+    const result = await provider.fetchHistory(symbol, options);
+    if (!result.error) {
+      return result;
+    }
+
+    failures.push({ provider, result });
+    return tryProviders(fallbacks);
+  };
+
+  const served = await tryProviders(
+    candidates.filter((provider) => canServeHistory(provider, symbol, options))
+  );
+  if (served) {
+    return served;
+  }
+
+  if (failures.length === 0) {
+    return createErrorHistory(
+      symbol,
+      options,
+      'No historical price provider available'
+    );
+  }
+
+  if (failures.length === 1) {
+    return failures[0].result;
+  }
+
+  return {
+    ...failures[0].result,
+    error: failures
+      .map(({ provider, result }) => `${provider.name}: ${result.error}`)
+      .join('; '),
+  };
+}
+
+registerQuoteProvider(demoProvider);
+registerQuoteProvider(alphaVantageProvider);
+registerQuoteProvider(finnhubProvider);
+registerQuoteProvider(coinGeckoProvider);
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StockPrice } from '@/lib/api';
+import { getProviderHealth } from './health';
+import { fetchQuotesWithLimits } from './scheduler';
+import { createErrorQuote, type QuoteProvider } from './types';
+
+const quote = (symbol: string, source: StockPrice['source']): StockPrice => ({
+  symbol,
+  price: 100,
+  change: 1,
+  changePercent: '1.00%',
+  source,
+  currency: 'USD',
+});
+
+// Buckets and breakers are kept per provider id, so each test uses its own
+const createProvider = (
+  id: string,
+  overrides: Partial<QuoteProvider> = {}
+): QuoteProvider => ({
+  id,
+  name: id,
+  capabilities: { batch: false, intraday: false, historical: false },
+  isConfigured: () => true,
+  fetchQuote: vi.fn((symbol: string) => Promise.resolve(quote(symbol, 'demo'))),
+  ...overrides,
+});
+
+const failing = (symbol: string) =>
+  Promise.resolve(createErrorQuote(symbol, 'Upstream error'));
+
+describe('quote scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-15T15:00:00Z'));
+    // Defer anything that would have to wait for a token
+    vi.stubEnv('QUOTE_QUEUE_MAX_WAIT_MS', '0');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('defers calls beyond the token bucket until it refills', async () => {
+    const provider = createProvider('bucket', {
+      rateLimit: { requests: 2, intervalMs: 60 * 1000 },
+    });
+
+    const first = await fetchQuotesWithLimits(
+      ['AAPL', 'MSFT', 'NVDA'],
+      [provider]
+    );
+    expect(first.map((item) => item.error)).toEqual([
+      undefined,
+      undefined,
+      'Quote providers busy, retry later',
+    ]);
+    expect(first[2].retryAfter).toBe(30);
+
+    // Half the interval refills one of the two tokens
+    vi.advanceTimersByTime(30 * 1000);
+    const [retried] = await fetchQuotesWithLimits(['NVDA'], [provider]);
+    expect(retried).toMatchObject({ symbol: 'NVDA', source: 'demo' });
+    expect(provider.fetchQuote).toHaveBeenCalledTimes(3);
+  });
+
+  it('batches up to the batch size and quotes a lone symbol singly', async () => {
+    const fetchQuotes = vi.fn((symbols: string[]) =>
+      Promise.resolve(symbols.map((symbol) => quote(symbol, 'demo')))
+    );
+    const provider = createProvider('batch', {
+      capabilities: { batch: true, intraday: false, historical: false },
+      maxBatchSize: 2,
+      fetchQuotes,
+    });
+
+    await fetchQuotesWithLimits(['AAPL', 'MSFT', 'NVDA'], [provider]);
+    expect(fetchQuotes.mock.calls).toEqual([[['AAPL', 'MSFT']]]);
+    expect(provider.fetchQuote).toHaveBeenCalledWith('NVDA');
+  });
+
+  it('opens the circuit after repeated failures and probes once it cools down', async () => {
+    const primary = createProvider('breaker', {
+      fetchQuote: vi.fn(failing),
+    });
+    const fallback = createProvider('fallback', {
+      fetchQuote: vi.fn((symbol: string) =>
+        Promise.resolve(quote(symbol, 'finnhub'))
+      ),
+    });
+
+    // Three failed calls in a row
+    await fetchQuotesWithLimits(['AAPL'], [primary, fallback]);
+    await fetchQuotesWithLimits(['MSFT'], [primary, fallback]);
+    await fetchQuotesWithLimits(['NVDA'], [primary, fallback]);
+    expect(getProviderHealth(primary)).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+    });
+
+    // An open circuit is skipped without calling the provider
+    const [skipped] = await fetchQuotesWithLimits(
+      ['AMZN'],
+      [primary, fallback]
+    );
+    expect(skipped.source).toBe('finnhub');
+    expect(primary.fetchQuote).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(getProviderHealth(primary).state).toBe('half-open');
+
+    // One failure on probation reopens it at once
+    await fetchQuotesWithLimits(['AMZN'], [primary, fallback]);
+    expect(primary.fetchQuote).toHaveBeenCalledTimes(4);
+    expect(getProviderHealth(primary).state).toBe('open');
+
+    // A success on probation closes it
+    vi.advanceTimersByTime(60 * 1000);
+    vi.mocked(primary.fetchQuote).mockImplementation((symbol) =>
+      Promise.resolve(quote(symbol, 'demo'))
+    );
+    const [recovered] = await fetchQuotesWithLimits(['AMZN'], [primary]);
+    expect(recovered.source).toBe('demo');
+    expect(getProviderHealth(primary)).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('trips the circuit at once on a rate-limit response', async () => {
+    const provider = createProvider('limited', {
+      fetchQuote: vi.fn((symbol: string) =>
+        Promise.resolve({
+          ...createErrorQuote(symbol, 'Rate limited'),
+          retryAfter: 90,
+        })
+      ),
+    });
+
+    const [limited] = await fetchQuotesWithLimits(['AAPL'], [provider]);
+    expect(limited.retryAfter).toBe(90);
+    expect(getProviderHealth(provider)).toMatchObject({
+      state: 'open',
+      retryAt: '2024-03-15T15:01:30.000Z',
+    });
+  });
+});
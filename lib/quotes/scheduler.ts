@@ -0,0 +1,340 @@
+import type { StockPrice } from '@/lib/api';
+import { getSymbolCurrency } from '@/lib/symbols';
+import {
+  getProviderCooldown,
+  isProviderAvailable,
+  recordProviderCall,
+} from './health';
+import { createErrorQuote, type QuoteProvider, type RateLimit } from './types';
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface ProviderFailure {
+  provider: QuoteProvider;
+  result: StockPrice;
+}
+
+// How long a request may queue for a provider token before giving up on it
+const DEFAULT_MAX_WAIT_MS = 10 * 1000;
+
+const buckets = new Map<string, TokenBucket>();
+
+const getMaxWaitMs = (): number => {
+  const maxWait = Number(process.env.QUOTE_QUEUE_MAX_WAIT_MS);
+  return Number.isFinite(maxWait) && maxWait >= 0
+    ? maxWait
+    : DEFAULT_MAX_WAIT_MS;
+};
+
+const getBucket = (id: string, rateLimit: RateLimit): TokenBucket => {
+  let bucket = buckets.get(id);
+
+  if (!bucket) {
+    bucket = {
+      tokens: rateLimit.requests,
+      capacity: rateLimit.requests,
+      refillPerMs: rateLimit.requests / rateLimit.intervalMs,
+      updatedAt: Date.now(),
+    };
+    buckets.set(id, bucket);
+  }
+
+  const now = Date.now();
+  bucket.tokens = Math.min(
+    bucket.capacity,
+    bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs
+  );
+  bucket.updatedAt = now;
+  return bucket;
+};
+
+/**
+ * Milliseconds until the provider can make another upstream call
+ */
+const getWaitMs = (provider: QuoteProvider): number => {
+  if (!provider.rateLimit) {
+    return 0;
+  }
+
+  const bucket = getBucket(provider.id, provider.rateLimit);
+  return bucket.tokens >= 1 ? 0 : (1 - bucket.tokens) / bucket.refillPerMs;
+};
+
+/**
+ * Reserve one upstream call. Returns how long to wait before making it,
+ * or null (reserving nothing) if that would exceed `maxWaitMs`.
+ */
+const reserveCall = (
+  provider: QuoteProvider,
+  maxWaitMs: number
+): number | null => {
+  if (!provider.rateLimit) {
+    return 0;
+  }
+
+  const wait = getWaitMs(provider);
+  if (wait > maxWaitMs) {
+    return null;
+  }
+
+  // Tokens may go negative: each queued call pushes the next one further out
+  getBucket(provider.id, provider.rateLimit).tokens -= 1;
+  return wait;
+};
+
+/**
+ * Drain a provider's bucket after the upstream API reports a rate limit
+ */
+const exhaustProvider = (provider: QuoteProvider, retryAfter: number) => {
+  if (!provider.rateLimit) {
+    return;
+  }
+
+  const bucket = getBucket(provider.id, provider.rateLimit);
+  bucket.tokens = Math.min(
+    bucket.tokens,
+    1 - retryAfter * 1000 * bucket.refillPerMs
+  );
+};
+
+/**
+ * Seconds until a provider can next make an upstream call
+ */
+export const getProviderRetryAfter = (provider: QuoteProvider): number => {
+  return Math.ceil(getWaitMs(provider) / 1000);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Call a provider for a group of symbols: one bulk request when the
+ * provider supports it, otherwise one request for the single symbol
+ */
+const fetchGroup = async (
+  provider: QuoteProvider,
+  group: string[],
+  delayMs: number
+): Promise<StockPrice[]> => {
+  if (delayMs > 0) {
+    await wait(delayMs);
+  }
+
+  const startedAt = Date.now();
+  const quotes =
+    provider.fetchQuotes && group.length > 1
+      ? await provider.fetchQuotes(group)
+      : await Promise.all(group.map((symbol) => provider.fetchQuote(symbol)));
+
+  recordProviderCall(provider, quotes, Date.now() - startedAt);
+  return quotes;
+};
+
+/**
+ * Keep the soonest retry time seen for a symbol across providers
+ */
+const recordRetryAfter = (
+  retryAfter: Map<string, number>,
+  symbol: string,
+  seconds: number
+) => {
+  retryAfter.set(symbol, Math.min(retryAfter.get(symbol) ?? seconds, seconds));
+};
+
+const addFailure = (
+  failures: Map<string, ProviderFailure[]>,
+  provider: QuoteProvider,
+  result: StockPrice
+) => {
+  failures.set(result.symbol, [
+    ...(failures.get(result.symbol) ?? []),
+    { provider, result },
+  ]);
+};
+
+/**
+ * Result for a symbol no provider could serve. Without provider errors the
+ * symbol was deferred by rate limits or open circuits.
+ */
+const buildUnservedQuote = (
+  symbol: string,
+  failures: ProviderFailure[],
+  retryAfter: number | undefined
+): StockPrice => {
+  if (failures.length === 0) {
+    return {
+      ...createErrorQuote(symbol, 'Quote providers busy, retry later'),
+      retryAfter,
+    };
+  }
+
+  const [primary] = failures;
+  return {
+    ...primary.result,
+    error:
+      failures.length === 1
+        ? primary.result.error
+        : failures
+            .map(({ provider, result }) => `${provider.name}: ${result.error}`)
+            .join('; '),
+    retryAfter,
+  };
+};
+
+/**
+ * Start (or queue) upstream calls for as many symbols as the provider's
+ * bucket allows within `maxWaitMs`; the rest are deferred, as are all
+ * symbols while the provider's circuit is open
+ */
+const dispatchToProvider = (
+  provider: QuoteProvider,
+  symbols: string[],
+  maxWaitMs: number,
+  retryAfter: Map<string, number>
+): { calls: Promise<StockPrice[]>[]; deferred: string[] } => {
+  // Skip providers whose circuit is open instead of paying for a failure
+  if (!isProviderAvailable(provider)) {
+    const seconds = getProviderCooldown(provider);
+    for (const symbol of symbols) {
+      recordRetryAfter(retryAfter, symbol, seconds);
+    }
+    return { calls: [], deferred: symbols };
+  }
+
+  const groups =
+    provider.capabilities.batch && provider.fetchQuotes
+      ? chunk(symbols, provider.maxBatchSize ?? symbols.length)
+      : symbols.map((symbol) => [symbol]);
+
+  const deferred: string[] = [];
+  const calls: Promise<StockPrice[]>[] = [];
+
+  for (const group of groups) {
+    const delayMs = reserveCall(provider, maxWaitMs);
+
+    if (delayMs === null) {
+      const seconds = getProviderRetryAfter(provider);
+      for (const symbol of group) {
+        recordRetryAfter(retryAfter, symbol, seconds);
+      }
+      deferred.push(...group);
+      continue;
+    }
+
+    calls.push(fetchGroup(provider, group, delayMs));
+  }
+
+  return { calls, deferred };
+};
+
+interface QuoteRun {
+  maxWaitMs: number;
+  results: Map<string, StockPrice>;
+  failures: Map<string, ProviderFailure[]>;
+  retryAfter: Map<string, number>;
+}
+
+/**
+ * Serve what the first provider can, then hand the symbols it deferred,
+ * failed or does not cover to the next. Providers are tried one at a time so
+ * a fallback is only called for what the providers before it missed.
+ */
+const fetchFromProviders = async (
+  providers: QuoteProvider[],
+  symbols: string[],
+  run: QuoteRun
+): Promise<void> => {
+  const [provider, ...fallbacks] = providers;
+  if (!provider || symbols.length === 0) {
+    return;
+  }
+
+  // Listings the provider does not cover go straight to the next one
+  const uncovered = symbols.filter(
+    (symbol) => provider.supportsSymbol?.(symbol) === false
+  );
+  for (const symbol of uncovered) {
+    addFailure(
+      run.failures,
+      provider,
+      createErrorQuote(symbol, `Not covered by ${provider.name}`)
+    );
+  }
+
+  const { calls, deferred } = dispatchToProvider(
+    provider,
+    symbols.filter((symbol) => !uncovered.includes(symbol)),
+    run.maxWaitMs,
+    run.retryAfter
+  );
+
+  const quotes = (await Promise.all(calls)).flat();
+  const failed: string[] = [];
+  for (const quote of quotes) {
+    if (!quote.error) {
+      // Providers rarely report a currency; fall back to the listing's
+      run.results.set(quote.symbol, {
+        ...quote,
+        currency: quote.currency ?? getSymbolCurrency(quote.symbol) ?? 'USD',
+      });
+      continue;
+    }
+
+    if (quote.retryAfter) {
+      exhaustProvider(provider, quote.retryAfter);
+      recordRetryAfter(run.retryAfter, quote.symbol, quote.retryAfter);
+    }
+    addFailure(run.failures, provider, quote);
+    failed.push(quote.symbol);
+  }
+
+  await fetchFromProviders(
+    fallbacks,
+    [...deferred, ...failed, ...uncovered],
+    run
+  );
+};
+
+/**
+ * Fetch quotes for several symbols, falling back through providers in
+ * priority order. Symbols are batched where a provider supports it, calls
+ * are paced by each provider's token bucket, providers with an open circuit
+ * are skipped, and symbols that cannot be served within the queue limit come
+ * back with a `retryAfter`.
+ */
+export async function fetchQuotesWithLimits(
+  symbols: string[],
+  providers: QuoteProvider[]
+): Promise<StockPrice[]> {
+  const run: QuoteRun = {
+    maxWaitMs: getMaxWaitMs(),
+    results: new Map(),
+    failures: new Map(),
+    retryAfter: new Map(),
+  };
+
+  await fetchFromProviders(providers, Array.from(new Set(symbols)), run);
+
+  return symbols.map(
+    (symbol) =>
+      run.results.get(symbol) ??
+      buildUnservedQuote(
+        symbol,
+        run.failures.get(symbol) ?? [],
+        run.retryAfter.get(symbol)
+      )
+  );
+}
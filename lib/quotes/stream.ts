@@ -0,0 +1,316 @@
+import type { StockPrice } from '@/lib/api';
+import { isCryptoSymbol, toProviderSymbol } from '@/lib/symbols';
+import { getMarketSession } from '@/lib/tradingCalendar';
+import { getCachedQuotes } from './cache';
+import { getSimulatedNow } from './marketSim';
+import { fetchQuotesWithLimits } from './scheduler';
+import type { QuoteProvider } from './types';
+
+interface FinnhubTrade {
+  s: string; // Symbol
+  p: number; // Last price
+  t: number; // Timestamp (ms)
+  v: number; // Volume
+}
+
+interface FinnhubTradeMessage {
+  type: string;
+  data?: FinnhubTrade[];
+}
+
+export interface QuoteStreamOptions {
+  symbols: string[];
+  providers: QuoteProvider[];
+  onQuotes: (quotes: StockPrice[]) => void;
+  intervalMs?: number;
+}
+
+// Polling cadence; the shared cache keeps upstream calls within quota
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+const FINNHUB_SOCKET_URL = 'wss://ws.finnhub.io';
+
+// A dropped socket reconnects after 1 s, then 2 s, 4 s... up to a minute
+const SOCKET_RETRY_BASE_MS = 1000;
+const SOCKET_RETRY_MAX_MS = 60 * 1000;
+
+const getIntervalMs = (): number => {
+  const interval = Number(process.env.QUOTE_STREAM_INTERVAL_MS);
+  return Number.isFinite(interval) && interval > 0
+    ? interval
+    : DEFAULT_INTERVAL_MS;
+};
+
+const fetchQuotes = (symbols: string[], providers: QuoteProvider[]) =>
+  getCachedQuotes(symbols, (uncached) =>
+    fetchQuotesWithLimits(uncached, providers)
+  );
+
+/**
+ * Symbols whose price can move now: all of them while the exchange has a
+ * session (pre-market through after-hours), else only those that trade
+ * around the clock. The demo market keeps its own, possibly replayed, time.
+ */
+const getTradingSymbols = (
+  symbols: string[],
+  providers: QuoteProvider[]
+): string[] => {
+  const now = providers.some((provider) => provider.id === 'demo')
+    ? getSimulatedNow()
+    : new Date();
+  return getMarketSession(now).status === 'closed'
+    ? symbols.filter(isCryptoSymbol)
+    : symbols;
+};
+
+const parseTradeMessage = (data: unknown): FinnhubTradeMessage | null => {
+  try {
+    return JSON.parse(String(data));
+  } catch (_error) {
+    return null;
+  }
+};
+
+type TradeListener = (trades: FinnhubTrade[]) => void;
+
+// Finnhub allows one socket per API key, so every stream shares one.
+// Symbols are counted so each is subscribed while any stream wants it.
+const finnhubSocket = {
+  socket: null as WebSocket | null,
+  attempts: 0,
+  retryTimer: undefined as ReturnType<typeof setTimeout> | undefined,
+  symbolCounts: new Map<string, number>(),
+  listeners: new Set<TradeListener>(),
+};
+
+const sendSubscription = (
+  type: 'subscribe' | 'unsubscribe',
+  symbol: string
+) => {
+  // Symbols added while connecting are subscribed once the socket opens
+  if (finnhubSocket.socket?.readyState === WebSocket.OPEN) {
+    finnhubSocket.socket.send(JSON.stringify({ type, symbol }));
+  }
+};
+
+const handleTradeMessage = (event: MessageEvent) => {
+  // Malformed messages are skipped; polling still covers the symbols
+  const message = parseTradeMessage(event.data);
+  if (message?.type !== 'trade' || !message.data) {
+    return;
+  }
+
+  // A message can hold many trades per symbol; keep the most recent
+  const trades = new Map<string, FinnhubTrade>();
+  for (const trade of message.data) {
+    trades.set(trade.s, trade);
+  }
+
+  for (const listener of finnhubSocket.listeners) {
+    listener(Array.from(trades.values()));
+  }
+};
+
+const connectFinnhubSocket = (apiKey: string) => {
+  const next = new WebSocket(`${FINNHUB_SOCKET_URL}?token=${apiKey}`);
+  finnhubSocket.socket = next;
+
+  next.addEventListener('open', () => {
+    finnhubSocket.attempts = 0;
+    for (const symbol of finnhubSocket.symbolCounts.keys()) {
+      next.send(JSON.stringify({ type: 'subscribe', symbol }));
+    }
+  });
+  next.addEventListener('message', handleTradeMessage);
+  // Errors close the socket too, so reconnecting on close covers both
+  next.addEventListener('close', () => {
+    // Closed on purpose after the last stream left
+    if (finnhubSocket.socket !== next) {
+      return;
+    }
+    const delay = Math.min(
+      SOCKET_RETRY_MAX_MS,
+      SOCKET_RETRY_BASE_MS * 2 ** finnhubSocket.attempts
+    );
+    finnhubSocket.attempts += 1;
+    finnhubSocket.retryTimer = setTimeout(() => {
+      finnhubSocket.retryTimer = undefined;
+      connectFinnhubSocket(apiKey);
+    }, delay);
+  });
+};
+
+/**
+ * Receive trades for some Finnhub symbols over the shared socket, opening it
+ * for the first listener. The returned function leaves again; the socket is
+ * closed when the last listener leaves.
+ */
+const joinFinnhubSocket = (
+  apiKey: string,
+  symbols: string[],
+  listener: TradeListener
+): (() => void) => {
+  const { symbolCounts, listeners } = finnhubSocket;
+
+  listeners.add(listener);
+  for (const symbol of symbols) {
+    const count = (symbolCounts.get(symbol) ?? 0) + 1;
+    symbolCounts.set(symbol, count);
+    if (count === 1) {
+      sendSubscription('subscribe', symbol);
+    }
+  }
+
+  if (!(finnhubSocket.socket || finnhubSocket.retryTimer)) {
+    connectFinnhubSocket(apiKey);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    for (const symbol of symbols) {
+      const count = (symbolCounts.get(symbol) ?? 0) - 1;
+      if (count > 0) {
+        symbolCounts.set(symbol, count);
+        continue;
+      }
+      symbolCounts.delete(symbol);
+      sendSubscription('unsubscribe', symbol);
+    }
+
+    if (listeners.size === 0) {
+      const { socket } = finnhubSocket;
+      clearTimeout(finnhubSocket.retryTimer);
+      finnhubSocket.retryTimer = undefined;
+      finnhubSocket.socket = null;
+      finnhubSocket.attempts = 0;
+      socket?.close();
+    }
+  };
+};
+
+/**
+ * Follow Finnhub trades for a stream when a key is set and the runtime
+ * provides WebSocket (Node 22+). Trades carry only a price, so change is
+ * computed against the previous close from the last polled quote.
+ */
+const openFinnhubSocket = (
+  symbols: string[],
+  latest: Map<string, StockPrice>,
+  emit: (quotes: StockPrice[]) => void
+): (() => void) | null => {
+  const apiKey = process.env.FINNHUB_API_KEY;
+  if (!apiKey || typeof WebSocket === 'undefined') {
+    return null;
+  }
+
+  // Trades arrive under Finnhub's ticker format; map back to ours. Listings
+  // Finnhub does not cover (crypto pairs) keep polling.
+  const symbolsByFinnhub = new Map(
+    symbols.flatMap((symbol) => {
+      const finnhubSymbol = toProviderSymbol(symbol, 'finnhub');
+      return finnhubSymbol ? [[finnhubSymbol, symbol] as const] : [];
+    })
+  );
+
+  const handleTrades = (trades: FinnhubTrade[]) => {
+    const quotes: StockPrice[] = [];
+    for (const trade of trades) {
+      // The socket is shared; other streams' symbols are not ours to emit
+      const symbol = symbolsByFinnhub.get(trade.s);
+      const previous = symbol ? latest.get(symbol) : undefined;
+      if (!(symbol && previous) || previous.error) {
+        continue;
+      }
+
+      const previousClose = previous.price - previous.change;
+      const change = trade.p - previousClose;
+      quotes.push({
+        symbol,
+        price: trade.p,
+        change,
+        changePercent:
+          previousClose > 0
+            ? `${((change / previousClose) * 100).toFixed(2)}%`
+            : '0.00%',
+        source: 'finnhub',
+        asOf: new Date(trade.t).toISOString(),
+        currency: previous.currency,
+      });
+    }
+
+    emit(quotes);
+  };
+
+  return joinFinnhubSocket(
+    apiKey,
+    Array.from(symbolsByFinnhub.keys()),
+    handleTrades
+  );
+};
+
+/**
+ * Push quote updates for a symbol set until the returned function is
+ * called. The first update holds every symbol; later ones only the
+ * symbols whose quote changed.
+ */
+export const subscribeToQuotes = ({
+  symbols,
+  providers,
+  onQuotes,
+  intervalMs = getIntervalMs(),
+}: QuoteStreamOptions): (() => void) => {
+  const latest = new Map<string, StockPrice>();
+  let closed = false;
+
+  const emit = (quotes: StockPrice[]) => {
+    const changed = quotes.filter((quote) => {
+      const previous = latest.get(quote.symbol);
+      if (!previous) {
+        return true;
+      }
+
+      // Polled (cached) quotes must not overwrite newer socket trades
+      if (previous.asOf && quote.asOf && quote.asOf < previous.asOf) {
+        return false;
+      }
+      return previous.price !== quote.price || previous.asOf !== quote.asOf;
+    });
+
+    for (const quote of changed) {
+      latest.set(quote.symbol, quote);
+    }
+
+    if (!closed && changed.length > 0) {
+      onQuotes(changed);
+    }
+  };
+
+  const poll = async (pollSymbols: string[]) => {
+    if (pollSymbols.length === 0) {
+      return;
+    }
+    try {
+      emit(await fetchQuotes(pollSymbols, providers));
+    } catch (_error) {
+      // A failed poll is retried on the next tick
+    }
+  };
+
+  const useSocket = providers.some((provider) => provider.id === 'finnhub');
+  const closeSocket = useSocket
+    ? openFinnhubSocket(symbols, latest, emit)
+    : null;
+
+  // Later polls skip symbols whose market is closed
+  poll(symbols);
+  const timer = setInterval(
+    () => poll(getTradingSymbols(symbols, providers)),
+    intervalMs
+  );
+
+  return () => {
+    closed = true;
+    clearInterval(timer);
+    closeSocket?.();
+  };
+};
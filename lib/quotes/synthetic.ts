@@ -0,0 +1,156 @@
+import type { PriceBar } from '@/lib/api';
+import { isEarlyClose, isTradingDay } from '@/lib/tradingCalendar';
+import { exchangeTimeToIso } from './time';
+
+/**
+ * Every synthetic series starts here, so a given date always yields the
+ * same bar
+ */
+export const SERIES_START_DATE = '2020-01-01';
+
+const SERIES_START = Date.parse(`${SERIES_START_DATE}T00:00:00Z`);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 09:30–16:00 regular session in 5-minute bars, or 09:30–13:00 on early
+// close days
+const INTRADAY_BAR_MINUTES = 5;
+const INTRADAY_BARS_PER_SESSION = 78;
+const EARLY_CLOSE_BARS_PER_SESSION = 42;
+
+// Park–Miller minimal standard generator parameters
+const MODULUS = 2_147_483_647;
+const MULTIPLIER = 48_271;
+
+/**
+ * Deterministic string hash in [1, MODULUS), used to derive seeds from symbols
+ */
+export const hashSeed = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) % MODULUS;
+  }
+  return hash || 1;
+};
+
+/**
+ * Seeded Park–Miller generator returning floats in (0, 1)
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed % MODULUS || 1;
+  return () => {
+    state = (state * MULTIPLIER) % MODULUS;
+    return state / MODULUS;
+  };
+};
+
+/**
+ * Round to whole cents
+ */
+export const roundPrice = (value: number): number =>
+  Math.round(value * 100) / 100;
+
+const seedFor = (seed: string, key: string): number =>
+  hashSeed(seed ? `${seed}:${key}` : key);
+
+/**
+ * Synthetic daily bars for a symbol between two dates (inclusive), one for
+ * each NYSE trading day (no weekends or exchange holidays); the same symbol
+ * and seed always produce the same walk.
+ */
+export const generateDailyBars = (
+  symbol: string,
+  from: Date,
+  to: Date,
+  seed = ''
+): PriceBar[] => {
+  const random = createRandom(seedFor(seed, symbol));
+  const volatility = 0.01 + random() * 0.02;
+  const baseVolume = 1_000_000 + random() * 9_000_000;
+  let close = 50 + random() * 250;
+
+  const fromDate = from.toISOString().slice(0, 10);
+  const bars: PriceBar[] = [];
+
+  for (let time = SERIES_START; time <= to.getTime(); time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    if (!isTradingDay(date)) {
+      continue;
+    }
+
+    const open = close * (1 + (random() - 0.5) * volatility * 0.5);
+    close = Math.max(1, open * (1 + (random() - 0.5) * 2 * volatility));
+    const high = Math.max(open, close) * (1 + (random() * volatility) / 2);
+    const low = Math.min(open, close) * (1 - (random() * volatility) / 2);
+    const volume = Math.floor(baseVolume * (0.5 + random()));
+
+    if (date >= fromDate) {
+      bars.push({
+        date,
+        open: roundPrice(open),
+        high: roundPrice(high),
+        low: roundPrice(low),
+        close: roundPrice(close),
+        volume,
+      });
+    }
+  }
+
+  return bars;
+};
+
+/**
+ * Synthetic 5-minute bars for one session, bridged from the daily bar's
+ * open to its close so intraday and daily series agree. Bars after `now`
+ * are omitted.
+ */
+export const generateIntradayBars = (
+  symbol: string,
+  daily: PriceBar,
+  now = new Date(),
+  seed = ''
+): PriceBar[] => {
+  const random = createRandom(seedFor(seed, `${symbol}:${daily.date}`));
+  const sessionOpen = new Date(
+    exchangeTimeToIso(`${daily.date} 09:30:00`)
+  ).getTime();
+  const spread = (daily.high - daily.low) / 4;
+  const barCount = isEarlyClose(daily.date)
+    ? EARLY_CLOSE_BARS_PER_SESSION
+    : INTRADAY_BARS_PER_SESSION;
+
+  // Random walk pinned to zero at both ends (a Brownian bridge)
+  const walk = [0];
+  for (let i = 1; i <= barCount; i++) {
+    walk.push(walk[i - 1] + (random() - 0.5) * spread);
+  }
+  const drift = walk[barCount];
+  const prices = walk.map(
+    (value, i) =>
+      daily.open +
+      ((daily.close - daily.open) * i) / barCount +
+      value -
+      (drift * i) / barCount
+  );
+
+  const bars: PriceBar[] = [];
+  for (let i = 0; i < barCount; i++) {
+    const time = sessionOpen + i * INTRADAY_BAR_MINUTES * 60 * 1000;
+    if (time > now.getTime()) {
+      break;
+    }
+
+    const open = prices[i];
+    const close = prices[i + 1];
+    bars.push({
+      date: new Date(time).toISOString(),
+      open: roundPrice(open),
+      high: roundPrice(Math.max(open, close) + (random() * spread) / 4),
+      low: roundPrice(Math.min(open, close) - (random() * spread) / 4),
+      close: roundPrice(close),
+      volume: Math.floor((daily.volume / barCount) * (0.5 + random())),
+    });
+  }
+
+  return bars;
+};
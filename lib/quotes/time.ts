@@ -0,0 +1,52 @@
+// US exchanges quote times in New York local time
+const EXCHANGE_TIME_ZONE = 'America/New_York';
+
+const offsetFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EXCHANGE_TIME_ZONE,
+  timeZoneName: 'shortOffset',
+});
+
+// en-CA formats dates as YYYY-MM-DD
+const dateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: EXCHANGE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+const OFFSET_REGEX = /GMT([+-]\d{1,2})(?::(\d{2}))?/;
+
+/**
+ * Offset of exchange time from UTC in minutes at an instant (-300 for EST)
+ */
+export const getExchangeOffsetMinutes = (date: Date): number => {
+  const zoneName =
+    offsetFormatter
+      .formatToParts(date)
+      .find((part) => part.type === 'timeZoneName')?.value ?? '';
+  const match = OFFSET_REGEX.exec(zoneName);
+
+  if (!match) {
+    return 0;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  return hours * 60 + Math.sign(hours) * minutes;
+};
+
+/**
+ * Convert exchange wall-clock time ("2024-01-02 15:55:00") to an ISO timestamp
+ */
+export const exchangeTimeToIso = (local: string): string => {
+  const asUtc = new Date(`${local.replace(' ', 'T')}Z`);
+  const offset = getExchangeOffsetMinutes(asUtc);
+  return new Date(asUtc.getTime() - offset * 60 * 1000).toISOString();
+};
+
+/**
+ * Exchange-local calendar date (YYYY-MM-DD) of an instant
+ */
+export const getExchangeDate = (date: Date): string => {
+  return dateFormatter.format(date);
+};
@@ -0,0 +1,156 @@
+import type {
+  HistoryInterval,
+  HistoryRange,
+  PriceBar,
+  PriceHistory,
+  StockPrice,
+} from '@/lib/api';
+
+/**
+ * Features a quote provider supports beyond single-symbol quotes
+ */
+export interface ProviderCapabilities {
+  batch: boolean;
+  intraday: boolean;
+  historical: boolean;
+}
+
+/**
+ * Parameters for a historical price request
+ */
+export interface HistoryOptions {
+  range: HistoryRange;
+  interval: HistoryInterval;
+}
+
+/**
+ * Upstream request allowance: `requests` calls per `intervalMs`
+ */
+export interface RateLimit {
+  requests: number;
+  intervalMs: number;
+}
+
+/**
+ * A source of stock quotes that can be registered with the provider registry
+ */
+export interface QuoteProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+  /** Omit for providers without an upstream quota */
+  rateLimit?: RateLimit;
+  /** Most symbols one `fetchQuotes` call accepts */
+  maxBatchSize?: number;
+  isConfigured: () => boolean;
+  /** Whether the provider covers a listing; assumed true when omitted */
+  supportsSymbol?: (symbol: string) => boolean;
+  fetchQuote: (symbol: string) => Promise<StockPrice>;
+  /** Required when `capabilities.batch` is true; costs one request */
+  fetchQuotes?: (symbols: string[]) => Promise<StockPrice[]>;
+  /** Required when `capabilities.historical` is true */
+  fetchHistory?: (
+    symbol: string,
+    options: HistoryOptions
+  ) => Promise<PriceHistory>;
+}
+
+/**
+ * Calendar days covered by each history range
+ */
+export const HISTORY_RANGE_DAYS: Record<HistoryRange, number> = {
+  '1d': 1,
+  '5d': 5,
+  '1m': 31,
+  '3m': 92,
+  '6m': 183,
+  '1y': 365,
+  '5y': 1826,
+};
+
+/**
+ * Ranges short enough to be served as intraday bars
+ */
+export const INTRADAY_RANGES: HistoryRange[] = ['1d', '5d'];
+
+/**
+ * Earliest instant included in a history range ending at `now`
+ */
+export const getRangeStart = (range: HistoryRange, now = new Date()): Date => {
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - HISTORY_RANGE_DAYS[range]);
+  return start;
+};
+
+/**
+ * Trim bars (oldest first) to the requested range. Intraday ranges count
+ * trading sessions rather than calendar days, so "1d" on a Monday morning
+ * still returns Friday's session.
+ */
+export const trimBarsToRange = (
+  bars: PriceBar[],
+  options: HistoryOptions,
+  now = new Date()
+): PriceBar[] => {
+  if (options.interval === 'intraday') {
+    const sessions = Array.from(
+      new Set(bars.map((bar) => bar.date.slice(0, 10)))
+    ).slice(-HISTORY_RANGE_DAYS[options.range]);
+    return bars.filter((bar) => sessions.includes(bar.date.slice(0, 10)));
+  }
+
+  const rangeStart = getRangeStart(options.range, now)
+    .toISOString()
+    .slice(0, 10);
+  return bars.filter((bar) => bar.date >= rangeStart);
+};
+
+/**
+ * Read a calls-per-minute limit from the environment
+ */
+export const getRateLimitFromEnv = (
+  name: string,
+  defaultPerMinute: number
+): RateLimit => {
+  const perMinute = Number(process.env[name]);
+  return {
+    requests:
+      Number.isFinite(perMinute) && perMinute > 0
+        ? perMinute
+        : defaultPerMinute,
+    intervalMs: 60 * 1000,
+  };
+};
+
+/**
+ * Build a zero-valued quote carrying an error message
+ */
+export const createErrorQuote = (
+  symbol: string,
+  error: string,
+  source?: StockPrice['source']
+): StockPrice => ({
+  symbol,
+  price: 0,
+  change: 0,
+  changePercent: '0.00%',
+  error,
+  source,
+});
+
+/**
+ * Build an empty price history carrying an error message
+ */
+export const createErrorHistory = (
+  symbol: string,
+  options: HistoryOptions,
+  error: string,
+  source?: StockPrice['source']
+): PriceHistory => ({
+  symbol,
+  range: options.range,
+  interval: options.interval,
+  bars: [],
+  error,
+  source,
+});
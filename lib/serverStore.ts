@@ -0,0 +1,129 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { Database } from 'node-sqlite3-wasm';
+
+/**
+ * Storage backend for the saved data served by `/api/portfolio-store`
+ */
+export interface ServerStoreBackend {
+  entries: () => Record<string, string>;
+  set: (key: string, value: string) => void;
+  delete: (key: string) => void;
+}
+
+const DEFAULT_STORE_FILE = path.join('.data', 'portfolio-store.db');
+
+const BEARER_REGEX = /^Bearer (.+)$/;
+
+/**
+ * In-memory backend, lost when the server restarts
+ */
+export const createMemoryStoreBackend = (): ServerStoreBackend => {
+  const entries = new Map<string, string>();
+
+  return {
+    entries: () => Object.fromEntries(entries),
+    set: (key, value) => {
+      entries.set(key, value);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+  };
+};
+
+/**
+ * SQLite backend, so saved data survives server restarts. Each key is its
+ * own row, so writes from several devices only replace the keys they save.
+ */
+export const createSqliteStoreBackend = (
+  filePath: string
+): ServerStoreBackend => {
+  let database: Database | null = null;
+
+  const open = (): Database => {
+    if (!database) {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      database = new Database(filePath);
+      database.exec(
+        'CREATE TABLE IF NOT EXISTS entries (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at TEXT NOT NULL)'
+      );
+    }
+    return database;
+  };
+
+  return {
+    entries: () => {
+      const rows = open().all('SELECT key, value FROM entries');
+      return Object.fromEntries(
+        rows.map((row) => [String(row.key), String(row.value)])
+      );
+    },
+    set: (key, value) => {
+      open().run(
+        'INSERT INTO entries (key, value, updated_at) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at',
+        [key, value, new Date().toISOString()]
+      );
+    },
+    delete: (key) => {
+      open().run('DELETE FROM entries WHERE key = ?', [key]);
+    },
+  };
+};
+
+const createBackend = (): ServerStoreBackend => {
+  if (process.env.PORTFOLIO_STORE_BACKEND === 'memory') {
+    return createMemoryStoreBackend();
+  }
+  return createSqliteStoreBackend(
+    process.env.PORTFOLIO_STORE_FILE ||
+      path.join(process.cwd(), DEFAULT_STORE_FILE)
+  );
+};
+
+let backend: ServerStoreBackend | null = null;
+
+/**
+ * The backend saved data is kept in, created on first use
+ */
+export const getServerStoreBackend = (): ServerStoreBackend => {
+  backend ??= createBackend();
+  return backend;
+};
+
+/**
+ * Swap the backend (the previous backend's entries are not copied)
+ */
+export const setServerStoreBackend = (next: ServerStoreBackend): void => {
+  backend = next;
+};
+
+/**
+ * Whether the app is set to save to the server; the route refuses requests
+ * otherwise
+ */
+export const isServerStoreEnabled = (): boolean => {
+  return process.env.NEXT_PUBLIC_PORTFOLIO_STORE === 'server';
+};
+
+const digest = (value: string): Buffer => {
+  return createHash('sha256').update(value).digest();
+};
+
+/**
+ * Check a request's Authorization header against PORTFOLIO_STORE_TOKEN.
+ * Returns why the request is refused, or null when it may go ahead.
+ */
+export const authorizeServerStore = (
+  authorization: string | null,
+  token = process.env.PORTFOLIO_STORE_TOKEN
+): 'no-token' | 'unauthorized' | null => {
+  if (!token) {
+    return 'no-token';
+  }
+
+  const given = authorization?.match(BEARER_REGEX)?.[1] ?? '';
+  // Hashing first gives equal lengths, which timingSafeEqual needs
+  return timingSafeEqual(digest(given), digest(token)) ? null : 'unauthorized';
+};
@@ -1,60 +1,355 @@
+import { z } from 'zod';
+import { ASSET_TYPES, type AssetType, isCashPosition } from './assets';
+import {
+  convertAmount,
+  DEFAULT_BASE_CURRENCY,
+  type FxRates,
+  getFxRate,
+  getPositionCurrency,
+} from './fx';
+import { getSavedItem, removeSavedItem, setSavedItem } from './portfolioStore';
+import { getSymbolKey } from './symbols';
+import type { LotMethod } from './taxLots';
+import { createVersionedStore, type VersionedSpec } from './versionedStorage';
+
 export interface PortfolioPosition {
   symbol: string;
+  /** Quantity held; may be fractional (0.5 BTC, 12.345 shares) */
   shares: number;
   companyName: string;
+  /** Inferred from the symbol when missing (positions saved before it existed) */
+  assetType?: AssetType;
+  /** Currency of currentPrice, dailyChange and totalValue (ISO 4217, or GBX) */
+  currency?: string;
+  /** Annual percentage yield accrued by cash and money-market lines */
+  yieldPercent?: number;
+  /** ISO timestamp the current yield started accruing from */
+  yieldSince?: string;
+  /** Total amount paid for the position, in its currency */
+  costBasis?: number;
+  /** Date of the first purchase (YYYY-MM-DD) */
+  acquiredAt?: string;
+  /** Brokerage account(s) the position was imported from */
+  account?: string;
   currentPrice?: number;
   dailyChange?: number;
   dailyChangePercent?: string;
   totalValue?: number;
-  source?: 'alphavantage' | 'finnhub' | 'demo' | 'cache';
+  source?: 'alphavantage' | 'finnhub' | 'coingecko' | 'demo' | 'cache';
+  asOf?: string;
+  retryAfter?: number;
 }
 
+// Enough precision for satoshis without floating-point noise in sums
+const QUANTITY_DECIMALS = 8;
+
+export const roundQuantity = (quantity: number): number => {
+  return Number(quantity.toFixed(QUANTITY_DECIMALS));
+};
+
+/**
+ * Cost and purchase date of two purchases of one holding combined. The cost
+ * is only known if both costs are; the date is the earlier one.
+ */
+export const combinePurchases = (
+  a: Pick<PortfolioPosition, 'costBasis' | 'acquiredAt'>,
+  b: Pick<PortfolioPosition, 'costBasis' | 'acquiredAt'>
+): Pick<PortfolioPosition, 'costBasis' | 'acquiredAt'> => {
+  return {
+    costBasis:
+      a.costBasis !== undefined && b.costBasis !== undefined
+        ? a.costBasis + b.costBasis
+        : undefined,
+    acquiredAt: [a.acquiredAt, b.acquiredAt].filter(Boolean).sort()[0],
+  };
+};
+
+/**
+ * Cost basis left after changing a holding's quantity, at its average cost
+ */
+export const scaleCostBasis = (
+  position: PortfolioPosition,
+  shares: number
+): number | undefined => {
+  if (position.costBasis === undefined || position.shares <= 0) {
+    return;
+  }
+  return (position.costBasis * shares) / position.shares;
+};
+
+const optionalNumber = z.number().finite().optional();
+
+const storedPositionSchema = z.object({
+  symbol: z.string().min(1),
+  shares: z.number().finite(),
+  companyName: z.string(),
+  assetType: z.enum(ASSET_TYPES).optional(),
+  currency: z.string().optional(),
+  yieldPercent: optionalNumber,
+  yieldSince: z.string().optional(),
+  costBasis: optionalNumber,
+  acquiredAt: z.string().optional(),
+  account: z.string().optional(),
+  currentPrice: optionalNumber,
+  dailyChange: optionalNumber,
+  dailyChangePercent: z.string().optional(),
+  totalValue: optionalNumber,
+  source: z
+    .enum(['alphavantage', 'finnhub', 'coingecko', 'demo', 'cache'])
+    .optional(),
+  asOf: z.string().optional(),
+  retryAfter: optionalNumber,
+});
+
+/**
+ * One of the user's portfolios, such as a taxable account or an IRA
+ */
+export interface NamedPortfolio {
+  id: string;
+  name: string;
+}
+
+interface PortfolioRegistry {
+  /** Portfolio that loading and saving act on */
+  activeId: string;
+  portfolios: NamedPortfolio[];
+}
+
+/** Selects the merged view of every portfolio rather than one of them */
+export const ALL_PORTFOLIOS = 'all';
+
+const DEFAULT_PORTFOLIO: NamedPortfolio = {
+  id: 'default',
+  name: 'My Portfolio',
+};
+
+const MAX_PORTFOLIO_NAME_LENGTH = 40;
+
+const registryStore = createVersionedStore<PortfolioRegistry>(
+  'portfolios',
+  {
+    version: 1,
+    schema: z.object({
+      activeId: z.string(),
+      portfolios: z
+        .array(z.object({ id: z.string().min(1), name: z.string().min(1) }))
+        .min(1),
+    }),
+    migrations: [],
+  },
+  () => ({ activeId: DEFAULT_PORTFOLIO.id, portfolios: [DEFAULT_PORTFOLIO] })
+);
+
+/**
+ * Key a portfolio's data is saved under. The first portfolio keeps the
+ * plain keys it was saved under before there could be several.
+ */
+export const portfolioStorageKey = (key: string, id: string): string => {
+  return id === DEFAULT_PORTFOLIO.id ? key : `${key}:${id}`;
+};
+
+/**
+ * The user's portfolios in the order they were created
+ */
+export const listPortfolios = (): NamedPortfolio[] => {
+  return registryStore.load().portfolios;
+};
+
+/**
+ * Id of the portfolio that loading and saving act on
+ */
+export const getActivePortfolioId = (): string => {
+  const { activeId, portfolios } = registryStore.load();
+  return portfolios.some((portfolio) => portfolio.id === activeId)
+    ? activeId
+    : portfolios[0].id;
+};
+
 /**
- * Save portfolio positions to localStorage
+ * Make another portfolio the one loading and saving act on
  */
-export const savePortfolio = (positions: PortfolioPosition[]): void => {
-  try {
-    localStorage.setItem('portfolio', JSON.stringify(positions));
-  } catch (_error) {
-    // Silently fail for localStorage errors
+export const setActivePortfolio = (id: string): void => {
+  const registry = registryStore.load();
+  if (registry.portfolios.some((portfolio) => portfolio.id === id)) {
+    registryStore.save({ ...registry, activeId: id });
+  }
+};
+
+const checkPortfolioName = (
+  name: string,
+  portfolios: NamedPortfolio[],
+  id?: string
+): string | null => {
+  if (!name) {
+    return 'Enter a name';
+  }
+  if (name.length > MAX_PORTFOLIO_NAME_LENGTH) {
+    return `Use at most ${MAX_PORTFOLIO_NAME_LENGTH} characters`;
   }
+  const taken = portfolios.some(
+    (portfolio) =>
+      portfolio.id !== id && portfolio.name.toLowerCase() === name.toLowerCase()
+  );
+  return taken ? `There is already a portfolio named ${name}` : null;
 };
 
 /**
- * Load portfolio positions from localStorage
+ * Add an empty portfolio and make it the active one. Returns why when the
+ * name cannot be used.
  */
-export const loadPortfolio = (): PortfolioPosition[] => {
-  try {
-    const saved = localStorage.getItem('portfolio');
-    return saved ? JSON.parse(saved) : [];
-  } catch (_error) {
-    // Return empty array for localStorage errors
-    return [];
+export const createPortfolio = (name: string): NamedPortfolio | string => {
+  const registry = registryStore.load();
+  const trimmed = name.trim();
+  const error = checkPortfolioName(trimmed, registry.portfolios);
+  if (error) {
+    return error;
   }
+
+  const portfolio = { id: crypto.randomUUID(), name: trimmed };
+  registryStore.save({
+    activeId: portfolio.id,
+    portfolios: [...registry.portfolios, portfolio],
+  });
+  return portfolio;
 };
 
 /**
- * Clear portfolio from localStorage
+ * Rename a portfolio. Returns why when the name cannot be used.
  */
-export const clearPortfolio = (): void => {
-  try {
-    localStorage.removeItem('portfolio');
-  } catch (_error) {
-    // Silently fail for localStorage errors
+export const renamePortfolio = (id: string, name: string): string | null => {
+  const registry = registryStore.load();
+  const trimmed = name.trim();
+  const error = checkPortfolioName(trimmed, registry.portfolios, id);
+  if (error) {
+    return error;
+  }
+
+  registryStore.save({
+    ...registry,
+    portfolios: registry.portfolios.map((portfolio) =>
+      portfolio.id === id ? { ...portfolio, name: trimmed } : portfolio
+    ),
+  });
+  return null;
+};
+
+const removePortfolioData = (id: string): void => {
+  for (const key of ['portfolio', 'ledger', 'lotMethod']) {
+    removeSavedItem(portfolioStorageKey(key, id));
   }
 };
 
 /**
- * Check if portfolio exists in localStorage
+ * Delete a portfolio with its ledger. The last portfolio cannot be deleted;
+ * deleting the active one makes the first remaining one active.
  */
-export const hasPortfolio = (): boolean => {
-  try {
-    const saved = localStorage.getItem('portfolio');
-    return saved !== null && JSON.parse(saved).length > 0;
-  } catch (_error) {
-    // Return false for localStorage errors
-    return false;
+export const deletePortfolio = (id: string): string | null => {
+  const registry = registryStore.load();
+  const portfolios = registry.portfolios.filter(
+    (portfolio) => portfolio.id !== id
+  );
+  if (portfolios.length === 0) {
+    return 'The last portfolio cannot be deleted';
   }
+
+  removePortfolioData(id);
+  registryStore.save({
+    activeId: registry.activeId === id ? portfolios[0].id : registry.activeId,
+    portfolios,
+  });
+  return null;
+};
+
+// Bump the version and add a migration whenever the saved shape changes
+const portfolioSpec: VersionedSpec<PortfolioPosition[]> = {
+  version: 1,
+  schema: z.array(storedPositionSchema),
+  migrations: [
+    // Version 0 is the bare array saved before versioning, already in the
+    // version 1 shape
+    (data) => data,
+  ],
+};
+
+const positionsStore = (id: string) => {
+  return createVersionedStore(
+    portfolioStorageKey('portfolio', id),
+    portfolioSpec,
+    () => []
+  );
+};
+
+/**
+ * Save a portfolio's positions (the active portfolio's unless another is
+ * named)
+ */
+export const savePortfolio = (
+  positions: PortfolioPosition[],
+  id: string = getActivePortfolioId()
+): void => {
+  positionsStore(id).save(positions);
+};
+
+/**
+ * Load a portfolio's positions (the active portfolio's unless another is
+ * named), upgrading older saves. A save that cannot be
+ * read is quarantined and an empty portfolio returned.
+ */
+export const loadPortfolio = (
+  id: string = getActivePortfolioId()
+): PortfolioPosition[] => {
+  return positionsStore(id).load();
+};
+
+/**
+ * Clear the active portfolio and its ledger
+ */
+export const clearPortfolio = (): void => {
+  const id = getActivePortfolioId();
+  positionsStore(id).remove();
+  removeSavedItem(portfolioStorageKey('ledger', id));
+};
+
+/**
+ * Load how the active portfolio's sales pick tax lots; first in, first out
+ * unless changed
+ */
+export const loadLotMethod = (): LotMethod => {
+  const saved = getSavedItem(
+    portfolioStorageKey('lotMethod', getActivePortfolioId())
+  );
+  return saved === 'lifo' || saved === 'highestCost' ? saved : 'fifo';
+};
+
+/**
+ * Save how the active portfolio's sales pick tax lots
+ */
+export const saveLotMethod = (method: LotMethod): void => {
+  setSavedItem(
+    portfolioStorageKey('lotMethod', getActivePortfolioId()),
+    method
+  );
+};
+
+/**
+ * Check if the active portfolio has any positions
+ */
+export const hasPortfolio = (): boolean => {
+  return loadPortfolio().length > 0;
+};
+
+/**
+ * Load the currency portfolio totals are shown in
+ */
+export const loadBaseCurrency = (): string => {
+  return getSavedItem('baseCurrency') ?? DEFAULT_BASE_CURRENCY;
+};
+
+/**
+ * Save the currency portfolio totals are shown in
+ */
+export const saveBaseCurrency = (currency: string): void => {
+  setSavedItem('baseCurrency', currency);
 };
 
 /**
@@ -67,38 +362,279 @@ export const getPortfolioSymbols = (
 };
 
 /**
- * Calculate total portfolio value
+ * Add a position, merging shares into an existing position for the symbol
+ */
+export const addPosition = (
+  portfolio: PortfolioPosition[],
+  position: PortfolioPosition
+): PortfolioPosition[] => {
+  const existing = portfolio.find((p) => p.symbol === position.symbol);
+  if (!existing) {
+    return [...portfolio, position];
+  }
+
+  const shares = roundQuantity(existing.shares + position.shares);
+  return portfolio.map((p) =>
+    p === existing
+      ? {
+          ...p,
+          ...combinePurchases(existing, position),
+          shares,
+          totalValue: p.currentPrice ? p.currentPrice * shares : p.totalValue,
+        }
+      : p
+  );
+};
+
+/**
+ * Point a position at a different symbol, dropping its now-stale price.
+ * If the portfolio already holds that symbol the shares are merged.
+ */
+export const replacePositionSymbol = (
+  portfolio: PortfolioPosition[],
+  symbol: string,
+  replacement: { symbol: string; name: string; assetType?: AssetType }
+): PortfolioPosition[] => {
+  const position = portfolio.find((p) => p.symbol === symbol);
+  if (!position || symbol === replacement.symbol) {
+    return portfolio;
+  }
+
+  const corrected: PortfolioPosition = {
+    symbol: replacement.symbol,
+    shares: position.shares,
+    companyName: replacement.name,
+    assetType: replacement.assetType,
+    // What was paid does not depend on the ticker it was filed under
+    costBasis: position.costBasis,
+    acquiredAt: position.acquiredAt,
+    account: position.account,
+  };
+
+  if (portfolio.some((p) => p.symbol === replacement.symbol)) {
+    return addPosition(
+      portfolio.filter((p) => p !== position),
+      corrected
+    );
+  }
+  return portfolio.map((p) => (p === position ? corrected : p));
+};
+
+/**
+ * Positions of several portfolios as one, for the all-accounts view:
+ * holdings of the same symbol are added together
+ */
+export const mergePortfolios = (
+  portfolios: PortfolioPosition[][]
+): PortfolioPosition[] => {
+  return portfolios
+    .flat()
+    .reduce<PortfolioPosition[]>(
+      (merged, position) => addPosition(merged, position),
+      []
+    );
+};
+
+const isPortfolioList = (
+  portfolio: PortfolioPosition[] | PortfolioPosition[][]
+): portfolio is PortfolioPosition[][] => {
+  return portfolio.some((item) => Array.isArray(item));
+};
+
+/**
+ * Names of the portfolios holding each symbol, keyed by `getSymbolKey` so
+ * news tickers written differently still match
+ */
+export const getPortfolioNamesBySymbol = (
+  portfolios: { name: string; positions: PortfolioPosition[] }[]
+): Record<string, string[]> => {
+  const names: Record<string, string[]> = {};
+  for (const { name, positions } of portfolios) {
+    for (const { symbol } of positions) {
+      const key = getSymbolKey(symbol);
+      names[key] = [...(names[key] ?? []), name];
+    }
+  }
+  return names;
+};
+
+/**
+ * Calculate total portfolio value. With FX rates, each position's value is
+ * converted into the rates' base currency; positions without a rate are
+ * left out rather than mixed in unconverted. With several portfolios, their
+ * positions are merged first.
  */
 export const calculatePortfolioValue = (
-  portfolio: PortfolioPosition[]
+  portfolio: PortfolioPosition[] | PortfolioPosition[][],
+  fxRates?: FxRates
 ): number => {
-  return portfolio.reduce((total, position) => {
-    return total + (position.totalValue || 0);
+  const positions = isPortfolioList(portfolio)
+    ? mergePortfolios(portfolio)
+    : portfolio;
+  return positions.reduce((total, position) => {
+    const value = position.totalValue || 0;
+    if (!fxRates) {
+      return total + value;
+    }
+    const converted = convertAmount(
+      value,
+      getPositionCurrency(position),
+      fxRates
+    );
+    return total + (converted ?? 0);
   }, 0);
 };
 
 /**
- * Calculate portfolio daily change
+ * Calculate portfolio daily change. With FX rates, the change is measured in
+ * the base currency and `fxChange` is the part caused by exchange-rate moves
+ * since the previous close (yesterday's value revalued at today's rate).
  */
 export const calculatePortfolioDailyChange = (
-  portfolio: PortfolioPosition[]
+  portfolio: PortfolioPosition[],
+  fxRates?: FxRates
 ): {
   totalChange: number;
   totalChangePercent: number;
+  fxChange: number;
 } => {
-  const totalValue = calculatePortfolioValue(portfolio);
-  const totalChange = portfolio.reduce((total, position) => {
-    if (position.currentPrice && position.dailyChange && position.shares) {
-      return total + position.dailyChange * position.shares;
+  let totalChange = 0;
+  let fxChange = 0;
+  let previousValue = 0;
+
+  for (const position of portfolio) {
+    if (!(position.currentPrice && position.shares)) {
+      continue;
     }
-    return total;
-  }, 0);
+
+    const fx = fxRates
+      ? getFxRate(fxRates, getPositionCurrency(position))
+      : { rate: 1, previousRate: 1 };
+    if (!fx) {
+      continue;
+    }
+
+    const dailyChange = position.dailyChange ?? 0;
+    const previousPrice = position.currentPrice - dailyChange;
+    const currencyChange =
+      previousPrice * position.shares * (fx.rate - fx.previousRate);
+
+    totalChange += dailyChange * position.shares * fx.rate + currencyChange;
+    fxChange += currencyChange;
+    previousValue += previousPrice * position.shares * fx.previousRate;
+  }
 
   const totalChangePercent =
-    totalValue > 0 ? (totalChange / (totalValue - totalChange)) * 100 : 0;
+    previousValue > 0 ? (totalChange / previousValue) * 100 : 0;
 
   return {
     totalChange,
     totalChangePercent,
+    fxChange,
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gain or loss on a holding since it was bought
+ */
+export interface UnrealizedGain {
+  costBasis: number;
+  marketValue: number;
+  /** Market value less cost basis */
+  gain: number;
+  /** Holding-period return: the gain as a percentage of cost basis */
+  returnPercent: number;
+  /** Days since the first purchase, when its date is known */
+  daysHeld?: number;
+  /** Return per year, compounded; only for holdings kept a year or more */
+  annualizedPercent?: number;
+}
+
+/**
+ * Unrealized gain of a position in its own currency, or null without a cost
+ * basis or a price. Cash has no gain to report.
+ */
+export const calculateUnrealizedGain = (
+  position: PortfolioPosition,
+  now: Date = new Date()
+): UnrealizedGain | null => {
+  const { costBasis, totalValue } = position;
+  if (!costBasis || totalValue === undefined || isCashPosition(position)) {
+    return null;
+  }
+
+  const gain = totalValue - costBasis;
+  const acquired = position.acquiredAt
+    ? Date.parse(position.acquiredAt)
+    : Number.NaN;
+  const daysHeld = Number.isNaN(acquired)
+    ? undefined
+    : Math.max(0, Math.floor((now.getTime() - acquired) / DAY_MS));
+
+  return {
+    costBasis,
+    marketValue: totalValue,
+    gain,
+    returnPercent: (gain / costBasis) * 100,
+    daysHeld,
+    annualizedPercent:
+      daysHeld !== undefined && daysHeld >= 365
+        ? ((totalValue / costBasis) ** (365 / daysHeld) - 1) * 100
+        : undefined,
+  };
+};
+
+/**
+ * Unrealized gain across the positions with a cost basis. With FX rates,
+ * costs and values are both converted at today's rates, so the gain is the
+ * price move in each holding's own currency and leaves out any gain or
+ * loss from currency moves since purchase.
+ */
+export const calculatePortfolioUnrealizedGain = (
+  portfolio: PortfolioPosition[],
+  fxRates?: FxRates
+): {
+  costBasis: number;
+  marketValue: number;
+  gain: number;
+  returnPercent: number;
+  /** Positions the totals cover */
+  positionCount: number;
+} => {
+  let costBasis = 0;
+  let marketValue = 0;
+  let positionCount = 0;
+
+  for (const position of portfolio) {
+    const result = calculateUnrealizedGain(position);
+    if (!result) {
+      continue;
+    }
+
+    const currency = getPositionCurrency(position);
+    const cost = fxRates
+      ? convertAmount(result.costBasis, currency, fxRates)
+      : result.costBasis;
+    const value = fxRates
+      ? convertAmount(result.marketValue, currency, fxRates)
+      : result.marketValue;
+    if (cost === null || value === null) {
+      continue;
+    }
+
+    costBasis += cost;
+    marketValue += value;
+    positionCount++;
+  }
+
+  const gain = marketValue - costBasis;
+  return {
+    costBasis,
+    marketValue,
+    gain,
+    returnPercent: costBasis > 0 ? (gain / costBasis) * 100 : 0,
+    positionCount,
   };
 };
@@ -0,0 +1,179 @@
+import { type SymbolInfo, symbolMaster } from '@/data/symbols';
+import { getSymbolKey, normalizeSymbol } from './symbols';
+
+export interface SymbolMatch extends SymbolInfo {
+  score: number;
+}
+
+const DEFAULT_LIMIT = 10;
+
+// Match strength, strongest first
+export const MATCH_SCORES = {
+  exactTicker: 1000,
+  tickerPrefix: 800,
+  namePrefix: 600,
+  nameWordPrefix: 500,
+  nameContains: 400,
+  tickerTypo: 300,
+  nameWordTypo: 200,
+  nameInitials: 100,
+};
+
+/**
+ * Lower-case words without punctuation, for comparing company names
+ */
+export const normalizeName = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Edit distance counting adjacent transpositions as one edit ("tesal" is
+ * one away from "tesla"), giving up once it exceeds `max`
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Longer words tolerate more typos
+const allowedTypos = (word: string): number => {
+  if (word.length >= 7) {
+    return 2;
+  }
+  return word.length >= 4 ? 1 : 0;
+};
+
+/**
+ * Whether every query word is within typo distance of some name word
+ * (or a prefix of one, so "microsft corp" still matches)
+ */
+const matchesNameWithTypos = (queryWords: string[], nameWords: string[]) => {
+  return queryWords.every((queryWord) => {
+    const typos = allowedTypos(queryWord);
+    return (
+      typos > 0 &&
+      nameWords.some(
+        (nameWord) =>
+          editDistance(queryWord, nameWord, typos) <= typos ||
+          editDistance(queryWord, nameWord.slice(0, queryWord.length), typos) <=
+            typos
+      )
+    );
+  });
+};
+
+const scoreSymbol = (
+  info: SymbolInfo,
+  ticker: string,
+  name: string
+): number => {
+  const symbol = info.symbol;
+  const fullName = normalizeName(info.name);
+  const nameWords = fullName.split(' ');
+  const queryWords = name.split(' ').filter(Boolean);
+
+  if (symbol === ticker) {
+    return MATCH_SCORES.exactTicker;
+  }
+  if (ticker && symbol.startsWith(ticker)) {
+    // Prefer the shortest completion: "GOOG" before "GOOGL"
+    return MATCH_SCORES.tickerPrefix - (symbol.length - ticker.length);
+  }
+  if (name && fullName.startsWith(name)) {
+    // The whole name beats a longer one: "bitcoin" before "Bitcoin Cash"
+    return MATCH_SCORES.namePrefix + Number(fullName === name);
+  }
+  if (
+    queryWords.length > 0 &&
+    queryWords.every((word) =>
+      nameWords.some((nameWord) => nameWord.startsWith(word))
+    )
+  ) {
+    // Whole-word hits break ties: "berkshire b" prefers "Class B"
+    const wholeWords = queryWords.filter((word) => nameWords.includes(word));
+    return MATCH_SCORES.nameWordPrefix + wholeWords.length;
+  }
+  if (name.length >= 3 && fullName.includes(name)) {
+    return MATCH_SCORES.nameContains;
+  }
+  if (ticker.length >= 3 && editDistance(ticker, symbol, 1) <= 1) {
+    return MATCH_SCORES.tickerTypo;
+  }
+  if (matchesNameWithTypos(queryWords, nameWords)) {
+    return MATCH_SCORES.nameWordTypo;
+  }
+  if (
+    name.length >= 2 &&
+    nameWords.map((word) => word[0]).join('') === name.replace(/ /g, '')
+  ) {
+    return MATCH_SCORES.nameInitials;
+  }
+  return 0;
+};
+
+/**
+ * Search the bundled symbol master by ticker and company name, tolerating
+ * typos. Results are ordered by match strength, then ticker.
+ */
+export const searchSymbols = (
+  query: string,
+  limit = DEFAULT_LIMIT
+): SymbolMatch[] => {
+  // "brk-b" and "BRK B" should find BRK.B
+  const ticker =
+    normalizeSymbol(query) ?? query.trim().toUpperCase().replace(/\s+/g, '');
+  const name = normalizeName(query);
+
+  if (!(ticker || name)) {
+    return [];
+  }
+
+  return symbolMaster
+    .map((info) => ({ ...info, score: scoreSymbol(info, ticker, name) }))
+    .filter((match) => match.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.symbol.length - b.symbol.length ||
+        a.symbol.localeCompare(b.symbol)
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Look up a symbol in the symbol master by exact ticker
+ */
+export const getSymbolInfo = (symbol: string): SymbolInfo | undefined => {
+  const ticker = getSymbolKey(symbol);
+  return symbolMaster.find((info) => info.symbol === ticker);
+};
@@ -0,0 +1,356 @@
+// Ticker symbol model: root, share class and listing exchange.
+// Canonical form follows the common vendor convention: a dot before a US
+// share class (BRK.B), a dot-suffix for non-US listings (SHOP.TO, 7203.T) and
+// a dash before a non-US share class (RCI-B.TO). Crypto trades as a pair
+// against a fiat currency (BTC-USD).
+
+export type SymbolProvider = 'alphavantage' | 'finnhub';
+
+export interface ExchangeInfo {
+  /** Canonical suffix; empty for US listings */
+  suffix: string;
+  /** ISO 10383 market identifier; null for the US consolidated tape */
+  mic: string | null;
+  name: string;
+  country: string;
+  /** Currency prices are quoted in; GBX (pence) for London */
+  currency: string;
+  /** Alpha Vantage suffix, or null when Alpha Vantage has no coverage */
+  alphaVantageSuffix: string | null;
+}
+
+export interface ParsedSymbol {
+  root: string;
+  shareClass?: string;
+  exchange: ExchangeInfo;
+  /** Canonical form, e.g. BRK.B or RCI-B.TO */
+  symbol: string;
+}
+
+export const US_EXCHANGE: ExchangeInfo = {
+  suffix: '',
+  mic: null,
+  name: 'US',
+  country: 'US',
+  currency: 'USD',
+  alphaVantageSuffix: '',
+};
+
+// Non-US listings, keyed by canonical suffix (shared with Finnhub)
+const EXCHANGES: Record<string, ExchangeInfo> = {
+  TO: {
+    suffix: 'TO',
+    mic: 'XTSE',
+    name: 'Toronto Stock Exchange',
+    country: 'CA',
+    currency: 'CAD',
+    alphaVantageSuffix: 'TRT',
+  },
+  V: {
+    suffix: 'V',
+    mic: 'XTSX',
+    name: 'TSX Venture Exchange',
+    country: 'CA',
+    currency: 'CAD',
+    alphaVantageSuffix: 'TRV',
+  },
+  L: {
+    suffix: 'L',
+    mic: 'XLON',
+    name: 'London Stock Exchange',
+    country: 'GB',
+    currency: 'GBX',
+    alphaVantageSuffix: 'LON',
+  },
+  DE: {
+    suffix: 'DE',
+    mic: 'XETR',
+    name: 'Xetra',
+    country: 'DE',
+    currency: 'EUR',
+    alphaVantageSuffix: 'DEX',
+  },
+  F: {
+    suffix: 'F',
+    mic: 'XFRA',
+    name: 'Frankfurt Stock Exchange',
+    country: 'DE',
+    currency: 'EUR',
+    alphaVantageSuffix: 'FRK',
+  },
+  PA: {
+    suffix: 'PA',
+    mic: 'XPAR',
+    name: 'Euronext Paris',
+    country: 'FR',
+    currency: 'EUR',
+    alphaVantageSuffix: null,
+  },
+  AS: {
+    suffix: 'AS',
+    mic: 'XAMS',
+    name: 'Euronext Amsterdam',
+    country: 'NL',
+    currency: 'EUR',
+    alphaVantageSuffix: null,
+  },
+  SW: {
+    suffix: 'SW',
+    mic: 'XSWX',
+    name: 'SIX Swiss Exchange',
+    country: 'CH',
+    currency: 'CHF',
+    alphaVantageSuffix: null,
+  },
+  T: {
+    suffix: 'T',
+    mic: 'XTKS',
+    name: 'Tokyo Stock Exchange',
+    country: 'JP',
+    currency: 'JPY',
+    alphaVantageSuffix: null,
+  },
+  HK: {
+    suffix: 'HK',
+    mic: 'XHKG',
+    name: 'Hong Kong Stock Exchange',
+    country: 'HK',
+    currency: 'HKD',
+    alphaVantageSuffix: null,
+  },
+  SS: {
+    suffix: 'SS',
+    mic: 'XSHG',
+    name: 'Shanghai Stock Exchange',
+    country: 'CN',
+    currency: 'CNY',
+    alphaVantageSuffix: 'SHH',
+  },
+  SZ: {
+    suffix: 'SZ',
+    mic: 'XSHE',
+    name: 'Shenzhen Stock Exchange',
+    country: 'CN',
+    currency: 'CNY',
+    alphaVantageSuffix: 'SHZ',
+  },
+  KS: {
+    suffix: 'KS',
+    mic: 'XKRX',
+    name: 'Korea Exchange',
+    country: 'KR',
+    currency: 'KRW',
+    alphaVantageSuffix: null,
+  },
+  AX: {
+    suffix: 'AX',
+    mic: 'XASX',
+    name: 'Australian Securities Exchange',
+    country: 'AU',
+    currency: 'AUD',
+    alphaVantageSuffix: null,
+  },
+  NS: {
+    suffix: 'NS',
+    mic: 'XNSE',
+    name: 'National Stock Exchange of India',
+    country: 'IN',
+    currency: 'INR',
+    alphaVantageSuffix: null,
+  },
+  BO: {
+    suffix: 'BO',
+    mic: 'XBOM',
+    name: 'BSE',
+    country: 'IN',
+    currency: 'INR',
+    alphaVantageSuffix: 'BSE',
+  },
+  SA: {
+    suffix: 'SA',
+    mic: 'BVMF',
+    name: 'B3',
+    country: 'BR',
+    currency: 'BRL',
+    alphaVantageSuffix: 'SAO',
+  },
+};
+
+// Alpha Vantage suffix back to canonical suffix
+const ALPHA_VANTAGE_SUFFIXES = new Map(
+  Object.values(EXCHANGES)
+    .filter((exchange) => exchange.alphaVantageSuffix)
+    .map((exchange) => [exchange.alphaVantageSuffix as string, exchange.suffix])
+);
+
+// US roots are letters; many Asian listings use numeric codes (7203.T)
+const US_ROOT = /^[A-Z]{1,5}$/;
+const FOREIGN_ROOT = /^[A-Z0-9]{1,12}$/;
+const SHARE_CLASS = /^[A-Z]{1,2}$/;
+const SEPARATORS = /[.\-/\s]+/;
+
+// Fiat currencies crypto pairs are quoted against; USD when omitted
+const CRYPTO_QUOTE_CURRENCIES = ['USD', 'EUR', 'GBP'];
+const CRYPTO_BASE = /^[A-Z0-9]{2,10}$/;
+
+export interface CryptoPair {
+  base: string;
+  quote: string;
+  /** Canonical form, e.g. BTC-USD */
+  symbol: string;
+}
+
+/**
+ * Split a ticker into root, share class and exchange. Accepts the common
+ * separators for share classes (BRK.B, BRK-B, BRK/B, "BRK B") and both
+ * canonical and Alpha Vantage exchange suffixes (SHOP.TO, SHOP.TRT).
+ * Returns null if the input is not a plausible ticker.
+ */
+export const parseSymbol = (input: string): ParsedSymbol | null => {
+  const parts = input.trim().toUpperCase().split(SEPARATORS).filter(Boolean);
+
+  if (parts.length === 0 || parts.length > 3) {
+    return null;
+  }
+
+  // A trailing exchange suffix wins over a share class: a one-letter class
+  // that collides with an exchange code (.V, .T, .L) reads as the exchange
+  let exchange = US_EXCHANGE;
+  const last = parts.at(-1) as string;
+  const suffix = ALPHA_VANTAGE_SUFFIXES.get(last) ?? last;
+  if (parts.length > 1 && EXCHANGES[suffix]) {
+    exchange = EXCHANGES[suffix];
+    parts.pop();
+  }
+
+  const [root, shareClass, ...rest] = parts;
+  const rootPattern = exchange === US_EXCHANGE ? US_ROOT : FOREIGN_ROOT;
+  if (
+    rest.length > 0 ||
+    !rootPattern.test(root) ||
+    (shareClass !== undefined && !SHARE_CLASS.test(shareClass))
+  ) {
+    return null;
+  }
+
+  if (!exchange.suffix) {
+    return {
+      root,
+      shareClass,
+      exchange,
+      symbol: shareClass ? `${root}.${shareClass}` : root,
+    };
+  }
+
+  const base = shareClass ? `${root}-${shareClass}` : root;
+  return {
+    root,
+    shareClass,
+    exchange,
+    symbol: `${base}.${exchange.suffix}`,
+  };
+};
+
+/**
+ * Split a crypto pair into base and quote currency (BTC-USD, ETH/EUR). A bare
+ * coin (BTC) is taken as quoted in USD, so only call this for input already
+ * known to be crypto: BTC is also a listed ETF.
+ */
+export const parseCryptoSymbol = (input: string): CryptoPair | null => {
+  const parts = input.trim().toUpperCase().split(SEPARATORS).filter(Boolean);
+  const [base, quote = 'USD', ...rest] = parts;
+
+  if (
+    !base ||
+    rest.length > 0 ||
+    !CRYPTO_BASE.test(base) ||
+    !CRYPTO_QUOTE_CURRENCIES.includes(quote)
+  ) {
+    return null;
+  }
+
+  return { base, quote, symbol: `${base}-${quote}` };
+};
+
+/**
+ * Whether a string is a crypto pair with an explicit quote currency. These
+ * never parse as tickers, since share classes are at most two letters.
+ */
+export const isCryptoSymbol = (input: string): boolean => {
+  return (
+    input.trim().split(SEPARATORS).filter(Boolean).length === 2 &&
+    parseCryptoSymbol(input) !== null
+  );
+};
+
+/**
+ * Canonical form of a ticker or crypto pair, or null if it is neither
+ */
+export const normalizeSymbol = (input: string): string | null => {
+  return (
+    parseSymbol(input)?.symbol ??
+    (isCryptoSymbol(input) ? parseCryptoSymbol(input)?.symbol : null) ??
+    null
+  );
+};
+
+/**
+ * Whether a string is a valid ticker or crypto pair in any accepted format
+ */
+export const isValidSymbol = (input: string): boolean => {
+  return normalizeSymbol(input) !== null;
+};
+
+/**
+ * Key for comparing tickers written in different formats ("BRK-B" and
+ * "brk.b" compare equal); unparseable input falls back to upper case
+ */
+export const getSymbolKey = (input: string): string => {
+  return normalizeSymbol(input) ?? input.trim().toUpperCase();
+};
+
+/**
+ * Ticker in the format a provider expects, or null if the provider does not
+ * cover the listing. Finnhub uses the canonical form; Alpha Vantage uses a
+ * dash for share classes (BRK-B) and its own exchange suffixes (SHOP.TRT).
+ */
+export const toProviderSymbol = (
+  symbol: string,
+  provider: SymbolProvider
+): string | null => {
+  const parsed = parseSymbol(symbol);
+  if (!parsed) {
+    return null;
+  }
+
+  if (provider === 'finnhub') {
+    return parsed.symbol;
+  }
+
+  const { alphaVantageSuffix } = parsed.exchange;
+  if (alphaVantageSuffix === null) {
+    return null;
+  }
+
+  const base = parsed.shareClass
+    ? `${parsed.root}-${parsed.shareClass}`
+    : parsed.root;
+  return alphaVantageSuffix ? `${base}.${alphaVantageSuffix}` : base;
+};
+
+/**
+ * Exchange details for a ticker (US for plain tickers)
+ */
+export const getSymbolExchange = (symbol: string): ExchangeInfo | null => {
+  return parseSymbol(symbol)?.exchange ?? null;
+};
+
+/**
+ * Currency a ticker or crypto pair is priced in, or null if unknown
+ */
+export const getSymbolCurrency = (symbol: string): string | null => {
+  if (isCryptoSymbol(symbol)) {
+    return parseCryptoSymbol(symbol)?.quote ?? null;
+  }
+  return getSymbolExchange(symbol)?.currency ?? null;
+};
@@ -0,0 +1,358 @@
+import { type PortfolioPosition, roundQuantity } from './storage';
+import { addDays } from './utils';
+
+export const LOT_METHODS = ['fifo', 'lifo', 'highestCost'] as const;
+
+/**
+ * Which lots a sale takes shares from when it does not name them
+ */
+export type LotMethod = (typeof LOT_METHODS)[number];
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  highestCost: 'Highest cost first',
+};
+
+export type HoldingTerm = 'short' | 'long' | 'unknown';
+
+export const HOLDING_TERM_LABELS: Record<HoldingTerm, string> = {
+  short: 'Short-term',
+  long: 'Long-term',
+  unknown: 'Unknown term',
+};
+
+// Buying the same security this many days either side of a loss washes it
+const WASH_SALE_DAYS = 30;
+
+// Cells holding these are quoted, with quotes doubled
+const CSV_QUOTED = /[",\n]/;
+const CSV_QUOTE = /"/g;
+
+/**
+ * Shares bought (or transferred in) together, sold off separately
+ */
+export interface TaxLot {
+  /**
+   * Id of the buy or transfer that opened the lot, followed by `:<sale id>`
+   * for shares of it split off to replace shares sold at a loss
+   */
+  id: string;
+  symbol: string;
+  quantity: number;
+  /** Total cost of the shares left in the lot; undefined when unknown */
+  costBasis?: number;
+  acquiredAt?: string;
+  /** Date the lot was recorded, which orders lots of unknown age */
+  openedAt: string;
+  /** Losses from wash sales added to the cost basis */
+  washSaleAdjustment?: number;
+}
+
+/**
+ * Shares a sale takes from a named lot (specific identification)
+ */
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+/**
+ * The shares of one lot sold in one sale, for the realized gains report.
+ * Amounts are in the holding's currency and undefined when the price or
+ * cost is unknown.
+ */
+export interface RealizedLot {
+  saleId: string;
+  lotId: string;
+  symbol: string;
+  companyName: string;
+  currency?: string;
+  quantity: number;
+  acquiredAt?: string;
+  soldAt: string;
+  proceeds?: number;
+  costBasis?: number;
+  /** Gain after adding back any loss disallowed as a wash sale */
+  gain?: number;
+  term: HoldingTerm;
+  /** Loss not deductible because the shares were bought back */
+  washSaleDisallowed?: number;
+  /**
+   * Part of the disallowed loss no open lot carries, because the shares
+   * bought back had been sold by the time of this sale
+   */
+  washSaleUncarried?: number;
+}
+
+export interface TermTotals {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+/**
+ * Realized gains of one tax year in one currency
+ */
+export interface RealizedGainsYear {
+  year: number;
+  currency: string;
+  shortTerm: TermTotals;
+  longTerm: TermTotals;
+  /** Lots bought on an unknown date */
+  unknownTerm: TermTotals;
+  washSaleDisallowed: number;
+  /** Disallowed losses left off every lot, to adjust by hand */
+  washSaleUncarried: number;
+  /** Lots sold without a known price or cost, left out of the totals */
+  incompleteCount: number;
+  lots: RealizedLot[];
+}
+
+export const isLotMethod = (value: unknown): value is LotMethod => {
+  return LOT_METHODS.includes(value as LotMethod);
+};
+
+const lotDate = (lot: TaxLot): string => {
+  return lot.acquiredAt ?? lot.openedAt;
+};
+
+// Lots of unknown cost go last when the costliest are sold first
+const costPerShare = (lot: TaxLot): number => {
+  return lot.costBasis === undefined ? -1 : lot.costBasis / lot.quantity;
+};
+
+/**
+ * Lots in the order a method sells them
+ */
+export const orderLots = (lots: TaxLot[], method: LotMethod): TaxLot[] => {
+  const byAge = [...lots].sort((a, b) => lotDate(a).localeCompare(lotDate(b)));
+  if (method === 'lifo') {
+    return byAge.reverse();
+  }
+  if (method === 'highestCost') {
+    return byAge.sort((a, b) => costPerShare(b) - costPerShare(a));
+  }
+  return byAge;
+};
+
+const matchSelectedLots = (
+  lots: TaxLot[],
+  quantity: number,
+  selection: LotSelection[]
+): { lot: TaxLot; quantity: number }[] | string => {
+  const selected = roundQuantity(
+    selection.reduce((sum, item) => sum + item.quantity, 0)
+  );
+  if (selected !== roundQuantity(quantity)) {
+    return `selected lots add up to ${selected}, not ${quantity}`;
+  }
+
+  // A lot named twice is sold from once, for the shares of both
+  const byLot = new Map<string, number>();
+  for (const item of selection) {
+    byLot.set(
+      item.lotId,
+      roundQuantity((byLot.get(item.lotId) ?? 0) + item.quantity)
+    );
+  }
+
+  const matches: { lot: TaxLot; quantity: number }[] = [];
+  for (const [lotId, selectedQuantity] of byLot) {
+    const lot = lots.find((candidate) => candidate.id === lotId);
+    if (!lot) {
+      return 'selected lot not held';
+    }
+    if (selectedQuantity > lot.quantity) {
+      return `more than the ${lot.quantity} in the lot from ${lotDate(lot)}`;
+    }
+    matches.push({ lot, quantity: selectedQuantity });
+  }
+  return matches;
+};
+
+/**
+ * The shares of each lot a sale or transfer out takes: the lots it names,
+ * else the lots the method picks. Returns why when the lots cannot cover it.
+ */
+export const matchLots = (
+  lots: TaxLot[],
+  quantity: number,
+  method: LotMethod,
+  selection?: LotSelection[]
+): { lot: TaxLot; quantity: number }[] | string => {
+  if (selection && selection.length > 0) {
+    return matchSelectedLots(lots, quantity, selection);
+  }
+
+  const matches: { lot: TaxLot; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const lot of orderLots(lots, method)) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(lot.quantity, remaining);
+    matches.push({ lot, quantity: taken });
+    remaining = roundQuantity(remaining - taken);
+  }
+
+  if (remaining > 0) {
+    const held = roundQuantity(
+      lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    );
+    return `more than the ${held} held`;
+  }
+  return matches;
+};
+
+/**
+ * Long-term once held for more than a year: shares bought on 2023-03-15
+ * are long-term when sold on 2024-03-16 or later
+ */
+export const getHoldingTerm = (
+  acquiredAt: string | undefined,
+  soldAt: string
+): HoldingTerm => {
+  if (!acquiredAt) {
+    return 'unknown';
+  }
+  const anniversary = `${Number(acquiredAt.slice(0, 4)) + 1}${acquiredAt.slice(4)}`;
+  return soldAt > anniversary ? 'long' : 'short';
+};
+
+/**
+ * Whether a purchase on `date` falls within 30 days before or after a sale
+ */
+export const isWithinWashSaleWindow = (
+  date: string,
+  soldAt: string
+): boolean => {
+  return (
+    date >= addDays(soldAt, -WASH_SALE_DAYS) &&
+    date <= addDays(soldAt, WASH_SALE_DAYS)
+  );
+};
+
+/**
+ * Holding fields of open lots combined: the cost is only known if every
+ * lot's is, and the date is the earliest known one
+ */
+export const summarizeLots = (
+  lots: TaxLot[]
+): Pick<PortfolioPosition, 'shares' | 'costBasis' | 'acquiredAt'> => {
+  const costs = lots.map((lot) => lot.costBasis);
+  return {
+    shares: roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0)),
+    costBasis: costs.every((cost) => cost !== undefined)
+      ? costs.reduce((sum, cost) => sum + cost, 0)
+      : undefined,
+    acquiredAt: lots
+      .map((lot) => lot.acquiredAt)
+      .filter(Boolean)
+      .sort()[0],
+  };
+};
+
+const emptyTotals = (): TermTotals => ({ proceeds: 0, costBasis: 0, gain: 0 });
+
+const TERM_TOTALS: Record<
+  HoldingTerm,
+  'shortTerm' | 'longTerm' | 'unknownTerm'
+> = {
+  short: 'shortTerm',
+  long: 'longTerm',
+  unknown: 'unknownTerm',
+};
+
+/**
+ * Realized gains per tax year (the calendar year of the sale) and
+ * currency, newest year first, split into short- and long-term
+ */
+export const summarizeRealizedGains = (
+  realized: RealizedLot[]
+): RealizedGainsYear[] => {
+  const years = new Map<string, RealizedGainsYear>();
+
+  for (const lot of realized) {
+    const year = Number(lot.soldAt.slice(0, 4));
+    const currency = lot.currency ?? 'USD';
+    const key = `${year}-${currency}`;
+    const summary = years.get(key) ?? {
+      year,
+      currency,
+      shortTerm: emptyTotals(),
+      longTerm: emptyTotals(),
+      unknownTerm: emptyTotals(),
+      washSaleDisallowed: 0,
+      washSaleUncarried: 0,
+      incompleteCount: 0,
+      lots: [],
+    };
+    years.set(key, summary);
+    summary.lots.push(lot);
+
+    if (
+      lot.proceeds === undefined ||
+      lot.costBasis === undefined ||
+      lot.gain === undefined
+    ) {
+      summary.incompleteCount += 1;
+      continue;
+    }
+
+    const totals = summary[TERM_TOTALS[lot.term]];
+    totals.proceeds += lot.proceeds;
+    totals.costBasis += lot.costBasis;
+    totals.gain += lot.gain;
+    summary.washSaleDisallowed += lot.washSaleDisallowed ?? 0;
+    summary.washSaleUncarried += lot.washSaleUncarried ?? 0;
+  }
+
+  return Array.from(years.values()).sort(
+    (a, b) => b.year - a.year || a.currency.localeCompare(b.currency)
+  );
+};
+
+const toCsvCell = (value: string | number | undefined): string => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'number' ? value.toFixed(2) : value;
+  return CSV_QUOTED.test(text) ? `"${text.replace(CSV_QUOTE, '""')}"` : text;
+};
+
+/**
+ * The sales of a year as CSV, one row per lot in the layout of Form 8949:
+ * description, dates acquired and sold, proceeds, cost, wash sale
+ * adjustment and gain
+ */
+export const realizedGainsToCsv = (summary: RealizedGainsYear): string => {
+  const header = [
+    'Description',
+    'Date Acquired',
+    'Date Sold',
+    'Proceeds',
+    'Cost Basis',
+    'Wash Sale Loss Disallowed',
+    'Gain or Loss',
+    'Term',
+    'Currency',
+  ];
+  const rows = [...summary.lots]
+    .sort((a, b) => a.soldAt.localeCompare(b.soldAt))
+    .map((lot) => [
+      `${lot.quantity} ${lot.symbol} (${lot.companyName})`,
+      lot.acquiredAt,
+      lot.soldAt,
+      lot.proceeds,
+      lot.costBasis,
+      lot.washSaleDisallowed,
+      lot.gain,
+      HOLDING_TERM_LABELS[lot.term],
+      summary.currency,
+    ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(','))
+    .join('\n');
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getMarketSession,
+  getPreviousTradingDay,
+  isEarlyClose,
+  isTradingDay,
+} from './tradingCalendar';
+
+describe('trading days', () => {
+  it.each([
+    ['2024-03-28', true, 'the Thursday before Good Friday'],
+    ['2024-03-29', false, 'Good Friday'],
+    ['2024-03-30', false, 'a Saturday'],
+    ['2024-02-19', false, "Washington's Birthday"],
+    ['2021-12-31', true, "New Year's Day on a Saturday is not observed"],
+    ['2021-06-18', true, 'Juneteenth before it became a holiday'],
+    ['2022-06-20', false, 'Juneteenth observed on a Monday'],
+    ['2026-07-03', false, 'Independence Day observed on a Friday'],
+    ['2024-11-28', false, 'Thanksgiving Day'],
+  ])('%s is a trading day: %s (%s)', (date, expected) => {
+    expect(isTradingDay(date)).toBe(expected);
+  });
+
+  it('steps back over weekends and holidays', () => {
+    expect(getPreviousTradingDay('2024-04-01')).toBe('2024-03-28');
+    expect(getPreviousTradingDay('2024-07-05')).toBe('2024-07-03');
+  });
+});
+
+describe('early closes', () => {
+  it.each([
+    ['2024-07-03', true, 'the day before Independence Day'],
+    ['2024-11-29', true, 'the day after Thanksgiving'],
+    ['2024-12-24', true, 'Christmas Eve'],
+    ['2026-07-03', false, 'July 3 as the observed holiday'],
+    ['2022-12-24', false, 'Christmas Eve on a Saturday'],
+    ['2024-07-02', false, 'an ordinary day'],
+  ])('%s closes early: %s (%s)', (date, expected) => {
+    expect(isEarlyClose(date)).toBe(expected);
+  });
+});
+
+describe('market session', () => {
+  it.each([
+    // July 3: regular session ends at 1 pm, after-hours at 5 pm (EDT)
+    ['2024-07-03T16:30:00Z', 'open', 'live'],
+    ['2024-07-03T17:30:00Z', 'post', 'close'],
+    ['2024-07-03T21:30:00Z', 'closed', 'close'],
+    ['2024-07-02T21:30:00Z', 'post', 'close'],
+    // Good Friday: no session at any hour
+    ['2024-03-29T15:00:00Z', 'closed', 'previousClose'],
+    // The Friday before clocks go forward, still on EST
+    ['2024-03-08T14:29:00Z', 'pre', 'previousClose'],
+    ['2024-03-08T14:30:00Z', 'open', 'live'],
+    // The Monday after, on EDT: 9:30 is an hour earlier in UTC
+    ['2024-03-11T13:29:00Z', 'pre', 'previousClose'],
+    ['2024-03-11T13:30:00Z', 'open', 'live'],
+    // The Monday after clocks go back, on EST again
+    ['2024-11-04T14:29:00Z', 'pre', 'previousClose'],
+    ['2024-11-04T14:30:00Z', 'open', 'live'],
+  ])('at %s is %s with a %s quote', (instant, status, quoteBasis) => {
+    expect(getMarketSession(new Date(instant))).toMatchObject({
+      status,
+      quoteBasis,
+    });
+  });
+
+  it.each([
+    // Sunday 1:30 am EST, half an hour before clocks go forward
+    ['2024-03-10T06:30:00Z', '2024-03-10', '2024-03-11T13:30:00.000Z'],
+    // Sunday 1:30 am EDT, before clocks go back
+    ['2024-11-03T05:30:00Z', '2024-11-03', '2024-11-04T14:30:00.000Z'],
+    // Friday evening after the close, local date still Friday
+    ['2024-03-09T01:30:00Z', '2024-03-08', '2024-03-11T13:30:00.000Z'],
+    // Thursday night before Good Friday opens again on Monday
+    ['2024-03-29T02:00:00Z', '2024-03-28', '2024-04-01T13:30:00.000Z'],
+  ])('at %s is on %s and next opens at %s', (instant, date, nextOpen) => {
+    const session = getMarketSession(new Date(instant));
+
+    expect(session.date).toBe(date);
+    expect(session.nextOpen.toISOString()).toBe(nextOpen);
+  });
+
+  it('names the holiday it is closed for', () => {
+    expect(getMarketSession(new Date('2024-03-29T15:00:00Z')).holiday).toBe(
+      'Good Friday'
+    );
+  });
+});
@@ -0,0 +1,258 @@
+// NYSE trading calendar: holidays, early closes and extended-hours sessions.
+// All session times are New York local time.
+
+import { exchangeTimeToIso, getExchangeDate } from '@/lib/quotes/time';
+
+export type MarketSessionStatus = 'pre' | 'open' | 'post' | 'closed';
+
+/**
+ * What a quote fetched now represents: a live price, today's close, or the
+ * close of the previous trading day (weekends, holidays, before the open)
+ */
+export type QuoteBasis = 'live' | 'close' | 'previousClose';
+
+export interface MarketSession {
+  status: MarketSessionStatus;
+  /** Exchange-local date, YYYY-MM-DD */
+  date: string;
+  isTradingDay: boolean;
+  isEarlyClose: boolean;
+  holiday?: string;
+  quoteBasis: QuoteBasis;
+  /** Start of the next regular session */
+  nextOpen: Date;
+}
+
+const PRE_MARKET_OPEN = '04:00:00';
+const REGULAR_OPEN = '09:30:00';
+const REGULAR_CLOSE = '16:00:00';
+const EARLY_CLOSE = '13:00:00';
+const POST_MARKET_CLOSE = '20:00:00';
+const EARLY_POST_MARKET_CLOSE = '17:00:00';
+
+// Juneteenth became an NYSE holiday in 2022
+const JUNETEENTH_FIRST_YEAR = 2022;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (year: number, month: number, day: number): string => {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+};
+
+const addDays = (date: string, days: number): string => {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+const getWeekday = (date: string): number => new Date(date).getUTCDay();
+
+/**
+ * The nth (1-based) weekday of a month; n = -1 for the last one
+ */
+const nthWeekday = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): string => {
+  if (n < 0) {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const last = toDateString(year, month, lastDay);
+    return addDays(last, -((getWeekday(last) - weekday + 7) % 7));
+  }
+
+  const first = toDateString(year, month, 1);
+  const offset = (weekday - getWeekday(first) + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+};
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+const getEaster = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(year, month, day);
+};
+
+/**
+ * Fixed-date holidays move to Friday when on Saturday and Monday when on
+ * Sunday
+ */
+const observed = (date: string): string => {
+  const weekday = getWeekday(date);
+  if (weekday === 6) {
+    return addDays(date, -1);
+  }
+  if (weekday === 0) {
+    return addDays(date, 1);
+  }
+  return date;
+};
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * NYSE full-day holidays for a year, keyed by date
+ */
+export const getHolidays = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = new Map<string, string>();
+
+  // New Year's Day on a Saturday is not observed on the prior Friday
+  const newYear = toDateString(year, 1, 1);
+  if (getWeekday(newYear) !== 6) {
+    holidays.set(observed(newYear), "New Year's Day");
+  }
+  holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(getEaster(year), -2), 'Good Friday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= JUNETEENTH_FIRST_YEAR) {
+    holidays.set(observed(toDateString(year, 6, 19)), 'Juneteenth');
+  }
+  holidays.set(observed(toDateString(year, 7, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observed(toDateString(year, 12, 25)), 'Christmas Day');
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+const getHoliday = (date: string): string | undefined => {
+  return getHolidays(Number(date.slice(0, 4))).get(date);
+};
+
+/**
+ * Whether the exchange holds a regular session on a date (YYYY-MM-DD)
+ */
+export const isTradingDay = (date: string): boolean => {
+  const weekday = getWeekday(date);
+  return weekday !== 0 && weekday !== 6 && !getHoliday(date);
+};
+
+/**
+ * Whether the regular session closes at 1:00 pm: the day before
+ * Independence Day, the day after Thanksgiving and Christmas Eve
+ */
+export const isEarlyClose = (date: string): boolean => {
+  if (!isTradingDay(date)) {
+    return false;
+  }
+
+  const year = Number(date.slice(0, 4));
+  return (
+    date === toDateString(year, 7, 3) ||
+    date === addDays(nthWeekday(year, 11, 4, 4), 1) ||
+    date === toDateString(year, 12, 24)
+  );
+};
+
+/**
+ * The trading day before a date
+ */
+export const getPreviousTradingDay = (date: string): string => {
+  let previous = addDays(date, -1);
+  while (!isTradingDay(previous)) {
+    previous = addDays(previous, -1);
+  }
+  return previous;
+};
+
+/**
+ * The first trading day on or after a date
+ */
+const getTradingDayOnOrAfter = (date: string): string => {
+  let next = date;
+  while (!isTradingDay(next)) {
+    next = addDays(next, 1);
+  }
+  return next;
+};
+
+const at = (date: string, time: string): Date => {
+  return new Date(exchangeTimeToIso(`${date} ${time}`));
+};
+
+const getSessionStatus = (date: string, now: Date): MarketSessionStatus => {
+  if (!isTradingDay(date)) {
+    return 'closed';
+  }
+
+  const earlyClose = isEarlyClose(date);
+  const regularOpen = at(date, REGULAR_OPEN);
+  const regularClose = at(date, earlyClose ? EARLY_CLOSE : REGULAR_CLOSE);
+  const postClose = at(
+    date,
+    earlyClose ? EARLY_POST_MARKET_CLOSE : POST_MARKET_CLOSE
+  );
+
+  if (now >= regularOpen && now < regularClose) {
+    return 'open';
+  }
+  if (now >= at(date, PRE_MARKET_OPEN) && now < regularOpen) {
+    return 'pre';
+  }
+  if (now >= regularClose && now < postClose) {
+    return 'post';
+  }
+  return 'closed';
+};
+
+/**
+ * Market session state at an instant
+ */
+export const getMarketSession = (now = new Date()): MarketSession => {
+  const date = getExchangeDate(now);
+  const tradingDay = isTradingDay(date);
+  const earlyClose = isEarlyClose(date);
+  const status = getSessionStatus(date, now);
+  const regularOpen = at(date, REGULAR_OPEN);
+
+  let quoteBasis: QuoteBasis = 'previousClose';
+  if (status === 'open') {
+    quoteBasis = 'live';
+  } else if (
+    tradingDay &&
+    now >= at(date, earlyClose ? EARLY_CLOSE : REGULAR_CLOSE)
+  ) {
+    quoteBasis = 'close';
+  }
+
+  const nextOpenDate = getTradingDayOnOrAfter(
+    tradingDay && now < regularOpen ? date : addDays(date, 1)
+  );
+
+  return {
+    status,
+    date,
+    isTradingDay: tradingDay,
+    isEarlyClose: earlyClose,
+    holiday: getHoliday(date),
+    quoteBasis,
+    nextOpen: at(nextOpenDate, REGULAR_OPEN),
+  };
+};
+
+/**
+ * Whether the regular session is open at an instant
+ */
+export const isMarketOpen = (now = new Date()): boolean => {
+  return getMarketSession(now).status === 'open';
+};
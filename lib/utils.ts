@@ -1,19 +1,52 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { isValidSymbol } from './symbols';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
 /**
- * Format currency values
+ * Format currency values. Uses each currency's own decimal places (none for
+ * JPY); GBX prices are shown in pence.
  */
-export const formatCurrency = (value: number): string => {
+export const formatCurrency = (value: number, currency = 'USD'): string => {
+  if (currency === 'GBX') {
+    return `${new Intl.NumberFormat('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value)}p`;
+  }
+
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    currency,
+  }).format(value);
+};
+
+/**
+ * Format a unit price. Prices under one unit (DOGE, penny stocks) keep up to
+ * six decimals so they do not round to zero.
+ */
+export const formatPrice = (value: number, currency = 'USD'): string => {
+  if (currency === 'GBX' || Math.abs(value) >= 1 || value === 0) {
+    return formatCurrency(value, currency);
+  }
+
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 6,
+  }).format(value);
+};
+
+/**
+ * Format a holding quantity, keeping fractional shares and coins exact up
+ * to eight decimals (0.5 BTC, 12.345 shares)
+ */
+export const formatQuantity = (value: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    maximumFractionDigits: 8,
   }).format(value);
 };
 
@@ -61,17 +94,96 @@ export const formatRelativeTime = (date: Date): string => {
   return 'Just now';
 };
 
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/;
+const MONTH_YEAR = /^([a-z]{3})[a-z]*\.?\s+(\d{4})$/i;
+const YEAR = /^(\d{4})$/;
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Read a date as people and brokers write it ("2021-03-15", "3/15/2021",
+ * "March 2021", "2021") into YYYY-MM-DD. A month or year alone means its
+ * first day.
+ */
+export const parseDateInput = (value: string): string | null => {
+  const text = value.trim();
+
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const us = US_DATE.exec(text);
+  if (us) {
+    const year = Number(us[3]);
+    return toIsoDate(
+      year < 100 ? 2000 + year : year,
+      Number(us[1]),
+      Number(us[2])
+    );
+  }
+
+  const monthYear = MONTH_YEAR.exec(text);
+  if (monthYear) {
+    const month = MONTHS.indexOf(monthYear[1].toLowerCase());
+    return month < 0 ? null : toIsoDate(Number(monthYear[2]), month + 1, 1);
+  }
+
+  const year = YEAR.exec(text);
+  return year ? toIsoDate(Number(year[1]), 1, 1) : null;
+};
+
+/**
+ * Today's date in the local time zone as YYYY-MM-DD
+ */
+export const getToday = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
 /**
- * Regex for validating stock symbols (1-5 uppercase letters)
+ * A YYYY-MM-DD date moved by a number of days, which may be negative
  */
-const STOCK_SYMBOL_REGEX = /^[A-Z]{1,5}$/;
+export const addDays = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
 
 /**
- * Validate stock symbol format
+ * Validate stock symbol format, including share classes (BRK.B) and
+ * non-US listings (SHOP.TO, 7203.T)
  */
 export const isValidStockSymbol = (symbol: string): boolean => {
-  // Basic validation: 1-5 uppercase letters
-  return STOCK_SYMBOL_REGEX.test(symbol);
+  return isValidSymbol(symbol);
 };
 
 /**
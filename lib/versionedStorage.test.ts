@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  flushPortfolioStore,
+  initPortfolioStore,
+  type PortfolioStore,
+} from './portfolioStore';
+import {
+  createVersionedStore,
+  listQuarantinedData,
+  readVersioned,
+  type VersionedSpec,
+} from './versionedStorage';
+
+interface Watchlist {
+  symbols: string[];
+  note: string;
+}
+
+// Version 0 saved a bare array, version 1 wrapped it, version 2 added a note
+const spec: VersionedSpec<Watchlist> = {
+  version: 2,
+  schema: z.object({ symbols: z.array(z.string()), note: z.string() }),
+  migrations: [
+    (data) => ({ symbols: data }),
+    (data) => ({ ...(data as object), note: '' }),
+  ],
+};
+
+const KEY = 'watchlist';
+
+// Saved values as the store holds them, so tests can see what was written
+let saved: Map<string, string>;
+
+const createMemoryStore = (): PortfolioStore => ({
+  kind: 'localStorage',
+  load: () => Promise.resolve(Object.fromEntries(saved)),
+  set: (key, value) => {
+    saved.set(key, value);
+    return Promise.resolve();
+  },
+  remove: (key) => {
+    saved.delete(key);
+    return Promise.resolve();
+  },
+});
+
+const createWatchlistStore = () =>
+  createVersionedStore(KEY, spec, () => ({ symbols: [], note: 'empty' }));
+
+describe('versioned storage', () => {
+  beforeEach(async () => {
+    saved = new Map();
+    await initPortfolioStore(createMemoryStore());
+  });
+
+  it('upgrades a payload saved before versioning and saves it back', async () => {
+    saved.set(KEY, JSON.stringify(['AAPL', 'MSFT']));
+    await initPortfolioStore(createMemoryStore());
+
+    expect(createWatchlistStore().load()).toEqual({
+      symbols: ['AAPL', 'MSFT'],
+      note: '',
+    });
+
+    await flushPortfolioStore();
+    expect(JSON.parse(saved.get(KEY) ?? '')).toEqual({
+      version: 2,
+      data: { symbols: ['AAPL', 'MSFT'], note: '' },
+    });
+    expect(listQuarantinedData()).toEqual([]);
+  });
+
+  it('refuses data saved by a newer version', () => {
+    const raw = JSON.stringify({ version: 3, data: { symbols: ['AAPL'] } });
+
+    expect(readVersioned(raw, spec)).toEqual({
+      error: 'saved by a newer version (3)',
+    });
+  });
+
+  it('reports data that fails validation after migrating', () => {
+    const raw = JSON.stringify({ version: 1, data: { symbols: [1] } });
+
+    expect(readVersioned(raw, spec)).toEqual({
+      error: 'symbols.0: Expected string, received number',
+    });
+  });
+
+  it('quarantines corrupt JSON so later saves do not overwrite it', async () => {
+    const raw = '{"version":2,"data":{"symbols":["AAPL"';
+    saved.set(KEY, raw);
+    await initPortfolioStore(createMemoryStore());
+    const store = createWatchlistStore();
+
+    expect(store.load()).toEqual({ symbols: [], note: 'empty' });
+    store.save({ symbols: ['NVDA'], note: 'new' });
+    await flushPortfolioStore();
+
+    const [entry] = listQuarantinedData();
+    expect(entry).toMatchObject({ key: KEY, reason: 'not valid JSON', raw });
+    expect(JSON.parse(saved.get(entry.id) ?? '').raw).toBe(raw);
+    expect(JSON.parse(saved.get(KEY) ?? '')).toEqual({
+      version: 2,
+      data: { symbols: ['NVDA'], note: 'new' },
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import type { z } from 'zod';
+import {
+  getSavedItem,
+  listSavedKeys,
+  removeSavedItem,
+  setSavedItem,
+} from './portfolioStore';
+
+/**
+ * How a value is saved: its shape version next to the data, so older
+ * shapes can be recognised and upgraded when read back
+ */
+export interface VersionedEnvelope<T = unknown> {
+  version: number;
+  data: T;
+}
+
+/**
+ * Upgrades data saved at one version to the shape of the next
+ */
+export type Migration = (data: unknown) => unknown;
+
+export interface VersionedSpec<T> {
+  /** Version written by this code */
+  version: number;
+  /** Validates data once upgraded to the current version */
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /**
+   * `migrations[n]` upgrades version n to n + 1. Version 0 is data saved
+   * bare, before it was wrapped in an envelope.
+   */
+  migrations: Migration[];
+}
+
+export interface VersionedStore<T> {
+  load: () => T;
+  save: (data: T) => void;
+  remove: () => void;
+}
+
+export type VersionedReadResult<T> =
+  | { data: T; upgraded: boolean }
+  | { error: string };
+
+/**
+ * A saved value that could not be read, set aside under its own key so it
+ * can be inspected or downloaded rather than lost
+ */
+export interface QuarantinedData {
+  /** Storage key the copy is kept under */
+  id: string;
+  /** Key the value was saved under */
+  key: string;
+  reason: string;
+  quarantinedAt: string;
+  raw: string;
+}
+
+const QUARANTINE_PREFIX = 'quarantine:';
+
+const isEnvelope = (value: unknown): value is VersionedEnvelope => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Number.isInteger((value as VersionedEnvelope).version) &&
+    'data' in value
+  );
+};
+
+const describeIssue = (issue: z.ZodIssue): string => {
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+};
+
+/**
+ * Wrap data in an envelope at the current version
+ */
+export const toEnvelope = <T>(
+  data: T,
+  spec: VersionedSpec<T>
+): VersionedEnvelope<T> => {
+  return { version: spec.version, data };
+};
+
+/**
+ * Read saved JSON: unwrap its envelope (or take bare data as version 0),
+ * run the migrations from its version up to the current one, and validate
+ * the result. Returns why when the data cannot be used.
+ */
+export const readVersioned = <T>(
+  raw: string,
+  spec: VersionedSpec<T>
+): VersionedReadResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (_error) {
+    return { error: 'not valid JSON' };
+  }
+
+  const envelope = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+  if (envelope.version > spec.version) {
+    return { error: `saved by a newer version (${envelope.version})` };
+  }
+
+  let data = envelope.data;
+  for (let version = envelope.version; version < spec.version; version++) {
+    const migrate = spec.migrations[version];
+    if (!migrate) {
+      return { error: `no migration from version ${version}` };
+    }
+    try {
+      data = migrate(data);
+    } catch (error) {
+      return {
+        error: `migration from version ${version} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  const result = spec.schema.safeParse(data);
+  if (!result.success) {
+    return { error: describeIssue(result.error.issues[0]) };
+  }
+  return { data: result.data, upgraded: envelope.version < spec.version };
+};
+
+/**
+ * Keep a copy of an unreadable value and clear its key, so the next save
+ * does not overwrite it. Copies are listed by listQuarantinedData for the
+ * user to download or discard.
+ */
+const quarantine = (key: string, raw: string, reason: string): void => {
+  const quarantinedAt = new Date().toISOString();
+  const entry: Omit<QuarantinedData, 'id'> = {
+    key,
+    reason,
+    quarantinedAt,
+    raw,
+  };
+
+  setSavedItem(
+    `${QUARANTINE_PREFIX}${key}:${quarantinedAt}`,
+    JSON.stringify(entry)
+  );
+  removeSavedItem(key);
+};
+
+/**
+ * A value kept in the portfolio store under one key in a versioned
+ * envelope. Values saved in older shapes are upgraded and saved back when
+ * loaded; values that cannot be read are quarantined and `fallback` is
+ * returned.
+ */
+export const createVersionedStore = <T>(
+  key: string,
+  spec: VersionedSpec<T>,
+  fallback: () => T
+): VersionedStore<T> => {
+  const save = (data: T): void => {
+    setSavedItem(key, JSON.stringify(toEnvelope(data, spec)));
+  };
+
+  const load = (): T => {
+    const raw = getSavedItem(key);
+    if (raw === null) {
+      return fallback();
+    }
+
+    const result = readVersioned(raw, spec);
+    if ('error' in result) {
+      quarantine(key, raw, result.error);
+      return fallback();
+    }
+
+    if (result.upgraded) {
+      save(result.data);
+    }
+    return result.data;
+  };
+
+  const remove = (): void => {
+    removeSavedItem(key);
+  };
+
+  return { load, save, remove };
+};
+
+/**
+ * Saved values that were set aside as unreadable, oldest first
+ */
+export const listQuarantinedData = (): QuarantinedData[] => {
+  return listSavedKeys()
+    .filter((id) => id.startsWith(QUARANTINE_PREFIX))
+    .flatMap((id): QuarantinedData[] => {
+      try {
+        return [{ ...JSON.parse(getSavedItem(id) ?? ''), id }];
+      } catch (_error) {
+        // Skip copies that were themselves damaged
+        return [];
+      }
+    })
+    .sort((a, b) => a.quarantinedAt.localeCompare(b.quarantinedAt));
+};
+
+/**
+ * Delete a quarantined copy once it has been saved elsewhere or given up on
+ */
+export const discardQuarantinedData = (id: string): void => {
+  if (id.startsWith(QUARANTINE_PREFIX)) {
+    removeSavedItem(id);
+  }
+};
@@ -1,7 +1,8 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loads its .wasm file from its own folder, so it cannot be bundled
+  serverExternalPackages: ['node-sqlite3-wasm'],
 };
 
 export default nextConfig;